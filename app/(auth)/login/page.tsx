@@ -1,130 +1,293 @@
 "use client";
 
-import { apiClient } from "@/lib/apiClient";
-import { useState } from "react";
+import { callApi, endpoints } from "@/lib/api";
+import { isApiError, type FieldErrors } from "@/lib/apiClient";
+import {
+  RETURN_TO_PARAM,
+  SESSION_EXPIRED_PARAM,
+  sanitizeReturnTo,
+} from "@/lib/auth";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+
+const OTP_LENGTH = 6;
+
+// Used when the server rate-limits without saying for how long.
+const DEFAULT_LOCKOUT_SECONDS = 30;
 
 export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const returnTo = sanitizeReturnTo(searchParams.get(RETURN_TO_PARAM));
+  const sessionExpired = searchParams.has(SESSION_EXPIRED_PARAM);
+
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [otp, setOtp] = useState("");
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (t >= lockedUntil) {
+        setLockedUntil(null);
+        setError(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const lockSecondsLeft = lockedUntil
+    ? Math.max(0, Math.ceil((lockedUntil - now) / 1000))
+    : 0;
+  const isLocked = lockSecondsLeft > 0;
+
+  const handleAuthError = (err: any, step: "credentials" | "mfa") => {
+    if (isApiError(err)) {
+      if (err.status === 429 || err.status === 423) {
+        const seconds =
+          err.retryAfter ??
+          (err.status === 429 ? DEFAULT_LOCKOUT_SECONDS : undefined);
+        if (seconds) {
+          setNow(Date.now());
+          setLockedUntil(Date.now() + seconds * 1000);
+        }
+        setError(err.status === 429 ? "TOO_MANY_ATTEMPTS" : "ACCOUNT_LOCKED");
+        return;
+      }
+      if (err.isValidation) setFieldErrors(err.fieldErrors);
+      if (err.status === 401) {
+        setError(
+          step === "mfa" ? "INVALID_VERIFICATION_CODE" : "INVALID_CREDENTIALS"
+        );
+        return;
+      }
+    }
+    setError(err?.message || "LOGIN_FAILED");
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (isLocked) return;
+
     setIsLoading(true);
+    setError(null);
+    setFieldErrors({});
 
     try {
-      console.log("Login attempt:", { email, password });
+      const result = await callApi(endpoints.auth.login, { email, password });
 
-      const res = await apiClient.post("/api/auth/login", {
-        email,
-        password,
-      });
+      if (result?.mfa_required) {
+        if (!result.mfa_token) throw new Error("MFA_TOKEN_MISSING");
+        setMfaToken(result.mfa_token);
+        setPassword("");
+        return;
+      }
 
-      // Optional: you can store returned user in state or redirect
-      console.log("Login success:", res);
+      // Full navigation so the (root) layout boots with the fresh session
+      window.location.href = returnTo;
+    } catch (err: any) {
+      handleAuthError(err, "credentials");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyMfa = async (code: string) => {
+    if (!mfaToken || code.length !== OTP_LENGTH || isLocked) return;
 
-      // Example redirect:
-      window.location.href = "/";
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await callApi(endpoints.auth.verifyMfa, { mfa_token: mfaToken, code });
+      window.location.href = returnTo;
     } catch (err: any) {
-      console.error("Login failed:", err.message);
-      // setError(err.message);
+      setOtp("");
+      handleAuthError(err, "mfa");
     } finally {
       setIsLoading(false);
     }
   };
 
+  const restartLogin = () => {
+    setMfaToken(null);
+    setOtp("");
+    setError(null);
+  };
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <div className="w-full max-w-md">
         {/* Header */}
         <div className="text-center mb-8">
           <h1 className="font-display text-3xl md:text-4xl text-foreground mb-2">
-            WELCOME BACK
+            {mfaToken ? "VERIFY IDENTITY" : "WELCOME BACK"}
           </h1>
           <p className="text-muted-foreground font-mono text-sm">
-            ENTER YOUR CREDENTIALS TO CONTINUE
+            {mfaToken
+              ? "ENTER THE CODE FROM YOUR AUTHENTICATOR APP"
+              : "ENTER YOUR CREDENTIALS TO CONTINUE"}
           </p>
         </div>
 
-        {/* Login Form */}
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="space-y-4">
-            {/* Email Field */}
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-sm font-mono text-foreground mb-2"
-              >
-                EMAIL_ADDRESS
-              </label>
-              <input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="w-full px-4 py-3 bg-input border border-border rounded-lg text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
-                placeholder="user@domain.com"
-                disabled={isLoading}
-              />
-            </div>
+        {sessionExpired && !error && !mfaToken && (
+          <div className="mb-6 rounded-lg border border-warning bg-warning/10 p-4 text-warning font-mono text-sm">
+            SESSION_EXPIRED // SIGN_IN_TO_CONTINUE
+          </div>
+        )}
 
-            {/* Password Field */}
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-mono text-foreground mb-2"
-              >
-                PASSWORD
-              </label>
-              <input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                className="w-full px-4 py-3 bg-input border border-border rounded-lg text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
-                placeholder="••••••••"
-                disabled={isLoading}
-              />
+        {error && (
+          <div
+            role="alert"
+            className="mb-6 rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive font-mono text-sm"
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <div className="w-1.5 h-1.5 bg-destructive rounded-full"></div>
+              <span>AUTHENTICATION_ERROR</span>
             </div>
+            {error}
+            {isLocked && (
+              <div className="mt-2 text-xs opacity-75">
+                RETRY_IN {lockSecondsLeft}s
+              </div>
+            )}
           </div>
+        )}
 
-          {/* Submit Button */}
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full py-3 px-4 bg-primary text-primary-foreground font-mono font-medium rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        {mfaToken ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              verifyMfa(otp);
+            }}
+            className="space-y-6"
           >
-            {isLoading ? (
-              <span className="flex items-center justify-center">
-                <svg
-                  className="animate-spin -ml-1 mr-3 h-5 w-5 text-primary-foreground"
-                  xmlns="http://www.w3.org/2000/svg"
-                  fill="none"
-                  viewBox="0 0 24 24"
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={OTP_LENGTH}
+                value={otp}
+                onChange={setOtp}
+                onComplete={verifyMfa}
+                disabled={isLoading || isLocked}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: OTP_LENGTH }).map((_, i) => (
+                    <InputOTPSlot key={i} index={i} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading || isLocked || otp.length !== OTP_LENGTH}
+              className="w-full py-3 px-4 bg-primary text-primary-foreground font-mono font-medium rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? <Spinner label="VERIFYING..." /> : "VERIFY_CODE"}
+            </button>
+
+            <button
+              type="button"
+              onClick={restartLogin}
+              disabled={isLoading}
+              className="w-full text-muted-foreground font-mono text-sm hover:text-foreground transition-colors duration-200 disabled:opacity-50"
+            >
+              USE_DIFFERENT_ACCOUNT
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-4">
+              {/* Email Field */}
+              <div>
+                <label
+                  htmlFor="email"
+                  className="block text-sm font-mono text-foreground mb-2"
                 >
-                  <circle
-                    className="opacity-25"
-                    cx="12"
-                    cy="12"
-                    r="10"
-                    stroke="currentColor"
-                    strokeWidth="4"
-                  ></circle>
-                  <path
-                    className="opacity-75"
-                    fill="currentColor"
-                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                  ></path>
-                </svg>
-                AUTHENTICATING...
-              </span>
-            ) : (
-              "ACCESS_SYSTEM"
-            )}
-          </button>
-        </form>
+                  EMAIL_ADDRESS
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  aria-invalid={!!fieldErrors.email}
+                  required
+                  className="w-full px-4 py-3 bg-input border border-border rounded-lg text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent aria-[invalid=true]:border-destructive transition-all duration-200"
+                  placeholder="user@domain.com"
+                  disabled={isLoading}
+                />
+                {fieldErrors.email && (
+                  <p className="mt-2 text-xs text-destructive font-mono">
+                    {fieldErrors.email}
+                  </p>
+                )}
+              </div>
+
+              {/* Password Field */}
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-mono text-foreground mb-2"
+                >
+                  PASSWORD
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  aria-invalid={!!fieldErrors.password}
+                  required
+                  className="w-full px-4 py-3 bg-input border border-border rounded-lg text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent aria-[invalid=true]:border-destructive transition-all duration-200"
+                  placeholder="••••••••"
+                  disabled={isLoading}
+                />
+                {fieldErrors.password && (
+                  <p className="mt-2 text-xs text-destructive font-mono">
+                    {fieldErrors.password}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Submit Button */}
+            <button
+              type="submit"
+              disabled={isLoading || isLocked}
+              className="w-full py-3 px-4 bg-primary text-primary-foreground font-mono font-medium rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? (
+                <Spinner label="AUTHENTICATING..." />
+              ) : isLocked ? (
+                "ACCESS_LOCKED"
+              ) : (
+                "ACCESS_SYSTEM"
+              )}
+            </button>
+          </form>
+        )}
 
         {/* Additional Links */}
         <div className="mt-6 text-center">
@@ -156,3 +319,31 @@ export default function LoginPage() {
     </div>
   );
 }
+
+function Spinner({ label }: { label: string }) {
+  return (
+    <span className="flex items-center justify-center">
+      <svg
+        className="animate-spin -ml-1 mr-3 h-5 w-5 text-primary-foreground"
+        xmlns="http://www.w3.org/2000/svg"
+        fill="none"
+        viewBox="0 0 24 24"
+      >
+        <circle
+          className="opacity-25"
+          cx="12"
+          cy="12"
+          r="10"
+          stroke="currentColor"
+          strokeWidth="4"
+        ></circle>
+        <path
+          className="opacity-75"
+          fill="currentColor"
+          d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+        ></path>
+      </svg>
+      {label}
+    </span>
+  );
+}
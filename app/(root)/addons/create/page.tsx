@@ -2,8 +2,10 @@
 
 import { useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
-import { apiClient } from "@/lib/apiClient";
+import { callApi, endpoints } from "@/lib/api";
+import { isApiError, type FieldErrors } from "@/lib/apiClient";
 import Link from "next/link";
+import RequirePermission from "@/components/auth/require-permission";
 
 type FormState = {
   title: string;
@@ -11,7 +13,15 @@ type FormState = {
   value: string;
 };
 
-export default function CreateAddons() {
+export default function CreateAddonsPage() {
+  return (
+    <RequirePermission permission="addons:write" backHref="/addons">
+      <CreateAddons />
+    </RequirePermission>
+  );
+}
+
+function CreateAddons() {
   const router = useRouter();
   const [form, setForm] = useState<FormState>({
     title: "",
@@ -19,18 +29,25 @@ export default function CreateAddons() {
     value: "",
   });
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [success, setSuccess] = useState<string | null>(null);
   const [pending, startTransition] = useTransition();
   const [submitting, setSubmitting] = useState(false);
 
   function onChange<K extends keyof FormState>(key: K, value: FormState[K]) {
     setError(null);
+    setFieldErrors((fe) => {
+      const next = { ...fe };
+      delete next[key];
+      return next;
+    });
     setForm((f) => ({ ...f, [key]: value }));
   }
 
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError(null);
+    setFieldErrors({});
     setSuccess(null);
 
     const title = form.title.trim();
@@ -46,7 +63,7 @@ export default function CreateAddons() {
 
     setSubmitting(true);
     try {
-      await apiClient.post("/api/addons/create", {
+      await callApi(endpoints.addons.create, {
         title,
         description,
         value: valueNum,
@@ -58,6 +75,9 @@ export default function CreateAddons() {
         startTransition(() => router.replace("/addons"));
       }, 1500);
     } catch (err: any) {
+      if (isApiError(err) && err.isValidation) {
+        setFieldErrors(err.fieldErrors);
+      }
       setError(err?.message || "FAILED_TO_CREATE_ADDON");
     } finally {
       setSubmitting(false);
@@ -103,14 +123,21 @@ export default function CreateAddons() {
                 type="text"
                 value={form.title}
                 onChange={(e) => onChange("title", e.target.value)}
+                aria-invalid={!!fieldErrors.title}
                 placeholder="STAFF_SERVICES"
-                className="w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
+                className="w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent aria-[invalid=true]:border-destructive transition-all duration-200"
                 autoComplete="off"
                 required
                 disabled={submitting}
               />
-              <p className="text-xs text-muted-foreground font-mono">
-                ENTER_A_DESCRIPTIVE_TITLE_FOR_THE_ADDON
+              <p
+                className={`text-xs font-mono ${
+                  fieldErrors.title
+                    ? "text-destructive"
+                    : "text-muted-foreground"
+                }`}
+              >
+                {fieldErrors.title || "ENTER_A_DESCRIPTIVE_TITLE_FOR_THE_ADDON"}
               </p>
             </div>
 
@@ -127,13 +154,21 @@ export default function CreateAddons() {
                 name="description"
                 value={form.description}
                 onChange={(e) => onChange("description", e.target.value)}
+                aria-invalid={!!fieldErrors.description}
                 placeholder="ADDITION_OF_STAFF_MEMBERS_FOR_ENHANCED_SERVICE"
-                className="w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200 min-h-[120px] resize-vertical"
+                className="w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent aria-[invalid=true]:border-destructive transition-all duration-200 min-h-[120px] resize-vertical"
                 required
                 disabled={submitting}
               />
-              <p className="text-xs text-muted-foreground font-mono">
-                DESCRIBE_THE_ADDON_SERVICE_IN_DETAIL
+              <p
+                className={`text-xs font-mono ${
+                  fieldErrors.description
+                    ? "text-destructive"
+                    : "text-muted-foreground"
+                }`}
+              >
+                {fieldErrors.description ||
+                  "DESCRIBE_THE_ADDON_SERVICE_IN_DETAIL"}
               </p>
             </div>
 
@@ -158,14 +193,21 @@ export default function CreateAddons() {
                   step="1"
                   value={form.value}
                   onChange={(e) => onChange("value", e.target.value)}
+                  aria-invalid={!!fieldErrors.value}
                   placeholder="100"
-                  className="w-full bg-input border border-border rounded-lg pl-8 pr-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
+                  className="w-full bg-input border border-border rounded-lg pl-8 pr-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent aria-[invalid=true]:border-destructive transition-all duration-200"
                   required
                   disabled={submitting}
                 />
               </div>
-              <p className="text-xs text-muted-foreground font-mono">
-                ENTER_A_NON_NEGATIVE_NUMERICAL_VALUE
+              <p
+                className={`text-xs font-mono ${
+                  fieldErrors.value
+                    ? "text-destructive"
+                    : "text-muted-foreground"
+                }`}
+              >
+                {fieldErrors.value || "ENTER_A_NON_NEGATIVE_NUMERICAL_VALUE"}
               </p>
             </div>
 
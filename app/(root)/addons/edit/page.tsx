@@ -4,8 +4,10 @@
 import { Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { useState } from "react";
-import { apiClient } from "@/lib/apiClient";
+import { callApi, endpoints } from "@/lib/api";
+import { isApiError, type FieldErrors } from "@/lib/apiClient";
 import Link from "next/link";
+import RequirePermission from "@/components/auth/require-permission";
 
 export default function EditAddonPage() {
   return (
@@ -14,7 +16,9 @@ export default function EditAddonPage() {
         <div className="p-6 text-sm opacity-70">Loading edit form…</div>
       }
     >
-      <EditAddonForm />
+      <RequirePermission permission="addons:write" backHref="/addons">
+        <EditAddonForm />
+      </RequirePermission>
     </Suspense>
   );
 }
@@ -34,12 +38,14 @@ export function EditAddonForm() {
   const [value, setValue] = useState(initialValue);
   const [status, setStatus] = useState(initialStatus);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
 
   async function submit(e: React.FormEvent) {
     e.preventDefault();
     setError(null);
+    setFieldErrors({});
 
     if (!id) return setError("INVALID_ADDON_ID");
 
@@ -50,7 +56,7 @@ export function EditAddonForm() {
 
     try {
       setSaving(true);
-      await apiClient.patch(`/api/addons/edit`, {
+      await callApi(endpoints.addons.edit, {
         addOnId: id,
         title,
         description,
@@ -62,7 +68,10 @@ export function EditAddonForm() {
         router.replace("/addons");
       }, 800);
     } catch (err: any) {
-      setError(err.message || "UPDATE_FAILED");
+      if (isApiError(err) && err.isValidation) {
+        setFieldErrors(err.fieldErrors);
+      }
+      setError(err?.message || "UPDATE_FAILED");
     } finally {
       setSaving(false);
     }
@@ -111,12 +120,18 @@ export function EditAddonForm() {
                 ADDON_TITLE
               </label>
               <input
-                className="w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
+                className="w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent aria-[invalid=true]:border-destructive transition-all duration-200"
                 value={title}
                 onChange={(e) => setTitle(e.target.value)}
+                aria-invalid={!!fieldErrors.title}
                 placeholder="ENTER_ADDON_TITLE"
                 disabled={saving}
               />
+              {fieldErrors.title && (
+                <p className="text-xs text-destructive font-mono">
+                  {fieldErrors.title}
+                </p>
+              )}
             </div>
 
             <div className="space-y-3">
@@ -124,12 +139,18 @@ export function EditAddonForm() {
                 ADDON_DESCRIPTION
               </label>
               <textarea
-                className="w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200 min-h-[120px] resize-vertical"
+                className="w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent aria-[invalid=true]:border-destructive transition-all duration-200 min-h-[120px] resize-vertical"
                 value={description}
                 onChange={(e) => setDescription(e.target.value)}
+                aria-invalid={!!fieldErrors.description}
                 placeholder="DESCRIBE_THE_ADDON_SERVICE"
                 disabled={saving}
               />
+              {fieldErrors.description && (
+                <p className="text-xs text-destructive font-mono">
+                  {fieldErrors.description}
+                </p>
+              )}
             </div>
 
             <div className="space-y-3">
@@ -142,15 +163,21 @@ export function EditAddonForm() {
                 </div>
                 <input
                   type="number"
-                  className="w-full bg-input border border-border rounded-lg pl-8 pr-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
+                  className="w-full bg-input border border-border rounded-lg pl-8 pr-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent aria-[invalid=true]:border-destructive transition-all duration-200"
                   value={value}
                   onChange={(e) => setValue(e.target.value)}
+                  aria-invalid={!!fieldErrors.value}
                   placeholder="0"
                   min="0"
                   step="1"
                   disabled={saving}
                 />
               </div>
+              {fieldErrors.value && (
+                <p className="text-xs text-destructive font-mono">
+                  {fieldErrors.value}
+                </p>
+              )}
             </div>
 
             <div className="space-y-3">
@@ -160,8 +187,9 @@ export function EditAddonForm() {
               <select
                 value={status}
                 onChange={(e) => setStatus(e.target.value)}
+                aria-invalid={!!fieldErrors.status}
                 disabled={saving}
-                className="w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
+                className="w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent aria-[invalid=true]:border-destructive transition-all duration-200"
               >
                 <option value="ACTIVE" className="font-mono">
                   ACTIVE
@@ -176,6 +204,11 @@ export function EditAddonForm() {
                   DRAFT
                 </option>
               </select>
+              {fieldErrors.status && (
+                <p className="text-xs text-destructive font-mono">
+                  {fieldErrors.status}
+                </p>
+              )}
             </div>
 
             <div className="flex items-center gap-4 py-4 border-y border-border">
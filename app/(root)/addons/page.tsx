@@ -1,39 +1,18 @@
 // app/addons/page.tsx
 "use client";
 
-import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import { Suspense } from "react";
 import Link from "next/link";
-import { useSearchParams, useRouter } from "next/navigation";
-import { apiClient } from "@/lib/apiClient";
-
-type Addon = {
-  _id: string;
-  title: string;
-  description: string;
-  value: number;
-  status: string;
-  property_id: string;
-  createdAt: string;
-  updatedAt: string;
-};
-
-type Pagination = {
-  totalItems: number;
-  totalPages: number;
-  currentPage: number;
-  limit: number;
-  hasNextPage: boolean;
-  hasPrevPage: boolean;
-};
-
-type ApiSuccess = {
-  message: string;
-  status: "SUCCESS";
-  data: {
-    addons: Addon[];
-    pagination: Pagination;
-  };
-};
+import ExportDialog from "@/components/dashboard/export-dialog";
+import ListPagination, {
+  LimitSelect,
+} from "@/components/dashboard/list-pagination";
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import { usePermission } from "@/lib/current-user-context";
+import { ADDON_EXPORT_COLUMNS } from "@/lib/export";
+import { MAX_LIMIT } from "@/lib/pagination";
+import type { Addon } from "@/lib/schemas";
+import { usePaginatedResource } from "@/hooks/use-paginated-resource";
 
 export default function AddonsPage() {
   return (
@@ -44,59 +23,27 @@ export default function AddonsPage() {
 }
 
 function AddonsPageInner() {
-  const sp = useSearchParams();
-  const router = useRouter();
-
-  const page = useMemo(() => {
-    const n = Number(sp.get("page") ?? 1);
-    return Number.isFinite(n) && n > 0 ? n : 1;
-  }, [sp]);
-
-  const limit = useMemo(() => {
-    const n = Number(sp.get("limit") ?? 12);
-    return Number.isFinite(n) && n > 0 ? n : 12;
-  }, [sp]);
-
-  const [addons, setAddons] = useState<Addon[]>([]);
-  const [pagination, setPagination] = useState<Pagination | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [err, setErr] = useState<string | null>(null);
-
-  const fetchData = useCallback(async () => {
-    setLoading(true);
-    setErr(null);
-    try {
-      // IMPORTANT: call relative to your apiClient BASE.
-      // If BASE is http://localhost:8850/api then use "/addons/fetch" (NOT "/api/addons/fetch")
-      const res = (await apiClient.get(
-        `/api/addons/fetch?page=${page}&limit=${limit}`
-      )) as ApiSuccess;
-
-      setAddons(res.data.addons);
-      setPagination(res.data.pagination);
-    } catch (e: any) {
-      setErr(e?.message || "Failed to load add-ons");
-    } finally {
-      setLoading(false);
-    }
-  }, [page, limit]);
-
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
-
-  const onChangeLimit = (newLimit: number) => {
-    const params = new URLSearchParams(sp.toString());
-    params.set("limit", String(newLimit));
-    params.set("page", "1");
-    router.replace(`?${params.toString()}`);
-  };
-
-  const goToPage = (p: number) => {
-    const params = new URLSearchParams(sp.toString());
-    params.set("page", String(p));
-    router.replace(`?${params.toString()}`);
-  };
+  const canWrite = usePermission("addons:write");
+
+  const {
+    data,
+    loading,
+    refreshing,
+    error: err,
+    limit,
+    setPage,
+    setLimit,
+    hrefForPage,
+    refetch,
+  } = usePaginatedResource({
+    queryKey: endpointKey(endpoints.addons.list),
+    defaultLimit: 12,
+    fetcher: (request, signal) =>
+      callApi(endpoints.addons.list, request, { signal }),
+  });
+
+  const addons = data?.addons ?? [];
+  const pagination = data?.pagination ?? null;
 
   return (
     <div className="min-h-screen bg-background p-6 space-y-6">
@@ -114,29 +61,40 @@ function AddonsPageInner() {
         </div>
 
         <div className="flex items-center gap-3">
-          <select
-            className="bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
+          <LimitSelect
             value={limit}
-            onChange={(e) => onChangeLimit(Number(e.target.value))}
-          >
-            {[12, 24, 36, 48].map((n) => (
-              <option key={n} value={n} className="font-mono">
-                {n} / PAGE
-              </option>
-            ))}
-          </select>
+            options={[12, 24, 36, 48]}
+            onChange={setLimit}
+          />
 
           <button
-            onClick={fetchData}
-            disabled={loading}
+            onClick={refetch}
+            disabled={loading || refreshing}
             className="px-4 py-2.5 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {loading ? "REFRESHING..." : "REFRESH"}
+            {loading || refreshing ? "REFRESHING..." : "REFRESH"}
           </button>
 
+          <ExportDialog
+            resource="addons"
+            columns={ADDON_EXPORT_COLUMNS}
+            fetchPage={async (page, signal) => {
+              const { addons, pagination } = await callApi(
+                endpoints.addons.list,
+                { page, limit: MAX_LIMIT },
+                { signal }
+              );
+              return { items: addons, totalPages: pagination.totalPages };
+            }}
+          />
+
           <Link
             href="/addons/create"
-            className="px-4 py-2.5 bg-success text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-success/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200"
+            aria-disabled={!canWrite}
+            tabIndex={canWrite ? undefined : -1}
+            className={`px-4 py-2.5 bg-success text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-success/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 ${
+              canWrite ? "" : "pointer-events-none opacity-50"
+            }`}
           >
             CREATE_ADDON
           </Link>
@@ -156,7 +114,7 @@ function AddonsPageInner() {
           {err}
           <div className="mt-4">
             <button
-              onClick={fetchData}
+              onClick={refetch}
               className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200"
             >
               RETRY_CONNECTION
@@ -175,7 +133,11 @@ function AddonsPageInner() {
             </div>
             <Link
               href="/addons/create"
-              className="inline-block px-6 py-3 bg-primary text-primary-foreground font-mono rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 mt-4"
+              aria-disabled={!canWrite}
+              tabIndex={canWrite ? undefined : -1}
+              className={`inline-block px-6 py-3 bg-primary text-primary-foreground font-mono rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 mt-4 ${
+                canWrite ? "" : "pointer-events-none opacity-50"
+              }`}
             >
               CREATE_ADDON
             </Link>
@@ -192,13 +154,14 @@ function AddonsPageInner() {
             ))}
           </div>
 
-          {pagination && pagination.totalPages > 1 && (
-            <Pagination
+          {pagination && (
+            <ListPagination
               currentPage={pagination.currentPage}
               totalPages={pagination.totalPages}
-              limit={pagination.limit}
               totalItems={pagination.totalItems}
-              onGoToPage={goToPage}
+              hrefForPage={hrefForPage}
+              onNavigate={setPage}
+              className="pb-0"
             />
           )}
         </>
@@ -208,6 +171,7 @@ function AddonsPageInner() {
 }
 
 function AddonCard({ addon }: { addon: Addon }) {
+  const canWrite = usePermission("addons:write");
   const statusColors = {
     ACTIVE: "bg-success text-success-foreground",
     INACTIVE: "bg-muted text-muted-foreground",
@@ -265,7 +229,11 @@ function AddonCard({ addon }: { addon: Addon }) {
               status: addon.status,
             }).toString()
           }
-          className="flex-1 py-2 text-center bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+          aria-disabled={!canWrite}
+          tabIndex={canWrite ? undefined : -1}
+          className={`flex-1 py-2 text-center bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 ${
+            canWrite ? "" : "pointer-events-none opacity-50"
+          }`}
         >
           EDIT
         </Link>
@@ -274,100 +242,6 @@ function AddonCard({ addon }: { addon: Addon }) {
   );
 }
 
-function Pagination({
-  currentPage,
-  totalPages,
-  limit,
-  totalItems,
-  onGoToPage,
-}: {
-  currentPage: number;
-  totalPages: number;
-  limit: number;
-  totalItems: number;
-  onGoToPage: (page: number) => void;
-}) {
-  const prev = Math.max(1, currentPage - 1);
-  const next = Math.min(totalPages, currentPage + 1);
-
-  const pages = useMemo(() => {
-    const windowSize = 5;
-    const half = Math.floor(windowSize / 2);
-    let start = Math.max(1, currentPage - half);
-    let end = Math.min(totalPages, start + windowSize - 1);
-    start = Math.max(1, Math.min(start, end - windowSize + 1));
-    return Array.from({ length: end - start + 1 }, (_, i) => start + i);
-  }, [currentPage, totalPages]);
-
-  return (
-    <div className="flex flex-col sm:flex-row items-center justify-between gap-4 pt-6 border-t border-border">
-      <div className="text-muted-foreground font-mono text-sm">
-        PAGE {currentPage} OF {totalPages} • {totalItems} ITEMS
-      </div>
-
-      <nav className="flex items-center gap-1">
-        <button
-          onClick={() => onGoToPage(prev)}
-          disabled={currentPage === 1}
-          className="px-3 py-2 border border-border rounded-lg font-mono text-sm hover:bg-pop transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          PREV
-        </button>
-
-        {pages[0] > 1 && (
-          <>
-            <button
-              onClick={() => onGoToPage(1)}
-              className="px-3 py-2 border border-border rounded-lg font-mono text-sm hover:bg-pop transition-all duration-200"
-            >
-              1
-            </button>
-            {pages[0] > 2 && (
-              <span className="px-2 text-muted-foreground">...</span>
-            )}
-          </>
-        )}
-
-        {pages.map((p) => (
-          <button
-            key={p}
-            onClick={() => onGoToPage(p)}
-            className={`px-3 py-2 border rounded-lg font-mono text-sm transition-all duration-200 ${
-              p === currentPage
-                ? "bg-primary text-primary-foreground border-primary"
-                : "border-border hover:bg-pop"
-            }`}
-          >
-            {p}
-          </button>
-        ))}
-
-        {pages[pages.length - 1] < totalPages && (
-          <>
-            {pages[pages.length - 1] < totalPages - 1 && (
-              <span className="px-2 text-muted-foreground">...</span>
-            )}
-            <button
-              onClick={() => onGoToPage(totalPages)}
-              className="px-3 py-2 border border-border rounded-lg font-mono text-sm hover:bg-pop transition-all duration-200"
-            >
-              {totalPages}
-            </button>
-          </>
-        )}
-
-        <button
-          onClick={() => onGoToPage(next)}
-          disabled={currentPage === totalPages}
-          className="px-3 py-2 border border-border rounded-lg font-mono text-sm hover:bg-pop transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          NEXT
-        </button>
-      </nav>
-    </div>
-  );
-}
-
 function GridSkeleton() {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
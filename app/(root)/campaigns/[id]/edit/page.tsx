@@ -0,0 +1,121 @@
+"use client";
+
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import RequirePermission from "@/components/auth/require-permission";
+import CampaignForm from "@/components/dashboard/campaign-form";
+import DashboardPageLayout from "@/components/dashboard/layout";
+import BracketsIcon from "@/components/icons/brackets";
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import { buildQueryKey } from "@/lib/query-cache";
+import { campaignFormDefaults, toCampaignPayload } from "@/lib/schemas";
+import { useApiQuery } from "@/hooks/use-api-query";
+
+export default function EditCampaignPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Edit Template",
+        description: id,
+        icon: BracketsIcon,
+      }}
+    >
+      <RequirePermission
+        permission="campaigns:write"
+        backHref={`/campaigns/${id}`}
+      >
+        <EditCampaign campaignId={id} />
+      </RequirePermission>
+    </DashboardPageLayout>
+  );
+}
+
+function EditCampaign({ campaignId }: { campaignId: string }) {
+  const router = useRouter();
+  const input = { campaignId };
+  // Same key as the detail page, so coming from there renders instantly.
+  const queryKey = buildQueryKey(
+    endpointKey(endpoints.campaigns.details),
+    input
+  );
+
+  const { data, loading, error, refetch } = useApiQuery({
+    queryKey,
+    fetcher: (signal) =>
+      callApi(endpoints.campaigns.details, input, { signal }),
+  });
+
+  const campaign = data?.campaign;
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl bg-card border border-border rounded-xl p-6 space-y-6 animate-pulse">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <div key={i} className="space-y-2">
+            <div className="h-4 bg-input rounded w-1/4" />
+            <div className="h-11 bg-input rounded" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    return (
+      <div className="rounded-lg border border-destructive bg-destructive/10 p-6 text-destructive font-mono text-sm">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="w-2 h-2 bg-destructive rounded-full animate-pulse"></div>
+          <span>DATA_FETCH_ERROR</span>
+        </div>
+        {error}
+        <div className="mt-4">
+          <button
+            onClick={refetch}
+            className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200 font-mono text-sm"
+          >
+            RETRY_CONNECTION
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <h1 className="font-display text-3xl md:text-4xl text-foreground">
+            EDIT_TEMPLATE
+          </h1>
+          <p className="text-muted-foreground font-mono text-sm">
+            TEMPLATE_ID: {campaign._id}
+          </p>
+        </div>
+
+        <Link
+          href={`/campaigns/${campaign._id}`}
+          className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+        >
+          BACK_TO_TEMPLATE
+        </Link>
+      </div>
+
+      <CampaignForm
+        defaultValues={campaignFormDefaults(campaign)}
+        lockWorkspace
+        submitLabel="SAVE_CHANGES"
+        pendingLabel="SAVING..."
+        onSubmit={async (values) => {
+          await callApi(endpoints.campaigns.edit, {
+            campaignId: campaign._id,
+            ...toCampaignPayload(values),
+          });
+          router.replace(`/campaigns/${campaign._id}`);
+        }}
+        onCancel={() => router.back()}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,493 @@
+"use client";
+
+import { Suspense, useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  useParams,
+  usePathname,
+  useRouter,
+  useSearchParams,
+} from "next/navigation";
+import { endOfDay, format, parseISO, startOfDay } from "date-fns";
+import RequirePermission from "@/components/auth/require-permission";
+import DashboardPageLayout from "@/components/dashboard/layout";
+import VersionDiff from "@/components/dashboard/version-diff";
+import BracketsIcon from "@/components/icons/brackets";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import { isApiError } from "@/lib/apiClient";
+import { sortVersions, versionsLiveBetween } from "@/lib/campaign-versions";
+import { usePermission } from "@/lib/current-user-context";
+import { buildQueryKey } from "@/lib/query-cache";
+import type { CampaignVersion } from "@/lib/schemas";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { toast } from "@/hooks/use-toast";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+const fieldClassName =
+  "bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200";
+
+const smallButtonClassName =
+  "px-3 py-1.5 bg-pop text-foreground font-mono text-xs rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50";
+
+export default function CampaignHistoryPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Template History",
+        description: id,
+        icon: BracketsIcon,
+      }}
+    >
+      <RequirePermission
+        permission="campaigns:read"
+        backHref={`/campaigns/${id}`}
+      >
+        <Suspense fallback={<HistorySkeleton />}>
+          <CampaignHistory campaignId={id} />
+        </Suspense>
+      </RequirePermission>
+    </DashboardPageLayout>
+  );
+}
+
+function CampaignHistory({ campaignId }: { campaignId: string }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const canWrite = usePermission("campaigns:write");
+  const [restoring, setRestoring] = useState<CampaignVersion | null>(null);
+  const [restoreNote, setRestoreNote] = useState("");
+
+  const input = { campaignId };
+  const { data, loading, refreshing, error, rawError, refetch } = useApiQuery({
+    queryKey: buildQueryKey(endpointKey(endpoints.campaigns.versions), input),
+    fetcher: (signal) =>
+      callApi(endpoints.campaigns.versions, input, { signal }),
+  });
+  const versions = useMemo(
+    () => sortVersions(data?.versions ?? []),
+    [data?.versions]
+  );
+
+  // Compared versions and the LIVE_ON day live in the URL, so a diff or an
+  // audit answer can be linked to.
+  const setParams = (patch: Record<string, string | undefined>) => {
+    const params = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(patch)) {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    }
+    const qs = params.toString();
+    router.replace(`${pathname}${qs ? `?${qs}` : ""}`);
+  };
+  const byNumber = (param: string) =>
+    versions.find((v) => String(v.version) === searchParams.get(param));
+  const previous = (version?: CampaignVersion) =>
+    version && versions.find((v) => v.version < version.version);
+  const compare = (version: CampaignVersion) =>
+    setParams({
+      target: String(version.version),
+      base: previous(version)?.version.toString(),
+    });
+
+  const target = byNumber("target") ?? versions[0];
+  const base = byNumber("base") ?? previous(target);
+  const liveOn = searchParams.get("on") ?? undefined;
+  const liveThatDay = liveOn
+    ? versionsLiveBetween(
+        versions,
+        startOfDay(parseISO(liveOn)),
+        endOfDay(parseISO(liveOn))
+      )
+    : [];
+  const latest = versions[0];
+
+  async function restore(version: CampaignVersion, note: string) {
+    try {
+      const { campaign } = await callApi(endpoints.campaigns.restoreVersion, {
+        campaignId,
+        versionId: version._id,
+        note: note.trim() || undefined,
+      });
+      toast({
+        title: "VERSION_RESTORED",
+        description: `${campaign.title} // FROM_V${version.version}`,
+      });
+      // Back to comparing the new live version with the one it replaced.
+      setParams({ target: undefined, base: undefined });
+    } catch (err: any) {
+      toast({
+        variant: "destructive",
+        title: "RESTORE_FAILED",
+        description: err?.message || "UNKNOWN_ERROR",
+      });
+    }
+  }
+
+  if (loading) return <HistorySkeleton />;
+
+  if (!data) {
+    const notFound = isApiError(rawError) && rawError.status === 404;
+    return (
+      <div className="rounded-lg border border-destructive bg-destructive/10 p-6 text-destructive font-mono text-sm">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="w-2 h-2 bg-destructive rounded-full animate-pulse"></div>
+          <span>{notFound ? "TEMPLATE_NOT_FOUND" : "DATA_FETCH_ERROR"}</span>
+        </div>
+        {error}
+        <div className="mt-4 flex gap-3">
+          {!notFound && (
+            <button
+              onClick={refetch}
+              className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200 font-mono text-sm"
+            >
+              RETRY_CONNECTION
+            </button>
+          )}
+          <Link
+            href="/campaigns"
+            className="px-4 py-2 bg-pop text-foreground rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 font-mono text-sm"
+          >
+            BACK_TO_TEMPLATES
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <h1 className="font-display text-3xl md:text-4xl text-foreground">
+            HISTORY{latest ? `: ${latest.title}` : ""}
+          </h1>
+          <p className="text-muted-foreground font-mono text-sm">
+            {versions.length} VERSIONS // TEMPLATE_ID: {campaignId}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={refetch}
+            disabled={refreshing}
+            className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+          >
+            {refreshing ? "REFRESHING..." : "REFRESH"}
+          </button>
+          <Link
+            href={`/campaigns/${campaignId}`}
+            className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+          >
+            BACK_TO_TEMPLATE
+          </Link>
+        </div>
+      </div>
+
+      {versions.length === 0 ? (
+        <div className="rounded-lg border border-border bg-card p-6 font-mono text-sm text-muted-foreground">
+          NO_VERSIONS_RECORDED // HISTORY_STARTS_WITH_THE_NEXT_SAVE
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-6">
+          <div className="space-y-6">
+            <Panel title="LIVE_ON">
+              <div className="space-y-4 font-mono">
+                <div className="flex gap-3">
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <button
+                        type="button"
+                        className={`${fieldClassName} text-left flex-1 ${
+                          liveOn ? "" : "text-muted-foreground"
+                        }`}
+                      >
+                        {liveOn ?? "PICK_A_DATE"}
+                      </button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={liveOn ? parseISO(liveOn) : undefined}
+                        defaultMonth={liveOn ? parseISO(liveOn) : undefined}
+                        disabled={{ after: new Date() }}
+                        onSelect={(day) =>
+                          setParams({
+                            on: day ? format(day, DATE_FORMAT) : undefined,
+                          })
+                        }
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  {liveOn && (
+                    <button
+                      type="button"
+                      onClick={() => setParams({ on: undefined })}
+                      className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+                    >
+                      CLEAR
+                    </button>
+                  )}
+                </div>
+
+                {!liveOn ? (
+                  <p className="text-xs text-muted-foreground">
+                    PICK_A_DAY_TO_SEE_WHICH_WORDING_WAS_LIVE // YOUR_LOCAL_TIME
+                  </p>
+                ) : liveThatDay.length === 0 ? (
+                  <p className="text-xs text-warning">
+                    NOT_LIVE_ON_THIS_DATE // FIRST_VERSION_WENT_LIVE{" "}
+                    {formatDateTime(versions[versions.length - 1].changed_at)}
+                  </p>
+                ) : (
+                  <ul className="space-y-2 text-xs">
+                    {liveThatDay.length > 1 && (
+                      <li className="text-warning">
+                        EDITED_THAT_DAY // {liveThatDay.length}{" "}
+                        VERSIONS_WERE_LIVE
+                      </li>
+                    )}
+                    {liveThatDay.map(({ version, from, until }) => (
+                      <li
+                        key={version._id}
+                        className="flex items-center justify-between gap-3 rounded-lg border border-warning bg-warning/10 p-3"
+                      >
+                        <span className="text-foreground">
+                          V{version.version} //{" "}
+                          {formatDateTime(from.toISOString())} →{" "}
+                          {until ? formatDateTime(until.toISOString()) : "NOW"}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => compare(version)}
+                          className={smallButtonClassName}
+                        >
+                          VIEW
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </Panel>
+
+            <Panel title="VERSIONS">
+              <ol className="space-y-3 font-mono">
+                {versions.map((version) => {
+                  const isLatest = version === latest;
+                  const wasLive = liveThatDay.some(
+                    (w) => w.version === version
+                  );
+                  return (
+                    <li
+                      key={version._id}
+                      className={`rounded-lg border bg-pop p-4 space-y-2 ${
+                        version === target
+                          ? "border-primary"
+                          : wasLive
+                          ? "border-warning"
+                          : "border-border"
+                      }`}
+                    >
+                      <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="px-2 py-0.5 rounded border border-border bg-card text-foreground">
+                          V{version.version}
+                        </span>
+                        {isLatest && (
+                          <span className="px-2 py-0.5 rounded border border-success bg-success/10 text-success">
+                            LIVE
+                          </span>
+                        )}
+                        {version.restored_from != null && (
+                          <span className="text-muted-foreground">
+                            RESTORED_FROM_V{version.restored_from}
+                          </span>
+                        )}
+                        <span className="ml-auto text-muted-foreground">
+                          {formatDateTime(version.changed_at)}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        BY {version.changed_by || "UNKNOWN"}
+                      </div>
+                      <p
+                        className={`text-sm break-words ${
+                          version.note
+                            ? "text-foreground"
+                            : "text-muted-foreground"
+                        }`}
+                      >
+                        {version.note || "NO_CHANGE_NOTE"}
+                      </p>
+                      <div className="flex gap-2 pt-1">
+                        <button
+                          type="button"
+                          onClick={() => compare(version)}
+                          disabled={version === target}
+                          className={smallButtonClassName}
+                        >
+                          {previous(version) ? "VIEW_CHANGES" : "VIEW"}
+                        </button>
+                        {!isLatest && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setRestoreNote("");
+                              setRestoring(version);
+                            }}
+                            disabled={!canWrite}
+                            className={smallButtonClassName}
+                          >
+                            RESTORE
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </Panel>
+          </div>
+
+          <div className="xl:sticky xl:top-6 self-start">
+            <Panel title="COMPARE">
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-3">
+                  <select
+                    aria-label="BASE_VERSION"
+                    value={base?.version ?? ""}
+                    onChange={(e) => setParams({ base: e.target.value })}
+                    className={fieldClassName}
+                  >
+                    {!base && <option value="">BASE</option>}
+                    {versions.map((v) => (
+                      <option key={v._id} value={v.version}>
+                        V{v.version} // {formatDateTime(v.changed_at)}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    aria-label="TARGET_VERSION"
+                    value={target?.version ?? ""}
+                    onChange={(e) => setParams({ target: e.target.value })}
+                    className={fieldClassName}
+                  >
+                    {versions.map((v) => (
+                      <option key={v._id} value={v.version}>
+                        V{v.version} // {formatDateTime(v.changed_at)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {base && target ? (
+                  <VersionDiff base={base} target={target} />
+                ) : (
+                  <div className="space-y-2 font-mono">
+                    <p className="text-xs text-muted-foreground">
+                      FIRST_VERSION // NOTHING_TO_COMPARE_AGAINST
+                    </p>
+                    <pre className="rounded-lg border border-border bg-input p-4 font-mono text-sm text-foreground whitespace-pre-wrap break-words">
+                      {target?.message}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            </Panel>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog
+        open={restoring !== null}
+        onOpenChange={(open) => !open && setRestoring(null)}
+      >
+        <AlertDialogContent className="font-mono">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-mono">
+              RESTORE V{restoring?.version}?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="font-mono text-xs">
+              SAVED_AS_V{(latest?.version ?? 0) + 1} AND_LIVE_IMMEDIATELY //
+              THE_CURRENT_VERSION_STAYS_IN_HISTORY
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <textarea
+            aria-label="CHANGE_NOTE"
+            value={restoreNote}
+            onChange={(e) => setRestoreNote(e.target.value)}
+            maxLength={280}
+            placeholder="Why is this version coming back?"
+            className={`${fieldClassName} w-full min-h-[80px]`}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel className="font-mono">CANCEL</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoring && restore(restoring, restoreNote)}
+              className="font-mono"
+            >
+              RESTORE_VERSION
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function Panel({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="bg-card border border-border rounded-xl">
+      <h2 className="px-6 py-4 border-b border-border bg-pop rounded-t-xl text-muted-foreground font-mono font-medium text-xs uppercase tracking-wider">
+        {title}
+      </h2>
+      <div className="p-6">{children}</div>
+    </section>
+  );
+}
+
+function HistorySkeleton() {
+  return (
+    <div className="space-y-6 animate-pulse">
+      <div className="pb-6 border-b border-border space-y-3">
+        <div className="h-9 bg-input rounded w-1/3" />
+        <div className="h-4 bg-input rounded w-1/4" />
+      </div>
+      <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-6">
+        <div className="bg-card border border-border rounded-xl h-96" />
+        <div className="bg-card border border-border rounded-xl h-96" />
+      </div>
+    </div>
+  );
+}
+
+function formatDateTime(value?: string) {
+  if (!value) return "—";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
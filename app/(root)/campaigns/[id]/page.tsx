@@ -0,0 +1,343 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useState } from "react";
+import RequirePermission from "@/components/auth/require-permission";
+import {
+  AttachmentPreviewDialog,
+  AttachmentThumb,
+} from "@/components/dashboard/attachment-manager";
+import CampaignPreview from "@/components/dashboard/campaign-preview";
+import DashboardPageLayout from "@/components/dashboard/layout";
+import BracketsIcon from "@/components/icons/brackets";
+import { Switch } from "@/components/ui/switch";
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import { isApiError } from "@/lib/apiClient";
+import { formatBytes } from "@/lib/campaign-attachments";
+import { lintTemplate } from "@/lib/campaign-template";
+import { usePermission } from "@/lib/current-user-context";
+import { buildQueryKey } from "@/lib/query-cache";
+import type { Campaign, CampaignAttachment } from "@/lib/schemas";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useCampaignActiveToggle } from "@/hooks/use-campaign-flags";
+
+export default function CampaignDetailPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Template",
+        description: id,
+        icon: BracketsIcon,
+      }}
+    >
+      <RequirePermission permission="campaigns:read" backHref="/campaigns">
+        <CampaignDetail campaignId={id} />
+      </RequirePermission>
+    </DashboardPageLayout>
+  );
+}
+
+function CampaignDetail({ campaignId }: { campaignId: string }) {
+  const canWrite = usePermission("campaigns:write");
+  const canSend = usePermission("campaigns:send");
+  const input = { campaignId };
+  const queryKey = buildQueryKey(
+    endpointKey(endpoints.campaigns.details),
+    input
+  );
+  const setActive = useCampaignActiveToggle(queryKey);
+
+  const { data, loading, refreshing, error, rawError, refetch } = useApiQuery({
+    queryKey,
+    fetcher: (signal) =>
+      callApi(endpoints.campaigns.details, input, { signal }),
+  });
+
+  const campaign = data?.campaign;
+
+  if (loading) {
+    return (
+      <div className="space-y-6 animate-pulse">
+        <div className="pb-6 border-b border-border space-y-3">
+          <div className="h-9 bg-input rounded w-1/3" />
+          <div className="h-4 bg-input rounded w-1/4" />
+        </div>
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="bg-card border border-border rounded-xl h-64" />
+          <div className="bg-card border border-border rounded-xl h-64" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    const notFound = isApiError(rawError) && rawError.status === 404;
+    return (
+      <div className="rounded-lg border border-destructive bg-destructive/10 p-6 text-destructive font-mono text-sm">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="w-2 h-2 bg-destructive rounded-full animate-pulse"></div>
+          <span>{notFound ? "TEMPLATE_NOT_FOUND" : "DATA_FETCH_ERROR"}</span>
+        </div>
+        {error}
+        <div className="mt-4 flex gap-3">
+          {!notFound && (
+            <button
+              onClick={refetch}
+              className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200 font-mono text-sm"
+            >
+              RETRY_CONNECTION
+            </button>
+          )}
+          <Link
+            href="/campaigns"
+            className="px-4 py-2 bg-pop text-foreground rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 font-mono text-sm"
+          >
+            BACK_TO_TEMPLATES
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isActive = campaign.meta?.is_active !== false;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <div className="flex items-center gap-3">
+            <h1 className="font-display text-3xl md:text-4xl text-foreground">
+              {campaign.title}
+            </h1>
+            <span className="px-2 py-1 rounded-lg text-xs font-mono bg-pop border border-border text-muted-foreground">
+              {campaign.type.toUpperCase()}
+            </span>
+            {campaign.meta?.is_archived && (
+              <span className="px-2 py-1 rounded-lg text-xs font-mono bg-muted text-muted-foreground">
+                ARCHIVED
+              </span>
+            )}
+          </div>
+          <p className="text-muted-foreground font-mono text-sm">
+            TEMPLATE_ID: {campaign._id}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 font-mono text-sm text-foreground">
+            <Switch
+              checked={isActive}
+              disabled={!canWrite}
+              onCheckedChange={(checked) => setActive(campaign, checked)}
+            />
+            {isActive ? "ACTIVE" : "INACTIVE"}
+          </label>
+          <Link
+            href={`/campaigns/analytics?campaign=${campaign._id}`}
+            className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+          >
+            ANALYTICS
+          </Link>
+          <Link
+            href={`/campaigns/${campaign._id}/history`}
+            className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+          >
+            HISTORY
+          </Link>
+          <button
+            onClick={refetch}
+            disabled={refreshing}
+            className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+          >
+            {refreshing ? "REFRESHING..." : "REFRESH"}
+          </button>
+          <Link
+            href={`/campaigns/${campaign._id}/edit`}
+            aria-disabled={!canWrite}
+            tabIndex={canWrite ? undefined : -1}
+            className={`px-4 py-2.5 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 ${
+              canWrite ? "" : "pointer-events-none opacity-50"
+            }`}
+          >
+            EDIT_TEMPLATE
+          </Link>
+          <Link
+            href={`/campaigns/${campaign._id}/send`}
+            aria-disabled={!canSend}
+            tabIndex={canSend ? undefined : -1}
+            className={`px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 ${
+              canSend ? "" : "pointer-events-none opacity-50"
+            }`}
+          >
+            SEND
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="space-y-6">
+          <TemplatePanel campaign={campaign} />
+          <VariablesPanel campaign={campaign} />
+          <AttachmentsPanel attachments={campaign.attachments} />
+        </div>
+        <div className="xl:sticky xl:top-6 self-start">
+          <CampaignPreview
+            type={campaign.type}
+            title={campaign.title}
+            subject={campaign.meta?.subject}
+            contentType={campaign.meta?.content_type}
+            message={campaign.message}
+            variableMap={campaign.meta?.variable_map ?? {}}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Panel({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="bg-card border border-border rounded-xl">
+      <h2 className="px-6 py-4 border-b border-border bg-pop rounded-t-xl text-muted-foreground font-mono font-medium text-xs uppercase tracking-wider">
+        {title}
+      </h2>
+      <div className="p-6">{children}</div>
+    </section>
+  );
+}
+
+function TemplatePanel({ campaign }: { campaign: Campaign }) {
+  const rows = [["WORKSPACE_ID", campaign.property_id]];
+  if (campaign.type === "email") {
+    rows.push(
+      ["SUBJECT", campaign.meta?.subject || "—"],
+      ["FORMAT", campaign.meta?.content_type === "html" ? "HTML" : "PLAIN_TEXT"]
+    );
+  } else if (campaign.type === "notification") {
+    rows.push(["NOTIFICATION_TITLE", campaign.meta?.subject || "—"]);
+  }
+  rows.push(
+    ["CREATED_AT", formatDateTime(campaign.createdAt)],
+    ["UPDATED_AT", formatDateTime(campaign.updatedAt)]
+  );
+
+  return (
+    <Panel title="TEMPLATE">
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        {rows.map(([label, value]) => (
+          <div key={label} className="space-y-1">
+            <dt className="text-xs font-mono text-muted-foreground">{label}</dt>
+            <dd className="font-mono text-sm text-foreground break-all">
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      <div className="text-xs font-mono text-muted-foreground mb-1">
+        MESSAGE_SOURCE
+      </div>
+      <pre className="rounded-lg border border-border bg-input p-4 font-mono text-sm text-foreground whitespace-pre-wrap break-words">
+        {campaign.message}
+      </pre>
+    </Panel>
+  );
+}
+
+function VariablesPanel({ campaign }: { campaign: Campaign }) {
+  const variableMap = campaign.meta?.variable_map ?? {};
+  const subject = campaign.type === "sms" ? "" : campaign.meta?.subject ?? "";
+  const lint = lintTemplate(`${subject}\n${campaign.message}`, variableMap);
+  const entries = Object.entries(variableMap);
+
+  return (
+    <Panel title="VARIABLE_MAP">
+      {entries.length === 0 && lint.undefined.length === 0 ? (
+        <p className="text-muted-foreground font-mono text-sm">
+          NO_VARIABLES_DEFINED
+        </p>
+      ) : (
+        <ul className="space-y-2 font-mono text-sm">
+          {entries.map(([name, source]) => (
+            <li key={name} className="flex items-center justify-between gap-3">
+              <span className="text-foreground">{`{{${name}}}`}</span>
+              <span className="text-muted-foreground truncate">
+                → {source}
+                {lint.unused.includes(name) && (
+                  <span className="ml-2 text-warning">UNUSED</span>
+                )}
+              </span>
+            </li>
+          ))}
+          {lint.undefined.map((name) => (
+            <li
+              key={name}
+              className="flex items-center justify-between gap-3 text-destructive"
+            >
+              <span>{`{{${name}}}`}</span>
+              <span>UNDEFINED</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Panel>
+  );
+}
+
+function AttachmentsPanel({
+  attachments,
+}: {
+  attachments: CampaignAttachment[];
+}) {
+  const [preview, setPreview] = useState<CampaignAttachment | null>(null);
+
+  return (
+    <Panel title={`ATTACHMENTS (${attachments.length})`}>
+      {attachments.length === 0 ? (
+        <p className="text-muted-foreground font-mono text-sm">
+          NO_ATTACHMENTS
+        </p>
+      ) : (
+        <ul className="space-y-2 font-mono text-xs">
+          {attachments.map((attachment, index) => (
+            <li key={`${attachment.url}-${index}`}>
+              <button
+                onClick={() => setPreview(attachment)}
+                className="w-full flex items-center gap-3 rounded-lg border border-border bg-pop p-2 text-left hover:border-ring transition-all duration-200"
+              >
+                <AttachmentThumb attachment={attachment} />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-foreground">
+                    {attachment.name}
+                  </span>
+                  <span className="block text-muted-foreground">
+                    {attachment.mime} // {formatBytes(attachment.size)}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <AttachmentPreviewDialog
+        attachment={preview}
+        onClose={() => setPreview(null)}
+      />
+    </Panel>
+  );
+}
+
+function formatDateTime(value?: string) {
+  if (!value) return "—";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
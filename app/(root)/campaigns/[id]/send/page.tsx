@@ -0,0 +1,465 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import RequirePermission from "@/components/auth/require-permission";
+import ClientFilterBar from "@/components/dashboard/client-filters";
+import DashboardPageLayout from "@/components/dashboard/layout";
+import SchedulePicker, {
+  defaultSchedule,
+  type Schedule,
+} from "@/components/dashboard/schedule-picker";
+import BracketsIcon from "@/components/icons/brackets";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import { formatSmsCost, htmlToText, smsStats } from "@/lib/campaign-channels";
+import {
+  DRY_RUN_SIZES,
+  formatInTimeZone,
+  scheduleError,
+  zonedTimeToUtc,
+  type AudienceFilters,
+} from "@/lib/campaign-send";
+import { renderTemplate, renderTemplateText } from "@/lib/campaign-template";
+import { buildQueryKey } from "@/lib/query-cache";
+import type { Campaign, Client } from "@/lib/schemas";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { toast } from "@/hooks/use-toast";
+
+type Delivery = "now" | "schedule";
+
+export default function SendCampaignPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Send Template",
+        description: id,
+        icon: BracketsIcon,
+      }}
+    >
+      <RequirePermission
+        permission="campaigns:send"
+        backHref={`/campaigns/${id}`}
+      >
+        <SendCampaignLoader campaignId={id} />
+      </RequirePermission>
+    </DashboardPageLayout>
+  );
+}
+
+function SendCampaignLoader({ campaignId }: { campaignId: string }) {
+  const input = { campaignId };
+  // Same key as the detail page, so coming from there renders instantly.
+  const queryKey = buildQueryKey(
+    endpointKey(endpoints.campaigns.details),
+    input
+  );
+
+  const { data, loading, error, refetch } = useApiQuery({
+    queryKey,
+    fetcher: (signal) =>
+      callApi(endpoints.campaigns.details, input, { signal }),
+  });
+
+  if (loading) {
+    return (
+      <div className="space-y-6 animate-pulse">
+        <div className="h-9 bg-input rounded w-1/3" />
+        <div className="bg-card border border-border rounded-xl h-40" />
+        <div className="bg-card border border-border rounded-xl h-64" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="rounded-lg border border-destructive bg-destructive/10 p-6 text-destructive font-mono text-sm">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="w-2 h-2 bg-destructive rounded-full animate-pulse"></div>
+          <span>DATA_FETCH_ERROR</span>
+        </div>
+        {error}
+        <div className="mt-4">
+          <button
+            onClick={refetch}
+            className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200 font-mono text-sm"
+          >
+            RETRY_CONNECTION
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return <SendCampaign campaign={data.campaign} />;
+}
+
+function SendCampaign({ campaign }: { campaign: Campaign }) {
+  const router = useRouter();
+  const [audience, setAudience] = useState<AudienceFilters>({});
+  const [dryRunSize, setDryRunSize] = useState<number>(5);
+  const [delivery, setDelivery] = useState<Delivery>("now");
+  const [schedule, setSchedule] = useState<Schedule>(defaultSchedule);
+  const [confirming, setConfirming] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  // One request gives both the recipient count and the dry-run sample.
+  const input = { page: 1, limit: dryRunSize, ...audience };
+  const { data, loading, refreshing, error } = useApiQuery({
+    queryKey: buildQueryKey(endpointKey(endpoints.clients.list), input),
+    fetcher: (signal) => callApi(endpoints.clients.list, input, { signal }),
+  });
+
+  const recipients = data?.pagination.totalItems;
+  const sample = data?.clients ?? [];
+  const isActive = campaign.meta?.is_active !== false;
+  const isArchived = campaign.meta?.is_archived === true;
+  const invalidSchedule =
+    delivery === "schedule"
+      ? scheduleError(schedule.date, schedule.time, schedule.timeZone)
+      : null;
+  const scheduledAt =
+    delivery === "schedule" && schedule.date && !invalidSchedule
+      ? zonedTimeToUtc(schedule.date, schedule.time, schedule.timeZone)
+      : null;
+
+  const blocker = isArchived
+    ? "TEMPLATE_ARCHIVED"
+    : !isActive
+    ? "TEMPLATE_INACTIVE"
+    : recipients === undefined
+    ? "COUNTING_RECIPIENTS..."
+    : recipients === 0
+    ? "NO_MATCHING_RECIPIENTS"
+    : invalidSchedule;
+
+  async function send() {
+    setSending(true);
+    setSendError(null);
+    try {
+      const { dispatch } = await callApi(endpoints.campaigns.send, {
+        campaignId: campaign._id,
+        audience,
+        ...(scheduledAt && {
+          scheduled_at: scheduledAt.toISOString(),
+          timezone: schedule.timeZone,
+        }),
+      });
+      toast({
+        title: scheduledAt ? "SEND_SCHEDULED" : "SEND_QUEUED",
+        description: scheduledAt
+          ? `${dispatch.recipient_count} RECIPIENTS // ${formatInTimeZone(
+              scheduledAt,
+              schedule.timeZone
+            )}`
+          : `${dispatch.recipient_count} RECIPIENTS`,
+      });
+      router.push(`/campaigns/${campaign._id}`);
+    } catch (err: any) {
+      setSendError(err?.message || "SEND_FAILED");
+      setSending(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <h1 className="font-display text-3xl md:text-4xl text-foreground">
+            SEND: {campaign.title}
+          </h1>
+          <p className="text-muted-foreground font-mono text-sm">
+            {campaign.type.toUpperCase()} // TEMPLATE_ID: {campaign._id}
+          </p>
+        </div>
+
+        <Link
+          href={`/campaigns/${campaign._id}`}
+          className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+        >
+          BACK_TO_TEMPLATE
+        </Link>
+      </div>
+
+      {isArchived ? (
+        <div className="rounded-lg border border-warning bg-warning/10 p-4 font-mono text-sm text-warning">
+          TEMPLATE_ARCHIVED // UNARCHIVE_IT_BEFORE_SENDING
+        </div>
+      ) : (
+        !isActive && (
+          <div className="rounded-lg border border-warning bg-warning/10 p-4 font-mono text-sm text-warning">
+            TEMPLATE_INACTIVE // ACTIVATE_IT_BEFORE_SENDING
+          </div>
+        )
+      )}
+
+      <Panel title="1. AUDIENCE">
+        <ClientFilterBar
+          filters={audience}
+          onChange={(patch) => setAudience((a) => ({ ...a, ...patch }))}
+        />
+        <div className="pt-4 font-mono text-sm flex items-center gap-3">
+          <span className="text-muted-foreground">RECIPIENTS:</span>
+          {error ? (
+            <span className="text-destructive">{error}</span>
+          ) : (
+            <span className="text-foreground text-lg">
+              {loading ? "…" : recipients?.toLocaleString()}
+            </span>
+          )}
+          {refreshing && (
+            <span className="text-xs text-muted-foreground">UPDATING...</span>
+          )}
+        </div>
+      </Panel>
+
+      <Panel title="2. DRY_RUN">
+        <div className="flex items-center justify-between gap-3 mb-4 font-mono text-xs text-muted-foreground">
+          <span>
+            FIRST_{dryRunSize}_PERSONALIZED_MESSAGES // NOTHING_IS_SENT
+          </span>
+          <select
+            aria-label="DRY_RUN_SIZE"
+            value={dryRunSize}
+            onChange={(e) => setDryRunSize(Number(e.target.value))}
+            className="bg-input border border-border rounded-lg px-3 py-1.5 text-foreground text-xs focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            {DRY_RUN_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </div>
+        <DryRun
+          campaign={campaign}
+          clients={sample}
+          recipients={recipients}
+          loading={loading}
+        />
+      </Panel>
+
+      <Panel title="3. DELIVERY">
+        <div className="flex gap-2 mb-4 font-mono text-sm">
+          {(["now", "schedule"] as const).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setDelivery(mode)}
+              aria-pressed={delivery === mode}
+              className={`px-4 py-2 rounded-lg border transition-all duration-200 ${
+                delivery === mode
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-pop text-foreground border-border hover:bg-pop/50"
+              }`}
+            >
+              {mode === "now" ? "SEND_NOW" : "SCHEDULE"}
+            </button>
+          ))}
+        </div>
+
+        {delivery === "schedule" && (
+          <SchedulePicker value={schedule} onChange={setSchedule} />
+        )}
+
+        {sendError && (
+          <div
+            role="alert"
+            className="mt-4 rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive font-mono text-sm"
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <div className="w-1.5 h-1.5 bg-destructive rounded-full"></div>
+              <span>SEND_FAILED</span>
+            </div>
+            {sendError}
+          </div>
+        )}
+
+        <div className="flex items-center gap-4 pt-4 mt-4 border-t border-border font-mono text-sm">
+          <button
+            type="button"
+            onClick={() => setConfirming(true)}
+            disabled={!!blocker || sending}
+            className="px-6 py-3 bg-primary text-primary-foreground rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {sending
+              ? "SENDING..."
+              : delivery === "now"
+              ? "SEND_NOW"
+              : "SCHEDULE_SEND"}
+          </button>
+          {blocker && (
+            <span className="text-xs text-muted-foreground">{blocker}</span>
+          )}
+        </div>
+      </Panel>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent className="font-mono">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-mono">
+              SEND {campaign.title} TO {recipients?.toLocaleString()}{" "}
+              RECIPIENTS?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="font-mono text-xs">
+              {scheduledAt
+                ? `SCHEDULED_FOR ${formatInTimeZone(
+                    scheduledAt,
+                    schedule.timeZone
+                  )}`
+                : "DELIVERY_STARTS_IMMEDIATELY_AND_CANNOT_BE_UNDONE"}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="font-mono">CANCEL</AlertDialogCancel>
+            <AlertDialogAction onClick={send} className="font-mono">
+              CONFIRM_SEND
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function Panel({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="bg-card border border-border rounded-xl">
+      <h2 className="px-6 py-4 border-b border-border bg-pop rounded-t-xl text-muted-foreground font-mono font-medium text-xs uppercase tracking-wider">
+        {title}
+      </h2>
+      <div className="p-6">{children}</div>
+    </section>
+  );
+}
+
+// Where each channel delivers to.
+function recipientAddress(type: string, client: Client) {
+  switch (type) {
+    case "email":
+      return client.email;
+    case "sms":
+      return client.mobile_number;
+    default:
+      return client.name;
+  }
+}
+
+function DryRun({
+  campaign,
+  clients,
+  recipients,
+  loading,
+}: {
+  campaign: Campaign;
+  clients: Client[];
+  recipients?: number;
+  loading: boolean;
+}) {
+  const variableMap = campaign.meta?.variable_map ?? {};
+  const subject = campaign.type === "sms" ? "" : campaign.meta?.subject ?? "";
+  const html =
+    campaign.type === "email" && campaign.meta?.content_type === "html";
+
+  if (loading) {
+    return (
+      <div className="space-y-3 animate-pulse">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <div key={i} className="h-24 bg-input rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  if (clients.length === 0) {
+    return (
+      <p className="text-muted-foreground font-mono text-sm">
+        NO_MATCHING_RECIPIENTS
+      </p>
+    );
+  }
+
+  const rendered = clients.map((client) => {
+    const text = renderTemplateText(campaign.message, variableMap, client);
+    const missing = [
+      ...renderTemplate(subject, variableMap, client),
+      ...renderTemplate(campaign.message, variableMap, client),
+    ].flatMap((s) => (s.kind === "variable" && s.value === null ? s.name : []));
+    return {
+      client,
+      subject: renderTemplateText(subject, variableMap, client),
+      body: html ? htmlToText(text) : text,
+      sms: campaign.type === "sms" ? smsStats(text) : null,
+      missing: Array.from(new Set(missing)),
+    };
+  });
+
+  // Segment counts vary with each recipient's values, so the total is
+  // extrapolated from the sample.
+  const smsSample = rendered.flatMap((r) => (r.sms ? [r.sms.cost] : []));
+  const estimatedCost =
+    smsSample.length > 0 && recipients
+      ? (smsSample.reduce((sum, cost) => sum + cost, 0) / smsSample.length) *
+        recipients
+      : null;
+
+  return (
+    <div className="space-y-3 font-mono">
+      {rendered.map(({ client, subject, body, sms, missing }) => (
+        <article
+          key={client._id}
+          className="rounded-lg border border-border bg-pop p-4 space-y-2"
+        >
+          <div className="flex items-center justify-between gap-3 text-xs">
+            <span className="text-muted-foreground truncate">
+              TO: {recipientAddress(campaign.type, client)}
+            </span>
+            {sms && (
+              <span className="shrink-0 text-muted-foreground">
+                {sms.encoding} // {sms.segments} SEG //{" "}
+                {formatSmsCost(sms.cost)}
+              </span>
+            )}
+          </div>
+          {subject && (
+            <div className="text-sm font-semibold text-foreground break-words">
+              {subject}
+            </div>
+          )}
+          <p className="text-sm text-foreground whitespace-pre-wrap break-words line-clamp-6">
+            {body}
+          </p>
+          {missing.length > 0 && (
+            <div className="text-xs text-destructive">
+              MISSING_VALUES: {missing.map((name) => `{{${name}}}`).join(", ")}
+            </div>
+          )}
+        </article>
+      ))}
+      {estimatedCost !== null && (
+        <div className="text-xs text-muted-foreground text-right">
+          ESTIMATED_TOTAL_COST: ~{formatSmsCost(estimatedCost)}
+        </div>
+      )}
+    </div>
+  );
+}
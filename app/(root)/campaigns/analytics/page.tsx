@@ -0,0 +1,248 @@
+"use client";
+
+import { Suspense, useMemo } from "react";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import RequirePermission from "@/components/auth/require-permission";
+import CampaignAnalyticsDashboard from "@/components/dashboard/campaign-analytics";
+import DashboardPageLayout from "@/components/dashboard/layout";
+import BracketsIcon from "@/components/icons/brackets";
+import { endpointKey, endpoints } from "@/lib/api";
+import {
+  ANALYTICS_RANGES,
+  ANALYTICS_SOURCE,
+  fetchCampaignAnalytics,
+  type AnalyticsRange,
+} from "@/lib/campaign-analytics";
+import { CAMPAIGN_TYPES } from "@/lib/campaign-template";
+import { buildQueryKey } from "@/lib/query-cache";
+import { useAllCampaigns } from "@/hooks/use-all-campaigns";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+
+const selectClassName =
+  "bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200";
+
+type Scope = {
+  campaign?: string;
+  type?: string;
+  workspace?: string;
+  days: AnalyticsRange;
+};
+
+function parseScope(params: URLSearchParams): Scope {
+  const days = Number(params.get("days"));
+  return {
+    campaign: params.get("campaign") || undefined,
+    type: params.get("type") || undefined,
+    workspace: params.get("workspace") || undefined,
+    days: (ANALYTICS_RANGES as readonly number[]).includes(days)
+      ? (days as AnalyticsRange)
+      : 30,
+  };
+}
+
+export default function CampaignAnalyticsPage() {
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Analytics",
+        description: "Campaign delivery and engagement",
+        icon: BracketsIcon,
+      }}
+    >
+      <RequirePermission permission="campaigns:read" backHref="/campaigns">
+        <Suspense fallback={<AnalyticsSkeleton />}>
+          <CampaignAnalyticsView />
+        </Suspense>
+      </RequirePermission>
+    </DashboardPageLayout>
+  );
+}
+
+function CampaignAnalyticsView() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const scope = parseScope(searchParams);
+  const { workspaces } = useWorkspaces();
+
+  const setScope = (patch: Partial<Record<keyof Scope, string>>) => {
+    const params = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(patch)) {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    }
+    const qs = params.toString();
+    router.replace(`${pathname}${qs ? `?${qs}` : ""}`);
+  };
+
+  const campaignsQuery = useAllCampaigns();
+  const { campaigns } = campaignsQuery;
+
+  const scoped = useMemo(
+    () =>
+      campaigns.filter(
+        (c) =>
+          (!scope.campaign || c._id === scope.campaign) &&
+          (!scope.type || c.type === scope.type) &&
+          (!scope.workspace || c.property_id === scope.workspace)
+      ),
+    [campaigns, scope.campaign, scope.type, scope.workspace]
+  );
+
+  const analyticsInput = {
+    campaignIds: scoped.map((c) => c._id).join(","),
+    days: scope.days,
+  };
+  const analyticsQuery = useApiQuery({
+    queryKey: buildQueryKey(
+      endpointKey(endpoints.campaigns.analytics),
+      analyticsInput
+    ),
+    fetcher: (signal) => fetchCampaignAnalytics(scoped, scope.days, signal),
+    enabled: campaignsQuery.data !== undefined,
+  });
+
+  const workspaceName = (propertyId: string) =>
+    workspaces.find((w) => w._id === propertyId)?.name ?? propertyId;
+  const selected = campaigns.find((c) => c._id === scope.campaign);
+  const error = campaignsQuery.error ?? analyticsQuery.error;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <div className="flex items-center gap-3">
+            <h1 className="font-display text-3xl md:text-4xl text-foreground">
+              {selected ? selected.title : "CAMPAIGN_ANALYTICS"}
+            </h1>
+            {ANALYTICS_SOURCE === "mock" && (
+              <span className="px-2 py-1 rounded-lg text-xs font-mono bg-warning/10 border border-warning text-warning">
+                MOCK_DATA
+              </span>
+            )}
+          </div>
+          <p className="text-muted-foreground font-mono text-sm">
+            {scoped.length} TEMPLATES // LAST_{scope.days}_DAYS
+          </p>
+        </div>
+
+        <Link
+          href={selected ? `/campaigns/${selected._id}` : "/campaigns"}
+          className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+        >
+          {selected ? "BACK_TO_TEMPLATE" : "BACK_TO_TEMPLATES"}
+        </Link>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-3">
+        <select
+          aria-label="TEMPLATE"
+          value={scope.campaign ?? ""}
+          onChange={(e) => setScope({ campaign: e.target.value })}
+          className={`${selectClassName} flex-1`}
+        >
+          <option value="">ALL_TEMPLATES</option>
+          {campaigns.map((c) => (
+            <option key={c._id} value={c._id}>
+              {c.title}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="CHANNEL"
+          value={scope.type ?? ""}
+          onChange={(e) => setScope({ type: e.target.value })}
+          className={selectClassName}
+        >
+          <option value="">ALL_CHANNELS</option>
+          {CAMPAIGN_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type.toUpperCase()}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="WORKSPACE"
+          value={scope.workspace ?? ""}
+          onChange={(e) => setScope({ workspace: e.target.value })}
+          className={selectClassName}
+        >
+          <option value="">ALL_WORKSPACES</option>
+          {workspaces.map((w) => (
+            <option key={w._id} value={w._id}>
+              {w.name}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          {ANALYTICS_RANGES.map((days) => (
+            <button
+              key={days}
+              type="button"
+              aria-pressed={scope.days === days}
+              onClick={() => setScope({ days: String(days) })}
+              className={`px-4 py-2.5 rounded-lg border font-mono text-sm transition-all duration-200 ${
+                scope.days === days
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-pop text-foreground border-border hover:bg-pop/50"
+              }`}
+            >
+              {days}D
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-6 text-destructive font-mono text-sm">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="w-2 h-2 bg-destructive rounded-full animate-pulse"></div>
+            <span>DATA_FETCH_ERROR</span>
+          </div>
+          {error}
+          <div className="mt-4">
+            <button
+              onClick={() => {
+                campaignsQuery.refetch();
+                analyticsQuery.refetch();
+              }}
+              className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200 font-mono text-sm"
+            >
+              RETRY_CONNECTION
+            </button>
+          </div>
+        </div>
+      ) : !analyticsQuery.data ? (
+        <AnalyticsSkeleton />
+      ) : scoped.length === 0 ? (
+        <div className="rounded-lg border border-border bg-card p-6 font-mono text-sm text-muted-foreground">
+          NO_TEMPLATES_MATCH_THIS_SCOPE
+        </div>
+      ) : (
+        <CampaignAnalyticsDashboard
+          analytics={analyticsQuery.data}
+          workspaceName={workspaceName}
+        />
+      )}
+    </div>
+  );
+}
+
+function AnalyticsSkeleton() {
+  return (
+    <div className="space-y-6 animate-pulse">
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-4">
+        {Array.from({ length: 5 }).map((_, i) => (
+          <div
+            key={i}
+            className="bg-card border border-border rounded-xl h-24"
+          />
+        ))}
+      </div>
+      <div className="bg-card border border-border rounded-xl h-72" />
+      <div className="bg-card border border-border rounded-xl h-72" />
+    </div>
+  );
+}
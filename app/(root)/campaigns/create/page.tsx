@@ -0,0 +1,59 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import RequirePermission from "@/components/auth/require-permission";
+import CampaignForm from "@/components/dashboard/campaign-form";
+import DashboardPageLayout from "@/components/dashboard/layout";
+import BracketsIcon from "@/components/icons/brackets";
+import { callApi, endpoints } from "@/lib/api";
+import { toCampaignPayload } from "@/lib/schemas";
+
+export default function CreateCampaign() {
+  const router = useRouter();
+
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Create Template",
+        description: "New communication template",
+        icon: BracketsIcon,
+      }}
+    >
+      <div className="flex items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <h1 className="font-display text-3xl md:text-4xl text-foreground">
+            CREATE_TEMPLATE
+          </h1>
+          <p className="text-muted-foreground font-mono text-sm">
+            COMPOSE_A_MESSAGE_WITH_CLIENT_VARIABLES
+          </p>
+        </div>
+
+        <Link
+          href="/campaigns"
+          className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+        >
+          BACK_TO_TEMPLATES
+        </Link>
+      </div>
+
+      <RequirePermission permission="campaigns:write" backHref="/campaigns">
+        <div className="py-6">
+          <CampaignForm
+            submitLabel="CREATE_TEMPLATE"
+            pendingLabel="CREATING_TEMPLATE..."
+            onSubmit={async (values) => {
+              const { campaign } = await callApi(
+                endpoints.campaigns.create,
+                toCampaignPayload(values)
+              );
+              router.replace(`/campaigns/${campaign._id}`);
+            }}
+            onCancel={() => router.back()}
+          />
+        </div>
+      </RequirePermission>
+    </DashboardPageLayout>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import RequirePermission from "@/components/auth/require-permission";
+import CampaignCopyDialog from "@/components/dashboard/campaign-copy-dialog";
+import DashboardPageLayout from "@/components/dashboard/layout";
+import BracketsIcon from "@/components/icons/brackets";
+import { CAMPAIGN_TYPES } from "@/lib/campaign-template";
+import { usePermission } from "@/lib/current-user-context";
+import type { Campaign } from "@/lib/schemas";
+import { useAllCampaigns } from "@/hooks/use-all-campaigns";
+import { useCampaignStarToggle } from "@/hooks/use-campaign-flags";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+
+const fieldClassName =
+  "bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200";
+
+export default function TemplateLibraryPage() {
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Library",
+        description: "Starred templates any workspace can clone",
+        icon: BracketsIcon,
+      }}
+    >
+      <RequirePermission permission="campaigns:read" backHref="/campaigns">
+        <TemplateLibrary />
+      </RequirePermission>
+    </DashboardPageLayout>
+  );
+}
+
+function TemplateLibrary() {
+  const [search, setSearch] = useState("");
+  const [type, setType] = useState("");
+  const { campaigns, queryKey, data, loading, refreshing, error, refetch } =
+    useAllCampaigns();
+  const { workspaces } = useWorkspaces();
+  const setStarred = useCampaignStarToggle(queryKey);
+
+  const starred = campaigns.filter(
+    (c) => c.meta?.is_starred === true && !c.meta?.is_archived
+  );
+  const query = search.trim().toLowerCase();
+  const shown = starred.filter(
+    (c) =>
+      (!type || c.type === type) &&
+      (!query ||
+        c.title.toLowerCase().includes(query) ||
+        c.message.toLowerCase().includes(query))
+  );
+
+  const workspaceName = (propertyId: string) =>
+    workspaces.find((w) => w._id === propertyId)?.name ?? propertyId;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <h1 className="font-display text-3xl md:text-4xl text-foreground">
+            TEMPLATE_LIBRARY
+          </h1>
+          <p className="text-muted-foreground font-mono text-sm">
+            {starred.length} STARRED // CLONE_INTO_ANY_WORKSPACE
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={refetch}
+            disabled={loading || refreshing}
+            className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+          >
+            {loading || refreshing ? "REFRESHING..." : "REFRESH"}
+          </button>
+          <Link
+            href="/campaigns"
+            className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+          >
+            BACK_TO_TEMPLATES
+          </Link>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="SEARCH_LIBRARY"
+          className={`${fieldClassName} flex-1`}
+        />
+        <select
+          aria-label="CHANNEL"
+          value={type}
+          onChange={(e) => setType(e.target.value)}
+          className={fieldClassName}
+        >
+          <option value="">ALL_CHANNELS</option>
+          {CAMPAIGN_TYPES.map((t) => (
+            <option key={t} value={t}>
+              {t.toUpperCase()}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && !data ? (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-6 text-destructive font-mono text-sm">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="w-2 h-2 bg-destructive rounded-full animate-pulse"></div>
+            <span>DATA_FETCH_ERROR</span>
+          </div>
+          {error}
+          <div className="mt-4">
+            <button
+              onClick={refetch}
+              className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200 font-mono text-sm"
+            >
+              RETRY_CONNECTION
+            </button>
+          </div>
+        </div>
+      ) : loading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 animate-pulse">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <div
+              key={i}
+              className="bg-card border border-border rounded-xl h-56"
+            />
+          ))}
+        </div>
+      ) : shown.length === 0 ? (
+        <div className="rounded-lg border border-border bg-pop p-8 text-center text-muted-foreground font-mono space-y-2">
+          <div className="text-2xl">
+            {starred.length === 0 ? "LIBRARY_EMPTY" : "NO_MATCHES"}
+          </div>
+          <div className="text-sm">
+            {starred.length === 0
+              ? "STAR_A_TEMPLATE_TO_SHARE_IT_WITH_EVERY_WORKSPACE"
+              : "TRY_ANOTHER_SEARCH_OR_CHANNEL"}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {shown.map((campaign) => (
+            <LibraryCard
+              key={campaign._id}
+              campaign={campaign}
+              workspace={workspaceName(campaign.property_id)}
+              onUnstar={() => setStarred(campaign, false)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LibraryCard({
+  campaign,
+  workspace,
+  onUnstar,
+}: {
+  campaign: Campaign;
+  workspace: string;
+  onUnstar: () => void;
+}) {
+  const canWrite = usePermission("campaigns:write");
+  const variables = Object.entries(campaign.meta?.variable_map ?? {});
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-4 flex flex-col gap-3 font-mono hover:border-ring transition-all duration-200">
+      <div className="flex items-start justify-between gap-3">
+        <h3 className="font-semibold text-card-foreground text-lg truncate">
+          {campaign.title}
+        </h3>
+        <span className="px-2 py-1 rounded-lg text-xs bg-pop border border-border text-muted-foreground">
+          {campaign.type.toUpperCase()}
+        </span>
+      </div>
+      <div className="text-xs text-muted-foreground truncate">
+        FROM: {workspace}
+      </div>
+      {campaign.type !== "sms" && campaign.meta?.subject && (
+        <div className="text-sm text-foreground truncate">
+          {campaign.meta.subject}
+        </div>
+      )}
+      <p className="text-muted-foreground text-sm line-clamp-3 min-h-[3.5rem]">
+        {campaign.message}
+      </p>
+      <div className="p-2 bg-pop rounded-lg border border-border text-xs">
+        <div className="text-muted-foreground mb-1">
+          VARIABLE_MAP ({variables.length})
+        </div>
+        <div className="text-card-foreground line-clamp-2">
+          {variables.length === 0
+            ? "—"
+            : variables.map(([k, v]) => `{{${k}}}→${v}`).join(" • ")}
+        </div>
+      </div>
+
+      <div className="mt-auto flex items-center gap-2 pt-3 border-t border-border">
+        <Link
+          href={`/campaigns/${campaign._id}`}
+          className="flex-1 py-2 text-center bg-pop text-foreground text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+        >
+          VIEW
+        </Link>
+        <CampaignCopyDialog
+          campaign={campaign}
+          title="CLONE_FROM_LIBRARY"
+          label="CLONE"
+          disabled={!canWrite}
+          triggerClassName="flex-1 py-2 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 disabled:opacity-50"
+        />
+        <button
+          type="button"
+          onClick={onUnstar}
+          disabled={!canWrite}
+          title="REMOVE_FROM_LIBRARY"
+          className="px-3 py-2 bg-pop text-warning text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+        >
+          ★
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,76 +2,48 @@
 "use client";
 
 import React, {
-  useEffect,
-  useState,
-  useRef,
   Suspense,
-  useMemo,
   ReactElement,
+  useCallback,
+  useMemo,
+  useState,
 } from "react";
 import Link from "next/link";
-import { useRouter, useSearchParams } from "next/navigation";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import CampaignActionsMenu from "@/components/dashboard/campaign-actions-menu";
+import CampaignCopyDialog from "@/components/dashboard/campaign-copy-dialog";
+import CampaignFilterBar from "@/components/dashboard/campaign-filters";
+import ExportDialog from "@/components/dashboard/export-dialog";
 import DashboardPageLayout from "@/components/dashboard/layout";
+import ListPagination, {
+  LimitSelect,
+} from "@/components/dashboard/list-pagination";
+import { BracketsIcon, MessageSquare, FileText, Zap } from "lucide-react";
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import { attachmentsSize, formatBytes } from "@/lib/campaign-attachments";
+import { copyPayload, copyTitle } from "@/lib/campaign-copy";
 import {
-  BracketsIcon,
-  MessageSquare,
-  FileText,
-  Calendar,
-  Zap,
-} from "lucide-react";
-import { apiClient } from "@/lib/apiClient";
-
-type SearchParams = { page?: string; limit?: string };
-
-type Campaign = {
-  _id: string;
-  type: string;
-  title: string;
-  message: string;
-  attachments: any[];
-  property_id: string;
-  meta?: {
-    ray_id?: string;
-    variable_map?: Record<string, string>;
-    is_active?: boolean;
-  };
-  createdAt?: string;
-  updatedAt?: string;
-};
-
-type Pagination = {
-  totalItems: number;
-  totalPages: number;
-  currentPage: number;
-  limit: number;
-  hasNextPage: boolean;
-  hasPrevPage: boolean;
-};
-
-type ApiSuccess = {
-  message: string;
-  status: "SUCCESS";
-  data: {
-    campaigns: Campaign[];
-    pagination: Pagination;
-  };
-};
-
-async function fetchCampaignsViaApi(
-  page = 1,
-  limit = 12,
-  signal?: AbortSignal
-) {
-  const payload = { page, limit };
-  const res = await apiClient.get(
-    `/api/campaign/master-panel/fetch?page=${page}&limit=${limit}`,
-    {
-      // @ts-ignore: some apiClient accept native fetch signal; adapt as needed
-      signal,
-    }
-  );
-  return res as unknown as ApiSuccess;
-}
+  hasActiveCampaignFilters,
+  matchesCampaignFlags,
+  parseCampaignFilters,
+  withCampaignFilters,
+  type CampaignFilters,
+} from "@/lib/campaign-filters";
+import { usePermission } from "@/lib/current-user-context";
+import { CAMPAIGN_EXPORT_COLUMNS } from "@/lib/export";
+import { MAX_LIMIT } from "@/lib/pagination";
+import type { Campaign } from "@/lib/schemas";
+import {
+  useCampaignDelete,
+  usePendingCampaignDeletes,
+} from "@/hooks/use-campaign-delete";
+import {
+  useCampaignActiveToggle,
+  useCampaignArchiveToggle,
+  useCampaignStarToggle,
+} from "@/hooks/use-campaign-flags";
+import { usePaginatedResource } from "@/hooks/use-paginated-resource";
+import { toast } from "@/hooks/use-toast";
 
 export default function CampaignsClientPage() {
   return (
@@ -82,79 +54,54 @@ export default function CampaignsClientPage() {
 }
 
 function CampaignsClient() {
-  const searchParams = useSearchParams();
+  const canWrite = usePermission("campaigns:write");
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
 
-  // parse search params
-  const pageParam = Number(searchParams.get("page") ?? 1);
-  const limitParam = Number(searchParams.get("limit") ?? 12);
-  const page =
-    Number.isFinite(pageParam) && pageParam > 0 ? Math.floor(pageParam) : 1;
-  const limit =
-    Number.isFinite(limitParam) && limitParam > 0 && limitParam <= 100
-      ? Math.floor(limitParam)
-      : 12;
-
-  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
-  const [pagination, setPagination] = useState<Pagination | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // used to ignore stale responses
-  const requestIdRef = useRef(0);
-
-  useEffect(() => {
-    let mounted = true;
-    const controller = new AbortController();
-    const thisReqId = ++requestIdRef.current;
-
-    setLoading(true);
-    setError(null);
-
-    (async () => {
-      try {
-        const json = await fetchCampaignsViaApi(page, limit, controller.signal);
-        // ignore if aborted or stale
-        if (!mounted || requestIdRef.current !== thisReqId) return;
-
-        if (!json || json.status !== "SUCCESS" || !json.data) {
-          throw new Error("Invalid API response");
-        }
-
-        setCampaigns(json.data.campaigns ?? []);
-        setPagination(json.data.pagination ?? null);
-      } catch (err: any) {
-        if (err?.name === "AbortError") {
-          // aborted, ignore
-          return;
-        }
-        setError(err?.message || String(err));
-        setCampaigns([]);
-        setPagination(null);
-      } finally {
-        if (mounted) setLoading(false);
-      }
-    })();
-
-    return () => {
-      mounted = false;
-      controller.abort();
-    };
-  }, [page, limit]);
-
-  const pushPage = (p: number) => {
-    const params = new URLSearchParams(Array.from(searchParams.entries()));
-    params.set("page", String(p));
-    params.set("limit", String(limit));
-    router.push(`${location.pathname}?${params.toString()}`);
-  };
+  const filters = useMemo(
+    () => parseCampaignFilters(searchParams),
+    [searchParams]
+  );
+  const isFiltered = hasActiveCampaignFilters(filters);
 
-  const changeLimit = (newLimit: number) => {
-    const params = new URLSearchParams(Array.from(searchParams.entries()));
-    params.set("limit", String(newLimit));
-    params.set("page", "1");
-    router.push(`${location.pathname}?${params.toString()}`);
-  };
+  const updateFilters = useCallback(
+    (patch: Partial<CampaignFilters>) =>
+      router.replace(`${pathname}${withCampaignFilters(searchParams, patch)}`),
+    [router, pathname, searchParams]
+  );
+
+  const {
+    queryKey,
+    data,
+    loading,
+    refreshing,
+    error,
+    limit,
+    setPage,
+    setLimit,
+    hrefForPage,
+    refetch,
+  } = usePaginatedResource({
+    queryKey: endpointKey(endpoints.campaigns.list),
+    params: filters,
+    defaultLimit: 12,
+    fetcher: (request, signal) =>
+      callApi(endpoints.campaigns.list, request, { signal }),
+  });
+
+  // Flag changes patch the cached page before the refetch drops the card,
+  // so filter here too or an archived card would linger until then. Deletes
+  // still in their undo window stay hidden whatever a refetch returns.
+  const pendingDeletes = usePendingCampaignDeletes();
+  const campaigns = (data?.campaigns ?? []).filter(
+    (c) => matchesCampaignFlags(c, filters) && !pendingDeletes.has(c._id)
+  );
+  const pagination = data?.pagination ?? null;
+  const setStarred = useCampaignStarToggle(queryKey);
+  const setActive = useCampaignActiveToggle(queryKey);
+  const setArchived = useCampaignArchiveToggle(queryKey);
+  const deleteCampaign = useCampaignDelete(queryKey);
 
   const getTypeIcon = (type: string) => {
     switch (type.toLowerCase()) {
@@ -202,36 +149,61 @@ function CampaignsClient() {
             </p>
           </div>
 
-          <Link
-            href="/campaigns/create"
-            className="px-6 py-3 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200"
-          >
-            CREATE_TEMPLATE
-          </Link>
+          <div className="flex items-center gap-3">
+            <Link
+              href="/campaigns/library"
+              className="px-6 py-3 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200"
+            >
+              LIBRARY
+            </Link>
+            <Link
+              href="/campaigns/analytics"
+              className="px-6 py-3 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200"
+            >
+              ANALYTICS
+            </Link>
+            <Link
+              href="/campaigns/create"
+              aria-disabled={!canWrite}
+              tabIndex={canWrite ? undefined : -1}
+              className={`px-6 py-3 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 ${
+                canWrite ? "" : "pointer-events-none opacity-50"
+              }`}
+            >
+              CREATE_TEMPLATE
+            </Link>
+          </div>
         </div>
 
         {/* Controls Section */}
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 py-4 border-b border-border">
           <div className="flex items-center gap-3">
-            <select
-              className="bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
+            <LimitSelect
               value={limit}
-              onChange={(e) => changeLimit(Number(e.target.value))}
-            >
-              {[12, 24, 36, 48].map((n) => (
-                <option key={n} value={n} className="font-mono">
-                  {n} / PAGE
-                </option>
-              ))}
-            </select>
+              options={[12, 24, 36, 48]}
+              onChange={setLimit}
+            />
 
             <button
-              onClick={() => window.location.reload()}
-              disabled={loading}
+              onClick={refetch}
+              disabled={loading || refreshing}
               className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 disabled:opacity-50"
             >
-              {loading ? "REFRESHING..." : "REFRESH"}
+              {loading || refreshing ? "REFRESHING..." : "REFRESH"}
             </button>
+
+            <ExportDialog
+              resource="campaigns"
+              columns={CAMPAIGN_EXPORT_COLUMNS}
+              fetchPage={async (page, signal) => {
+                const { campaigns, pagination } = await callApi(
+                  endpoints.campaigns.list,
+                  { ...filters, page, limit: MAX_LIMIT },
+                  { signal }
+                );
+                return { items: campaigns, totalPages: pagination.totalPages };
+              }}
+            />
           </div>
 
           {pagination && (
@@ -241,6 +213,8 @@ function CampaignsClient() {
           )}
         </div>
 
+        <CampaignFilterBar filters={filters} onChange={updateFilters} />
+
         {/* Loading State */}
         {loading && <GridSkeleton />}
 
@@ -254,7 +228,7 @@ function CampaignsClient() {
             {error}
             <div className="mt-4">
               <button
-                onClick={() => window.location.reload()}
+                onClick={refetch}
                 className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200 font-mono text-sm"
               >
                 RETRY_CONNECTION
@@ -264,7 +238,16 @@ function CampaignsClient() {
         )}
 
         {/* Empty State */}
-        {!loading && !error && campaigns.length === 0 && (
+        {!loading && !error && campaigns.length === 0 && isFiltered && (
+          <div className="rounded-lg border border-border bg-pop p-8 text-center">
+            <div className="text-muted-foreground font-mono space-y-3">
+              <div className="text-2xl">NO_MATCHING_TEMPLATES</div>
+              <div className="text-sm">ADJUST_OR_CLEAR_THE_FILTERS_ABOVE</div>
+            </div>
+          </div>
+        )}
+
+        {!loading && !error && campaigns.length === 0 && !isFiltered && (
           <div className="rounded-lg border border-border bg-pop p-8 text-center">
             <div className="text-muted-foreground font-mono space-y-3">
               <div className="text-2xl">NO_TEMPLATES_FOUND</div>
@@ -273,7 +256,11 @@ function CampaignsClient() {
               </div>
               <Link
                 href="/campaigns/create"
-                className="inline-block px-6 py-3 bg-primary text-primary-foreground font-mono rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 mt-4"
+                aria-disabled={!canWrite}
+                tabIndex={canWrite ? undefined : -1}
+                className={`inline-block px-6 py-3 bg-primary text-primary-foreground font-mono rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 mt-4 ${
+                  canWrite ? "" : "pointer-events-none opacity-50"
+                }`}
               >
                 CREATE_TEMPLATE
               </Link>
@@ -291,19 +278,21 @@ function CampaignsClient() {
                   campaign={campaign}
                   getTypeIcon={getTypeIcon}
                   getTypeColor={getTypeColor}
+                  onToggleStar={setStarred}
+                  onSetActive={setActive}
+                  onSetArchived={setArchived}
+                  onDelete={deleteCampaign}
                 />
               ))}
             </div>
 
-            {/* Pagination */}
-            {pagination && pagination.totalPages > 1 && (
-              <div className="flex flex-col sm:flex-row items-center justify-between gap-4 py-6 border-t border-border">
-                <div className="text-muted-foreground font-mono text-sm">
-                  PAGE {pagination.currentPage} OF {pagination.totalPages}
-                </div>
-
-                <Pagination pagination={pagination} onNavigate={pushPage} />
-              </div>
+            {pagination && (
+              <ListPagination
+                currentPage={pagination.currentPage}
+                totalPages={pagination.totalPages}
+                hrefForPage={hrefForPage}
+                onNavigate={setPage}
+              />
             )}
           </>
         )}
@@ -316,15 +305,52 @@ function CampaignCard({
   campaign,
   getTypeIcon,
   getTypeColor,
+  onToggleStar,
+  onSetActive,
+  onSetArchived,
+  onDelete,
 }: {
   campaign: Campaign;
   getTypeIcon: (type: string) => ReactElement;
   getTypeColor: (type: string) => string;
+  onToggleStar: (campaign: Campaign, starred: boolean) => void;
+  onSetActive: (campaign: Campaign, active: boolean) => void;
+  onSetArchived: (campaign: Campaign, archived: boolean) => void;
+  onDelete: (campaign: Campaign) => void;
 }) {
+  const router = useRouter();
+  const canWrite = usePermission("campaigns:write");
+  const canSend = usePermission("campaigns:send");
+  const [duplicating, setDuplicating] = useState(false);
+  const starred = campaign.meta?.is_starred === true;
+  const archived = campaign.meta?.is_archived === true;
   const variableCount = campaign.meta?.variable_map
     ? Object.keys(campaign.meta.variable_map).length
     : 0;
-  const attachmentCount = campaign.attachments?.length || 0;
+  const attachmentCount = campaign.attachments.length;
+
+  async function duplicate() {
+    setDuplicating(true);
+    try {
+      const { campaign: copy } = await callApi(
+        endpoints.campaigns.create,
+        copyPayload(campaign, {
+          propertyId: campaign.property_id,
+          title: copyTitle(campaign.title, [campaign.title]),
+          note: `Duplicated from "${campaign.title}"`,
+        })
+      );
+      toast({ title: "TEMPLATE_DUPLICATED", description: copy.title });
+      router.push(`/campaigns/${copy._id}/edit`);
+    } catch (err: any) {
+      toast({
+        variant: "destructive",
+        title: "DUPLICATE_FAILED",
+        description: err?.message || "UNKNOWN_ERROR",
+      });
+      setDuplicating(false);
+    }
+  }
 
   return (
     <div className="bg-card border border-border rounded-xl p-4 hover:border-ring transition-all duration-200 group">
@@ -344,11 +370,21 @@ function CampaignCard({
           >
             {campaign.type}
           </span>
+          {starred && (
+            <span className="px-2 py-1 rounded-lg text-xs font-mono bg-warning/10 text-warning">
+              ★ LIBRARY
+            </span>
+          )}
           {campaign.meta?.is_active === false && (
             <span className="px-2 py-1 rounded-lg text-xs font-mono bg-muted text-muted-foreground">
               INACTIVE
             </span>
           )}
+          {archived && (
+            <span className="px-2 py-1 rounded-lg text-xs font-mono bg-muted text-muted-foreground">
+              ARCHIVED
+            </span>
+          )}
         </div>
       </div>
 
@@ -373,6 +409,15 @@ function CampaignCard({
             {attachmentCount}
           </span>
         </div>
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground font-mono">PERFORMANCE</span>
+          <Link
+            href={`/campaigns/analytics?campaign=${campaign._id}`}
+            className="font-mono text-card-foreground font-medium hover:underline"
+          >
+            VIEW_ANALYTICS →
+          </Link>
+        </div>
         <div className="flex items-center justify-between text-xs">
           <span className="text-muted-foreground font-mono">CREATED</span>
           <span className="font-mono text-muted-foreground">
@@ -399,6 +444,22 @@ function CampaignCard({
         </div>
       )}
 
+      {/* Attachments Preview */}
+      {attachmentCount > 0 && (
+        <div className="mb-4 p-2 bg-pop rounded-lg border border-border">
+          <div className="text-xs font-mono text-muted-foreground mb-1">
+            ATTACHMENTS // {formatBytes(attachmentsSize(campaign.attachments))}
+          </div>
+          <div className="text-xs font-mono text-card-foreground line-clamp-2">
+            {campaign.attachments
+              .slice(0, 2)
+              .map((a) => a.name)
+              .join(" • ")}
+            {attachmentCount > 2 && ` • +${attachmentCount - 2} more`}
+          </div>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex items-center gap-2 pt-3 border-t border-border">
         <Link
@@ -409,94 +470,57 @@ function CampaignCard({
         </Link>
         <Link
           href={`/campaigns/${campaign._id}/edit`}
-          className="flex-1 py-2 text-center bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+          aria-disabled={!canWrite}
+          tabIndex={canWrite ? undefined : -1}
+          className={`flex-1 py-2 text-center bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 ${
+            canWrite ? "" : "pointer-events-none opacity-50"
+          }`}
         >
           EDIT
         </Link>
+        <Link
+          href={`/campaigns/${campaign._id}/send`}
+          aria-disabled={!canSend || archived}
+          tabIndex={canSend && !archived ? undefined : -1}
+          className={`flex-1 py-2 text-center bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 ${
+            canSend && !archived ? "" : "pointer-events-none opacity-50"
+          }`}
+        >
+          SEND
+        </Link>
       </div>
-    </div>
-  );
-}
-
-function Pagination({
-  pagination,
-  onNavigate,
-}: {
-  pagination: Pagination;
-  onNavigate: (page: number) => void;
-}) {
-  const { currentPage, totalPages } = pagination;
-
-  const pages = useMemo(() => {
-    const windowSize = 5;
-    const half = Math.floor(windowSize / 2);
-    let start = Math.max(1, currentPage - half);
-    let end = Math.min(totalPages, start + windowSize - 1);
-    start = Math.max(1, Math.min(start, end - windowSize + 1));
-
-    return Array.from({ length: end - start + 1 }, (_, i) => start + i);
-  }, [currentPage, totalPages]);
-
-  return (
-    <nav className="flex items-center gap-2">
-      <button
-        onClick={() => onNavigate(Math.max(1, currentPage - 1))}
-        disabled={currentPage === 1}
-        className="px-4 py-2 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        PREV
-      </button>
-
-      {pages[0] > 1 && (
-        <>
-          <button
-            onClick={() => onNavigate(1)}
-            className="px-3 py-2 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
-          >
-            1
-          </button>
-          {pages[0] > 2 && (
-            <span className="px-2 text-muted-foreground">...</span>
-          )}
-        </>
-      )}
-
-      {pages.map((p) => (
+      <div className="flex items-center gap-2 pt-2">
         <button
-          key={p}
-          onClick={() => onNavigate(p)}
-          className={`px-3 py-2 border rounded-lg font-mono text-sm transition-all duration-200 ${
-            p === currentPage
-              ? "bg-primary text-primary-foreground border-primary"
-              : "bg-pop text-foreground border-border hover:bg-pop/50"
-          }`}
+          type="button"
+          onClick={() => onToggleStar(campaign, !starred)}
+          disabled={!canWrite}
+          aria-pressed={starred}
+          title={starred ? "REMOVE_FROM_LIBRARY" : "ADD_TO_LIBRARY"}
+          className="px-3 py-1.5 bg-pop text-foreground font-mono text-xs rounded-lg border border-border hover:bg-pop/50 aria-pressed:text-warning transition-all duration-200 disabled:opacity-50"
         >
-          {p}
+          {starred ? "★" : "☆"}
         </button>
-      ))}
-
-      {pages[pages.length - 1] < totalPages && (
-        <>
-          {pages[pages.length - 1] < totalPages - 1 && (
-            <span className="px-2 text-muted-foreground">...</span>
-          )}
-          <button
-            onClick={() => onNavigate(totalPages)}
-            className="px-3 py-2 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
-          >
-            {totalPages}
-          </button>
-        </>
-      )}
-
-      <button
-        onClick={() => onNavigate(Math.min(totalPages, currentPage + 1))}
-        disabled={currentPage === totalPages}
-        className="px-4 py-2 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        NEXT
-      </button>
-    </nav>
+        <button
+          type="button"
+          onClick={duplicate}
+          disabled={!canWrite || duplicating}
+          className="flex-1 py-1.5 bg-pop text-foreground font-mono text-xs rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+        >
+          {duplicating ? "DUPLICATING..." : "DUPLICATE"}
+        </button>
+        <CampaignCopyDialog
+          campaign={campaign}
+          disabled={!canWrite}
+          triggerClassName="flex-1 py-1.5 bg-pop text-foreground font-mono text-xs rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+        />
+        <CampaignActionsMenu
+          campaign={campaign}
+          onSetActive={onSetActive}
+          onSetArchived={onSetArchived}
+          onDelete={onDelete}
+        />
+      </div>
+    </div>
   );
 }
 
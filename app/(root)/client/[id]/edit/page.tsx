@@ -0,0 +1,134 @@
+"use client";
+
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import RequirePermission from "@/components/auth/require-permission";
+import ClientForm from "@/components/dashboard/client-form";
+import ClientStatusMenu from "@/components/dashboard/client-status-menu";
+import DashboardPageLayout from "@/components/dashboard/layout";
+import BracketsIcon from "@/components/icons/brackets";
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import { CLIENT_STATUSES } from "@/lib/client-filters";
+import { buildQueryKey } from "@/lib/query-cache";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useClientStatusChange } from "@/hooks/use-client-status-change";
+
+export default function EditClientPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Edit Client",
+        description: id,
+        icon: BracketsIcon,
+      }}
+    >
+      <RequirePermission permission="clients:write" backHref={`/client/${id}`}>
+        <EditClient clientId={id} />
+      </RequirePermission>
+    </DashboardPageLayout>
+  );
+}
+
+function EditClient({ clientId }: { clientId: string }) {
+  const router = useRouter();
+  const input = { clientId };
+  // Same key as the detail page, so coming from there renders instantly.
+  const queryKey = buildQueryKey(endpointKey(endpoints.clients.details), input);
+  const changeStatus = useClientStatusChange(queryKey);
+
+  const { data, loading, error, refetch } = useApiQuery({
+    queryKey,
+    fetcher: (signal) => callApi(endpoints.clients.details, input, { signal }),
+  });
+
+  const client = data?.client;
+
+  if (loading) {
+    return (
+      <div className="max-w-2xl bg-card border border-border rounded-xl p-6 space-y-6 animate-pulse">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <div key={i} className="space-y-2">
+            <div className="h-4 bg-input rounded w-1/4" />
+            <div className="h-11 bg-input rounded" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (!client) {
+    return (
+      <div className="rounded-lg border border-destructive bg-destructive/10 p-6 text-destructive font-mono text-sm">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="w-2 h-2 bg-destructive rounded-full animate-pulse"></div>
+          <span>DATA_FETCH_ERROR</span>
+        </div>
+        {error}
+        <div className="mt-4">
+          <button
+            onClick={refetch}
+            className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200 font-mono text-sm"
+          >
+            RETRY_CONNECTION
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const status = CLIENT_STATUSES.find((s) => s === client.status) ?? "new";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <h1 className="font-display text-3xl md:text-4xl text-foreground">
+            EDIT_CLIENT
+          </h1>
+          <div className="flex items-center gap-3 text-muted-foreground font-mono text-sm">
+            <span>STATUS:</span>
+            <ClientStatusMenu
+              status={client.status}
+              onChange={(next, note) => changeStatus(client, next, note)}
+            />
+          </div>
+        </div>
+
+        <Link
+          href={`/client/${client._id}`}
+          className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+        >
+          BACK_TO_CLIENT
+        </Link>
+      </div>
+
+      <div className="max-w-2xl bg-card border border-border rounded-xl p-6">
+        <ClientForm
+          statuses={[]}
+          defaultValues={{
+            name: client.name,
+            mobile_number: client.mobile_number,
+            email: client.email,
+            message: client.message ?? "",
+            status,
+          }}
+          submitLabel="SAVE_CHANGES"
+          pendingLabel="SAVING..."
+          onSubmit={async ({ name, mobile_number, email, message }) => {
+            await callApi(endpoints.clients.edit, {
+              clientId: client._id,
+              name,
+              mobile_number,
+              email,
+              message,
+            });
+            router.replace(`/client/${client._id}`);
+          }}
+          onCancel={() => router.back()}
+        />
+      </div>
+    </div>
+  );
+}
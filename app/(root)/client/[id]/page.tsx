@@ -0,0 +1,441 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import RequirePermission from "@/components/auth/require-permission";
+import ClientStatusMenu from "@/components/dashboard/client-status-menu";
+import DashboardPageLayout from "@/components/dashboard/layout";
+import BracketsIcon from "@/components/icons/brackets";
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import { isApiError } from "@/lib/apiClient";
+import { withClientFilters } from "@/lib/client-filters";
+import { usePermission } from "@/lib/current-user-context";
+import { buildQueryKey } from "@/lib/query-cache";
+import type { Client } from "@/lib/schemas";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useClientStatusChange } from "@/hooks/use-client-status-change";
+
+type TimelineEvent = {
+  at: string;
+  label: string;
+  detail?: string;
+  tone: "primary" | "success" | "warning" | "muted";
+};
+
+export default function ClientDetailPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Client",
+        description: id,
+        icon: BracketsIcon,
+      }}
+    >
+      <RequirePermission permission="clients:read" backHref="/client">
+        <ClientDetail clientId={id} />
+      </RequirePermission>
+    </DashboardPageLayout>
+  );
+}
+
+function ClientDetail({ clientId }: { clientId: string }) {
+  const canWrite = usePermission("clients:write");
+  const input = { clientId };
+  const queryKey = buildQueryKey(endpointKey(endpoints.clients.details), input);
+  const changeStatus = useClientStatusChange(queryKey);
+
+  const { data, loading, refreshing, error, rawError, refetch } = useApiQuery({
+    queryKey,
+    fetcher: (signal) => callApi(endpoints.clients.details, input, { signal }),
+  });
+
+  const client = data?.client;
+
+  if (loading) return <DetailSkeleton />;
+
+  if (!client) {
+    const notFound = isApiError(rawError) && rawError.status === 404;
+    return (
+      <div className="rounded-lg border border-destructive bg-destructive/10 p-6 text-destructive font-mono text-sm">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="w-2 h-2 bg-destructive rounded-full animate-pulse"></div>
+          <span>{notFound ? "CLIENT_NOT_FOUND" : "DATA_FETCH_ERROR"}</span>
+        </div>
+        {error}
+        <div className="mt-4 flex gap-3">
+          {!notFound && (
+            <button
+              onClick={refetch}
+              className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200 font-mono text-sm"
+            >
+              RETRY_CONNECTION
+            </button>
+          )}
+          <Link
+            href="/client"
+            className="px-4 py-2 bg-pop text-foreground rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 font-mono text-sm"
+          >
+            BACK_TO_CLIENTS
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <div className="flex items-center gap-3">
+            <h1 className="font-display text-3xl md:text-4xl text-foreground">
+              {client.name}
+            </h1>
+            <ClientStatusMenu
+              status={client.status}
+              onChange={(status, note) => changeStatus(client, status, note)}
+            />
+          </div>
+          <p className="text-muted-foreground font-mono text-sm">
+            CLIENT_ID: {client._id}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={refetch}
+            disabled={refreshing}
+            className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+          >
+            {refreshing ? "REFRESHING..." : "REFRESH"}
+          </button>
+          <Link
+            href={`/client/${client._id}/edit`}
+            aria-disabled={!canWrite}
+            tabIndex={canWrite ? undefined : -1}
+            className={`px-4 py-2.5 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 ${
+              canWrite ? "" : "pointer-events-none opacity-50"
+            }`}
+          >
+            EDIT_CLIENT
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2 space-y-6">
+          <ContactPanel client={client} />
+          <LoginSessionPanel client={client} />
+        </div>
+        <TimelinePanel client={client} />
+      </div>
+    </div>
+  );
+}
+
+function Panel({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="bg-card border border-border rounded-xl">
+      <h2 className="px-6 py-4 border-b border-border bg-pop rounded-t-xl text-muted-foreground font-mono font-medium text-xs uppercase tracking-wider">
+        {title}
+      </h2>
+      <div className="p-6">{children}</div>
+    </section>
+  );
+}
+
+function Field({
+  label,
+  value,
+  copyable,
+  children,
+}: {
+  label: string;
+  value?: string;
+  copyable?: boolean;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-1">
+      <dt className="text-xs font-mono text-muted-foreground">{label}</dt>
+      <dd className="flex items-center gap-2 font-mono text-sm text-foreground break-all">
+        {children ?? value ?? "—"}
+        {copyable && value && <CopyButton value={value} />}
+      </dd>
+    </div>
+  );
+}
+
+function CopyButton({ value }: { value: string }) {
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <button
+      type="button"
+      onClick={async () => {
+        try {
+          await navigator.clipboard.writeText(value);
+          setCopied(true);
+          setTimeout(() => setCopied(false), 1500);
+        } catch {
+          // Clipboard can be blocked (insecure origin, permissions); the
+          // value is still selectable on the page.
+        }
+      }}
+      className="shrink-0 px-2 py-0.5 bg-pop text-muted-foreground rounded border border-border hover:text-foreground transition-all duration-200 text-[10px] font-mono"
+    >
+      {copied ? "COPIED" : "COPY"}
+    </button>
+  );
+}
+
+function ContactPanel({ client }: { client: Client }) {
+  return (
+    <Panel title="CLIENT_RECORD">
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Field label="EMAIL" value={client.email} copyable />
+        <Field label="MOBILE_NUMBER" value={client.mobile_number} copyable />
+        <Field label="CREATED_AT" value={formatDateTime(client.createdAt)} />
+        <Field label="UPDATED_AT" value={formatDateTime(client.updatedAt)} />
+        <div className="md:col-span-2">
+          <Field label="MESSAGE">
+            {client.message ? (
+              <p className="whitespace-pre-wrap break-words">
+                {client.message}
+              </p>
+            ) : undefined}
+          </Field>
+        </div>
+      </dl>
+    </Panel>
+  );
+}
+
+function LoginSessionPanel({ client }: { client: Client }) {
+  const session = client.meta?.login_session;
+  const history = client.meta?.login_session_history ?? [];
+  const location = session?.location;
+  const place = [location?.city, location?.region, location?.country]
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <Panel title="LOGIN_SESSION_FORENSICS">
+      {!session && !client.meta?.ray_id ? (
+        <p className="text-muted-foreground font-mono text-sm">
+          NO_SESSION_METADATA_RECORDED
+        </p>
+      ) : (
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Field label="IP_ADDRESS" value={location?.ip} copyable />
+          <Field label="RAY_ID" value={client.meta?.ray_id} copyable />
+          <Field label="LOCATION" value={place || undefined} />
+          <Field label="COUNTRY">
+            {location?.country ? (
+              <Link
+                href={`/client${withClientFilters("", {
+                  country: location.country,
+                })}`}
+                className="underline underline-offset-4 hover:text-primary"
+              >
+                {location.country}
+              </Link>
+            ) : undefined}
+          </Field>
+          <Field label="FROM_ROUTE">
+            {session?.from_route ? (
+              <Link
+                href={`/client${withClientFilters("", {
+                  from_route: session.from_route,
+                })}`}
+                className="underline underline-offset-4 hover:text-primary"
+              >
+                {session.from_route}
+              </Link>
+            ) : undefined}
+          </Field>
+          <Field
+            label="SUBMITTED_AT"
+            value={
+              session?.submitted_at
+                ? formatDateTime(session.submitted_at)
+                : undefined
+            }
+          />
+        </dl>
+      )}
+
+      {history.length > 0 && (
+        <div className="mt-6 pt-6 border-t border-border">
+          <div className="text-xs font-mono text-muted-foreground mb-3">
+            MERGED_SESSIONS ({history.length})
+          </div>
+          <ul className="space-y-2 font-mono text-xs">
+            {history.map((merged, i) => (
+              <li
+                key={i}
+                className="flex flex-wrap gap-x-4 gap-y-1 text-foreground"
+              >
+                <span>{merged.from_route || "—"}</span>
+                <span className="text-muted-foreground">
+                  {[merged.location?.country, merged.location?.ip]
+                    .filter(Boolean)
+                    .join(" // ")}
+                </span>
+                <span className="text-muted-foreground">
+                  {merged.submitted_at
+                    ? formatDateTime(merged.submitted_at)
+                    : ""}
+                </span>
+                <span className="text-muted-foreground">
+                  FROM {merged.source_client_id}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Panel>
+  );
+}
+
+function TimelinePanel({ client }: { client: Client }) {
+  const events = buildTimeline(client);
+  const toneColors = {
+    primary: "bg-primary",
+    success: "bg-success",
+    warning: "bg-warning",
+    muted: "bg-muted-foreground",
+  } as const;
+
+  return (
+    <Panel title="ACTIVITY_TIMELINE">
+      <ol className="relative border-l border-border ml-1.5 space-y-6">
+        {events.map((event, i) => (
+          <li key={i} className="ml-5">
+            <span
+              className={`absolute -left-1.5 mt-1 w-3 h-3 rounded-full ring-4 ring-card ${
+                toneColors[event.tone]
+              }`}
+            />
+            <div className="font-mono text-sm text-foreground">
+              {event.label}
+            </div>
+            <time className="block text-xs font-mono text-muted-foreground">
+              {formatDateTime(event.at)}
+            </time>
+            {event.detail && (
+              <p className="mt-1 text-xs font-mono text-muted-foreground whitespace-pre-wrap">
+                {event.detail}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </Panel>
+  );
+}
+
+// Newest first. `updatedAt` only gets its own entry when no status change
+// already accounts for it.
+function buildTimeline(client: Client): TimelineEvent[] {
+  const events: TimelineEvent[] = [
+    { at: client.createdAt, label: "CLIENT_CREATED", tone: "primary" },
+  ];
+
+  const session = client.meta?.login_session;
+  if (session?.submitted_at) {
+    events.push({
+      at: session.submitted_at,
+      label: "FORM_SUBMITTED",
+      detail: session.from_route ? `VIA ${session.from_route}` : undefined,
+      tone: "muted",
+    });
+  }
+
+  for (const merged of client.meta?.login_session_history ?? []) {
+    if (!merged.submitted_at) continue;
+    events.push({
+      at: merged.submitted_at,
+      label: "FORM_SUBMITTED (MERGED_RECORD)",
+      detail: merged.from_route ? `VIA ${merged.from_route}` : undefined,
+      tone: "muted",
+    });
+  }
+
+  for (const change of client.status_history ?? []) {
+    events.push({
+      at: change.changed_at,
+      label: `STATUS: ${(
+        change.from ?? "—"
+      ).toUpperCase()} → ${change.to.toUpperCase()}`,
+      detail:
+        [change.changed_by && `BY ${change.changed_by}`, change.note]
+          .filter(Boolean)
+          .join("\n") || undefined,
+      tone: change.to === "closed" ? "muted" : "success",
+    });
+  }
+
+  const updatedAt = Date.parse(client.updatedAt);
+  const explained = events.some((e) => Date.parse(e.at) >= updatedAt);
+  if (!explained) {
+    events.push({
+      at: client.updatedAt,
+      label: "RECORD_UPDATED",
+      tone: "warning",
+    });
+  }
+
+  return events.sort((a, b) => Date.parse(b.at) - Date.parse(a.at));
+}
+
+function formatDateTime(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+function DetailSkeleton() {
+  return (
+    <div className="space-y-6 animate-pulse">
+      <div className="pb-6 border-b border-border space-y-3">
+        <div className="h-9 bg-input rounded w-1/3" />
+        <div className="h-4 bg-input rounded w-1/4" />
+      </div>
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2 space-y-6">
+          {Array.from({ length: 2 }).map((_, i) => (
+            <div
+              key={i}
+              className="bg-card border border-border rounded-xl p-6 grid grid-cols-2 gap-6"
+            >
+              {Array.from({ length: 4 }).map((_, j) => (
+                <div key={j} className="space-y-2">
+                  <div className="h-3 bg-input rounded w-1/3" />
+                  <div className="h-4 bg-input rounded w-2/3" />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="bg-card border border-border rounded-xl p-6 space-y-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <div key={i} className="space-y-2">
+              <div className="h-4 bg-input rounded w-3/4" />
+              <div className="h-3 bg-input rounded w-1/2" />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
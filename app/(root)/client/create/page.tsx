@@ -1,34 +1,57 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import RequirePermission from "@/components/auth/require-permission";
+import ClientForm from "@/components/dashboard/client-form";
 import DashboardPageLayout from "@/components/dashboard/layout";
 import BracketsIcon from "@/components/icons/brackets";
-import GearIcon from "@/components/icons/gear";
-import ProcessorIcon from "@/components/icons/proccesor";
-import BoomIcon from "@/components/icons/boom";
-import mockDataJson from "@/mock.json";
-import type { MockData } from "@/types/dashboard";
-
-const mockData = mockDataJson as MockData;
-
-// Icon mapping
-const iconMap = {
-  gear: GearIcon,
-  proccesor: ProcessorIcon,
-  boom: BoomIcon,
-};
+import { callApi, endpoints } from "@/lib/api";
 
 export default function CreateClient() {
+  const router = useRouter();
+
   return (
     <DashboardPageLayout
       header={{
         title: "Create Client",
-        description: "Last updated 12:05",
+        description: "Register a new client",
         icon: BracketsIcon,
       }}
     >
-      <div className="flex justify-between items-center py-5 border-b ">
-        <h3 className="text-3xl">Client Creation</h3>
+      <div className="flex items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <h1 className="font-display text-3xl md:text-4xl text-foreground">
+            CREATE_CLIENT
+          </h1>
+          <p className="text-muted-foreground font-mono text-sm">
+            REGISTER_A_NEW_CLIENT_RECORD
+          </p>
+        </div>
+
+        <Link
+          href="/client"
+          className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+        >
+          BACK_TO_CLIENTS
+        </Link>
       </div>
 
-      <div></div>
+      <RequirePermission permission="clients:write" backHref="/client">
+        <div className="max-w-2xl py-6">
+          <div className="bg-card border border-border rounded-xl p-6">
+            <ClientForm
+              submitLabel="CREATE_CLIENT"
+              pendingLabel="CREATING_CLIENT..."
+              onSubmit={async (values) => {
+                await callApi(endpoints.clients.create, values);
+                router.replace("/client");
+              }}
+              onCancel={() => router.back()}
+            />
+          </div>
+        </div>
+      </RequirePermission>
     </DashboardPageLayout>
   );
 }
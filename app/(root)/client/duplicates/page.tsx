@@ -0,0 +1,199 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import RequirePermission from "@/components/auth/require-permission";
+import ClientMergePanel from "@/components/dashboard/client-merge";
+import DashboardPageLayout from "@/components/dashboard/layout";
+import BracketsIcon from "@/components/icons/brackets";
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import {
+  findDuplicateGroups,
+  type DuplicateReason,
+} from "@/lib/client-duplicates";
+import { walkPages } from "@/lib/export";
+import { MAX_LIMIT } from "@/lib/pagination";
+import { buildQueryKey } from "@/lib/query-cache";
+import type { Client } from "@/lib/schemas";
+import { useApiQuery } from "@/hooks/use-api-query";
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  email: "SAME_EMAIL",
+  mobile: "SAME_MOBILE",
+  name: "SIMILAR_NAME",
+};
+
+export default function ClientDuplicatesPage() {
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Duplicates",
+        description: "Find and merge duplicate clients",
+        icon: BracketsIcon,
+      }}
+    >
+      <div className="flex items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <h1 className="font-display text-3xl md:text-4xl text-foreground">
+            DUPLICATE_CLIENTS
+          </h1>
+          <p className="text-muted-foreground font-mono text-sm">
+            GROUPED_BY_EMAIL_MOBILE_AND_SIMILAR_NAMES
+          </p>
+        </div>
+
+        <Link
+          href="/client"
+          className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+        >
+          BACK_TO_CLIENTS
+        </Link>
+      </div>
+
+      <RequirePermission permission="clients:merge" backHref="/client">
+        <DuplicateGroups />
+      </RequirePermission>
+    </DashboardPageLayout>
+  );
+}
+
+// Keyed under the list endpoint so merges (which invalidate it) refetch.
+const allClientsKey = buildQueryKey(endpointKey(endpoints.clients.list), {
+  all: true,
+});
+
+async function fetchAllClients(signal: AbortSignal) {
+  const clients: Client[] = [];
+  const pages = walkPages(async (page, pageSignal) => {
+    const { clients, pagination } = await callApi(
+      endpoints.clients.list,
+      { page, limit: MAX_LIMIT },
+      { signal: pageSignal }
+    );
+    return { items: clients, totalPages: pagination.totalPages };
+  }, signal);
+  for await (const page of pages) clients.push(...page.items);
+  return clients;
+}
+
+function DuplicateGroups() {
+  const [matchNames, setMatchNames] = useState(true);
+  const [openGroup, setOpenGroup] = useState<string | null>(null);
+
+  const { data, loading, refreshing, error, refetch } = useApiQuery({
+    queryKey: allClientsKey,
+    fetcher: fetchAllClients,
+  });
+
+  const groups = useMemo(
+    () => (data ? findDuplicateGroups(data, { matchNames }) : []),
+    [data, matchNames]
+  );
+
+  if (loading) {
+    return (
+      <div className="py-12 text-center text-muted-foreground font-mono text-sm animate-pulse">
+        SCANNING_ALL_CLIENTS...
+      </div>
+    );
+  }
+
+  if (error && !data) {
+    return (
+      <div className="mt-6 rounded-lg border border-destructive bg-destructive/10 p-6 text-destructive font-mono text-sm">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="w-2 h-2 bg-destructive rounded-full animate-pulse"></div>
+          <span>DATA_FETCH_ERROR</span>
+        </div>
+        {error}
+        <div className="mt-4">
+          <button
+            onClick={refetch}
+            className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200 font-mono text-sm"
+          >
+            RETRY_CONNECTION
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-6 space-y-6 font-mono">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={matchNames}
+            onChange={(e) => setMatchNames(e.target.checked)}
+          />
+          MATCH_SIMILAR_NAMES
+        </label>
+        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+          <span>
+            {groups.length} GROUPS // {data?.length ?? 0} CLIENTS_SCANNED
+          </span>
+          <button
+            type="button"
+            onClick={refetch}
+            disabled={refreshing}
+            className="px-4 py-2.5 bg-pop text-foreground text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+          >
+            {refreshing ? "RESCANNING..." : "RESCAN"}
+          </button>
+        </div>
+      </div>
+
+      {groups.length === 0 && (
+        <div className="rounded-lg border border-border bg-pop p-8 text-center text-muted-foreground">
+          <div className="text-2xl">NO_DUPLICATES_FOUND</div>
+        </div>
+      )}
+
+      {groups.map((group) => (
+        <div
+          key={group.id}
+          className="bg-card border border-border rounded-xl p-6 space-y-4"
+        >
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="space-y-1">
+              <div className="text-foreground">
+                {group.clients.map((c) => c.name).join(" / ")}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <span className="px-2 py-0.5 rounded text-xs bg-pop border border-border text-muted-foreground">
+                  {group.clients.length} RECORDS
+                </span>
+                {group.reasons.map((reason) => (
+                  <span
+                    key={reason}
+                    className="px-2 py-0.5 rounded text-xs bg-warning/10 border border-warning text-warning"
+                  >
+                    {REASON_LABELS[reason]}
+                  </span>
+                ))}
+              </div>
+            </div>
+            {openGroup !== group.id && (
+              <button
+                type="button"
+                onClick={() => setOpenGroup(group.id)}
+                className="px-4 py-2 bg-primary text-primary-foreground text-sm rounded-lg border border-border hover:bg-primary/90 transition-all duration-200"
+              >
+                REVIEW_AND_MERGE
+              </button>
+            )}
+          </div>
+
+          {openGroup === group.id && (
+            <ClientMergePanel
+              clients={group.clients}
+              onMerged={() => setOpenGroup(null)}
+              onCancel={() => setOpenGroup(null)}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
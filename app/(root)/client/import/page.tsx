@@ -0,0 +1,43 @@
+"use client";
+
+import Link from "next/link";
+import RequirePermission from "@/components/auth/require-permission";
+import ClientImportWizard from "@/components/dashboard/client-import-wizard";
+import DashboardPageLayout from "@/components/dashboard/layout";
+import BracketsIcon from "@/components/icons/brackets";
+
+export default function ImportClients() {
+  return (
+    <DashboardPageLayout
+      header={{
+        title: "Import Clients",
+        description: "Bulk create clients from CSV",
+        icon: BracketsIcon,
+      }}
+    >
+      <div className="flex items-center justify-between gap-4 pb-6 border-b border-border">
+        <div className="space-y-2">
+          <h1 className="font-display text-3xl md:text-4xl text-foreground">
+            IMPORT_CLIENTS
+          </h1>
+          <p className="text-muted-foreground font-mono text-sm">
+            CREATE_CLIENT_RECORDS_FROM_A_SPREADSHEET
+          </p>
+        </div>
+
+        <Link
+          href="/client"
+          className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+        >
+          BACK_TO_CLIENTS
+        </Link>
+      </div>
+
+      <RequirePermission permission="clients:write" backHref="/client">
+        <div className="py-6">
+          <ClientImportWizard />
+        </div>
+      </RequirePermission>
+    </DashboardPageLayout>
+  );
+}
@@ -1,52 +1,35 @@
 // app/(dashboard)/overview/page.tsx
 "use client";
 
-import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import { Suspense, useCallback, useMemo, useState } from "react";
 import Link from "next/link";
-import { useRouter, useSearchParams } from "next/navigation";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import ClientBulkActions from "@/components/dashboard/client-bulk-actions";
+import ClientFilterBar from "@/components/dashboard/client-filters";
+import ClientStatusMenu from "@/components/dashboard/client-status-menu";
+import ExportDialog from "@/components/dashboard/export-dialog";
 import DashboardPageLayout from "@/components/dashboard/layout";
+import ListPagination, {
+  LimitSelect,
+} from "@/components/dashboard/list-pagination";
 import BracketsIcon from "@/components/icons/brackets";
 import { Button } from "@/components/ui/button";
-import { apiClient } from "@/lib/apiClient";
-
-type Client = {
-  _id: string;
-  name: string;
-  mobile_number: string;
-  email: string;
-  message?: string;
-  status: "new" | "active" | "closed" | string;
-  meta?: {
-    ray_id?: string;
-    login_session?: {
-      from_route?: string;
-      submitted_at?: string;
-      location?: {
-        country?: string;
-        region?: string;
-        city?: string;
-        ip?: string;
-      };
-    };
-  };
-  createdAt: string;
-  updatedAt: string;
-};
-
-type Pagination = {
-  totalItems: number;
-  totalPages: number;
-  currentPage: number;
-  limit: number;
-  hasNextPage: boolean;
-  hasPrevPage: boolean;
-};
-
-type ApiSuccess = {
-  message: string;
-  status: "SUCCESS";
-  data: { clients: Client[]; pagination: Pagination };
-};
+import { Checkbox } from "@/components/ui/checkbox";
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import {
+  hasActiveClientFilters,
+  nextClientSort,
+  parseClientFilters,
+  withClientFilters,
+  type ClientFilters,
+  type ClientSortField,
+} from "@/lib/client-filters";
+import { CLIENT_EXPORT_COLUMNS } from "@/lib/export";
+import { MAX_LIMIT } from "@/lib/pagination";
+import type { Client } from "@/lib/schemas";
+import { usePermission } from "@/lib/current-user-context";
+import { useClientStatusChange } from "@/hooks/use-client-status-change";
+import { usePaginatedResource } from "@/hooks/use-paginated-resource";
 
 export default function DashboardOverview() {
   return (
@@ -57,59 +40,81 @@ export default function DashboardOverview() {
 }
 
 function DashboardOverviewInner() {
-  const sp = useSearchParams();
+  const canWrite = usePermission("clients:write");
+  const canMerge = usePermission("clients:merge");
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = useMemo(
+    () => parseClientFilters(searchParams),
+    [searchParams]
+  );
+  const isFiltered = hasActiveClientFilters(filters);
+
+  const updateFilters = useCallback(
+    (patch: Partial<ClientFilters>) =>
+      router.replace(`${pathname}${withClientFilters(searchParams, patch)}`),
+    [router, pathname, searchParams]
+  );
 
-  const page = useMemo(() => {
-    const n = Number(sp.get("page") ?? 1);
-    return Number.isFinite(n) && n > 0 ? n : 1;
-  }, [sp]);
+  const {
+    queryKey,
+    data,
+    loading,
+    refreshing,
+    error,
+    limit,
+    setPage,
+    setLimit,
+    hrefForPage,
+    refetch: fetchClients,
+  } = usePaginatedResource({
+    queryKey: endpointKey(endpoints.clients.list),
+    params: filters,
+    defaultLimit: 10,
+    fetcher: (request, signal) =>
+      callApi(endpoints.clients.list, request, { signal }),
+  });
 
-  const limit = useMemo(() => {
-    const n = Number(sp.get("limit") ?? 10);
-    return Number.isFinite(n) && n > 0 ? n : 10;
-  }, [sp]);
+  const changeStatus = useClientStatusChange(queryKey);
 
-  const [clients, setClients] = useState<Client[]>([]);
-  const [pagination, setPagination] = useState<Pagination | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  const clients = data?.clients ?? [];
+  const pagination = data?.pagination ?? null;
 
-  const fetchClients = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      // If your apiClient BASE = http://localhost:8850/api
-      // then call "/client/all" (NOT "/api/client/all")
-      const res = (await apiClient.post("/api/client/all", {
-        page,
-        limit,
-      })) as ApiSuccess;
-      setClients(res.data.clients);
-      setPagination(res.data.pagination);
-    } catch (e: any) {
-      setError(e?.message || "Failed to fetch clients");
-    } finally {
-      setLoading(false);
-    }
-  }, [page, limit]);
+  // Keyed by id and kept across page/filter changes so a selection can be
+  // built up over several pages before acting on it.
+  const [selection, setSelection] = useState<Map<string, Client>>(
+    () => new Map()
+  );
+  const pageSelected = clients.filter((c) => selection.has(c._id)).length;
+  const allOnPageSelected =
+    clients.length > 0 && pageSelected === clients.length;
 
-  useEffect(() => {
-    fetchClients();
-  }, [fetchClients]);
+  const toggleRow = (client: Client, checked: boolean) =>
+    setSelection((prev) => {
+      const next = new Map(prev);
+      if (checked) next.set(client._id, client);
+      else next.delete(client._id);
+      return next;
+    });
 
-  const changePage = (p: number) => {
-    const params = new URLSearchParams(sp.toString());
-    params.set("page", String(p));
-    router.replace(`?${params.toString()}`);
-  };
+  const togglePage = (checked: boolean) =>
+    setSelection((prev) => {
+      const next = new Map(prev);
+      for (const c of clients) {
+        if (checked) next.set(c._id, c);
+        else next.delete(c._id);
+      }
+      return next;
+    });
 
-  const changeLimit = (l: number) => {
-    const params = new URLSearchParams(sp.toString());
-    params.set("limit", String(l));
-    params.set("page", "1");
-    router.replace(`?${params.toString()}`);
-  };
+  const deselect = (ids: string[]) =>
+    setSelection((prev) => {
+      const next = new Map(prev);
+      ids.forEach((id) => next.delete(id));
+      return next;
+    });
 
   return (
     <DashboardPageLayout
@@ -130,37 +135,70 @@ function DashboardOverviewInner() {
           </p>
         </div>
 
-        <Link
-          href={"/client/create"}
-          className="px-6 py-3 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200"
-        >
-          CREATE_CLIENT
-        </Link>
+        <div className="flex items-center gap-3">
+          <Link
+            href={"/client/duplicates"}
+            aria-disabled={!canMerge}
+            tabIndex={canMerge ? undefined : -1}
+            className={`px-6 py-3 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 ${
+              canMerge ? "" : "pointer-events-none opacity-50"
+            }`}
+          >
+            FIND_DUPLICATES
+          </Link>
+          <Link
+            href={"/client/import"}
+            aria-disabled={!canWrite}
+            tabIndex={canWrite ? undefined : -1}
+            className={`px-6 py-3 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 ${
+              canWrite ? "" : "pointer-events-none opacity-50"
+            }`}
+          >
+            IMPORT_CSV
+          </Link>
+          <Link
+            href={"/client/create"}
+            aria-disabled={!canWrite}
+            tabIndex={canWrite ? undefined : -1}
+            className={`px-6 py-3 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 ${
+              canWrite ? "" : "pointer-events-none opacity-50"
+            }`}
+          >
+            CREATE_CLIENT
+          </Link>
+        </div>
       </div>
 
       {/* Controls */}
       <div className="py-6 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 border-b border-border">
         <div className="flex items-center gap-3">
-          <select
-            className="bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
+          <LimitSelect
             value={limit}
-            onChange={(e) => changeLimit(Number(e.target.value))}
-          >
-            {[5, 10, 20, 50].map((n) => (
-              <option key={n} value={n} className="font-mono">
-                {n} / PAGE
-              </option>
-            ))}
-          </select>
+            options={[5, 10, 20, 50]}
+            onChange={setLimit}
+          />
 
           <Button
             onClick={fetchClients}
-            disabled={loading}
+            disabled={loading || refreshing}
             variant="secondary"
             className="font-mono"
           >
-            {loading ? "REFRESHING..." : "REFRESH_DATA"}
+            {loading || refreshing ? "REFRESHING..." : "REFRESH_DATA"}
           </Button>
+
+          <ExportDialog
+            resource="clients"
+            columns={CLIENT_EXPORT_COLUMNS}
+            fetchPage={async (page, signal) => {
+              const { clients, pagination } = await callApi(
+                endpoints.clients.list,
+                { ...filters, page, limit: MAX_LIMIT },
+                { signal }
+              );
+              return { items: clients, totalPages: pagination.totalPages };
+            }}
+          />
         </div>
 
         {pagination && (
@@ -170,6 +208,16 @@ function DashboardOverviewInner() {
         )}
       </div>
 
+      <ClientFilterBar filters={filters} onChange={updateFilters} />
+
+      {selection.size > 0 && (
+        <ClientBulkActions
+          selected={Array.from(selection.values())}
+          onClear={() => setSelection(new Map())}
+          onSettled={deselect}
+        />
+      )}
+
       {/* Loading */}
       {loading && <TableSkeleton />}
 
@@ -193,7 +241,16 @@ function DashboardOverviewInner() {
       )}
 
       {/* Empty */}
-      {!loading && !error && clients.length === 0 && (
+      {!loading && !error && clients.length === 0 && isFiltered && (
+        <div className="rounded-lg border border-border bg-pop p-8 text-center">
+          <div className="text-muted-foreground font-mono space-y-3">
+            <div className="text-2xl">NO_MATCHING_CLIENTS</div>
+            <div className="text-sm">ADJUST_OR_CLEAR_THE_FILTERS_ABOVE</div>
+          </div>
+        </div>
+      )}
+
+      {!loading && !error && clients.length === 0 && !isFiltered && (
         <div className="rounded-lg border border-border bg-pop p-8 text-center">
           <div className="text-muted-foreground font-mono space-y-3">
             <div className="text-2xl">NO_CLIENTS_FOUND</div>
@@ -202,7 +259,11 @@ function DashboardOverviewInner() {
             </div>
             <Link
               href="/client/create"
-              className="inline-block px-6 py-3 bg-primary text-primary-foreground font-mono rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 mt-4"
+              aria-disabled={!canWrite}
+              tabIndex={canWrite ? undefined : -1}
+              className={`inline-block px-6 py-3 bg-primary text-primary-foreground font-mono rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 mt-4 ${
+                canWrite ? "" : "pointer-events-none opacity-50"
+              }`}
             >
               CREATE_CLIENT
             </Link>
@@ -217,21 +278,56 @@ function DashboardOverviewInner() {
             <table className="min-w-full font-mono text-sm">
               <thead className="bg-pop border-b border-border">
                 <tr>
-                  <th className="text-left px-6 py-4 text-muted-foreground font-medium text-xs uppercase tracking-wider">
-                    CLIENT_INFO
+                  <th className="pl-6 py-4 w-4">
+                    <Checkbox
+                      aria-label="SELECT_PAGE"
+                      checked={
+                        allOnPageSelected
+                          ? true
+                          : pageSelected > 0
+                          ? "indeterminate"
+                          : false
+                      }
+                      onCheckedChange={(checked) =>
+                        togglePage(checked === true)
+                      }
+                    />
                   </th>
-                  <th className="text-left px-6 py-4 text-muted-foreground font-medium text-xs uppercase tracking-wider">
+                  <SortableHeader
+                    field="name"
+                    filters={filters}
+                    onSort={updateFilters}
+                  >
+                    CLIENT_INFO
+                  </SortableHeader>
+                  <SortableHeader
+                    field="email"
+                    filters={filters}
+                    onSort={updateFilters}
+                  >
                     CONTACT
-                  </th>
-                  <th className="text-left px-6 py-4 text-muted-foreground font-medium text-xs uppercase tracking-wider">
+                  </SortableHeader>
+                  <SortableHeader
+                    field="status"
+                    filters={filters}
+                    onSort={updateFilters}
+                  >
                     STATUS
-                  </th>
-                  <th className="text-left px-6 py-4 text-muted-foreground font-medium text-xs uppercase tracking-wider">
+                  </SortableHeader>
+                  <SortableHeader
+                    field="from_route"
+                    filters={filters}
+                    onSort={updateFilters}
+                  >
                     SOURCE
-                  </th>
-                  <th className="text-left px-6 py-4 text-muted-foreground font-medium text-xs uppercase tracking-wider">
+                  </SortableHeader>
+                  <SortableHeader
+                    field="submitted_at"
+                    filters={filters}
+                    onSort={updateFilters}
+                  >
                     SUBMITTED
-                  </th>
+                  </SortableHeader>
                   <th className="text-left px-6 py-4 text-muted-foreground font-medium text-xs uppercase tracking-wider">
                     ACTIONS
                   </th>
@@ -241,8 +337,18 @@ function DashboardOverviewInner() {
                 {clients.map((c) => (
                   <tr
                     key={c._id}
-                    className="hover:bg-pop/50 transition-all duration-150"
+                    data-state={selection.has(c._id) ? "selected" : undefined}
+                    className="hover:bg-pop/50 data-[state=selected]:bg-primary/5 transition-all duration-150"
                   >
+                    <td className="pl-6 py-4 w-4">
+                      <Checkbox
+                        aria-label={`SELECT ${c.name}`}
+                        checked={selection.has(c._id)}
+                        onCheckedChange={(checked) =>
+                          toggleRow(c, checked === true)
+                        }
+                      />
+                    </td>
                     <td className="px-6 py-4">
                       <div className="font-medium text-foreground">
                         {c.name}
@@ -260,7 +366,12 @@ function DashboardOverviewInner() {
                       </div>
                     </td>
                     <td className="px-6 py-4">
-                      <StatusBadge status={c.status} />
+                      <ClientStatusMenu
+                        status={c.status}
+                        onChange={(status, note) =>
+                          changeStatus(c, status, note)
+                        }
+                      />
                     </td>
                     <td className="px-6 py-4">
                       <div className="text-foreground text-sm">
@@ -298,7 +409,11 @@ function DashboardOverviewInner() {
                         </Link>
                         <Link
                           href={`/client/${c._id}/edit`}
-                          className="px-3 py-1.5 bg-pop text-foreground rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 text-xs font-mono"
+                          aria-disabled={!canWrite}
+                          tabIndex={canWrite ? undefined : -1}
+                          className={`px-3 py-1.5 bg-pop text-foreground rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 text-xs font-mono ${
+                            canWrite ? "" : "pointer-events-none opacity-50"
+                          }`}
                         >
                           EDIT
                         </Link>
@@ -310,62 +425,13 @@ function DashboardOverviewInner() {
             </table>
           </div>
 
-          {/* Pagination */}
-          {pagination && pagination.totalPages > 1 && (
-            <div className="flex flex-col sm:flex-row items-center justify-between gap-4 py-6 border-t border-border">
-              <div className="text-muted-foreground font-mono text-sm">
-                PAGE {pagination.currentPage} OF {pagination.totalPages}
-              </div>
-
-              <div className="flex items-center gap-2">
-                <button
-                  onClick={() =>
-                    changePage(Math.max(1, pagination.currentPage - 1))
-                  }
-                  disabled={!pagination.hasPrevPage}
-                  className="px-4 py-2 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  PREV
-                </button>
-
-                <div className="flex items-center gap-1 mx-2">
-                  {Array.from(
-                    { length: Math.min(5, pagination.totalPages) },
-                    (_, i) => {
-                      const pageNum = i + 1;
-                      return (
-                        <button
-                          key={pageNum}
-                          onClick={() => changePage(pageNum)}
-                          className={`px-3 py-1 font-mono text-sm rounded transition-all duration-200 ${
-                            pageNum === pagination.currentPage
-                              ? "bg-primary text-primary-foreground border border-primary"
-                              : "bg-pop text-foreground border border-border hover:bg-pop/50"
-                          }`}
-                        >
-                          {pageNum}
-                        </button>
-                      );
-                    }
-                  )}
-                </div>
-
-                <button
-                  onClick={() =>
-                    changePage(
-                      Math.min(
-                        pagination.totalPages,
-                        pagination.currentPage + 1
-                      )
-                    )
-                  }
-                  disabled={!pagination.hasNextPage}
-                  className="px-4 py-2 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  NEXT
-                </button>
-              </div>
-            </div>
+          {pagination && (
+            <ListPagination
+              currentPage={pagination.currentPage}
+              totalPages={pagination.totalPages}
+              hrefForPage={hrefForPage}
+              onNavigate={setPage}
+            />
           )}
         </>
       )}
@@ -373,22 +439,40 @@ function DashboardOverviewInner() {
   );
 }
 
-function StatusBadge({ status }: { status: string }) {
-  const statusColors = {
-    new: "bg-warning text-warning-foreground",
-    active: "bg-success text-success-foreground",
-    closed: "bg-muted text-muted-foreground",
-  } as const;
+function SortableHeader({
+  field,
+  filters,
+  onSort,
+  children,
+}: {
+  field: ClientSortField;
+  filters: ClientFilters;
+  onSort: (patch: Partial<ClientFilters>) => void;
+  children: React.ReactNode;
+}) {
+  const active = filters.sort_by === field;
+  const order = active ? filters.sort_order : undefined;
 
-  const color =
-    statusColors[status as keyof typeof statusColors] ||
-    "bg-muted text-muted-foreground";
   return (
-    <span
-      className={`px-3 py-1.5 rounded-lg text-xs font-mono font-medium ${color}`}
+    <th
+      aria-sort={
+        order === "asc" ? "ascending" : order === "desc" ? "descending" : "none"
+      }
+      className="text-left px-6 py-4 text-muted-foreground font-medium text-xs uppercase tracking-wider"
     >
-      {status?.toUpperCase() || "UNKNOWN"}
-    </span>
+      <button
+        type="button"
+        onClick={() => onSort(nextClientSort(filters, field))}
+        className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-foreground transition-colors duration-200 ${
+          active ? "text-foreground" : ""
+        }`}
+      >
+        {children}
+        <span aria-hidden className="w-3">
+          {order === "asc" ? "↑" : order === "desc" ? "↓" : ""}
+        </span>
+      </button>
+    </th>
   );
 }
 
@@ -1,10 +1,13 @@
 // app/master-admin/users/page.tsx
 "use client";
 
-import React, { Suspense, useEffect, useRef, useState } from "react";
+import React, { Suspense } from "react";
 import Link from "next/link";
-import { useRouter, useSearchParams, usePathname } from "next/navigation";
+import ExportDialog from "@/components/dashboard/export-dialog";
 import DashboardPageLayout from "@/components/dashboard/layout";
+import ListPagination, {
+  LimitSelect,
+} from "@/components/dashboard/list-pagination";
 import {
   BracketsIcon,
   Users,
@@ -13,31 +16,12 @@ import {
   Phone,
   Shield,
 } from "lucide-react";
-import { apiClient } from "@/lib/apiClient";
-
-type UserItem = {
-  name: string;
-  email: string;
-  phone_number: string;
-  user_id: string;
-  role: string;
-};
-
-type Workspace = {
-  property_id: string;
-  property_name: string;
-  totalUsers: number;
-  users: UserItem[];
-};
-
-type ApiSuccess = {
-  message: string;
-  status: "SUCCESS";
-  data: {
-    workspaceCount: number;
-    workspaces: Workspace[];
-  };
-};
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import { usePermission } from "@/lib/current-user-context";
+import { USER_EXPORT_COLUMNS, workspaceUserRows } from "@/lib/export";
+import { MAX_LIMIT } from "@/lib/pagination";
+import type { Workspace } from "@/lib/schemas";
+import { usePaginatedResource } from "@/hooks/use-paginated-resource";
 
 export default function UsersWithRolesPage() {
   return (
@@ -48,85 +32,35 @@ export default function UsersWithRolesPage() {
 }
 
 function UsersWithRoles() {
-  const searchParams = useSearchParams();
-  const router = useRouter();
-  const pathname = usePathname();
-
-  const pageParam = Number(searchParams.get("page") ?? 1);
-  const limitParam = Number(searchParams.get("limit") ?? 12);
-
-  const page =
-    Number.isFinite(pageParam) && pageParam > 0 ? Math.floor(pageParam) : 1;
-  const limit =
-    Number.isFinite(limitParam) && limitParam > 0 && limitParam <= 100
-      ? Math.floor(limitParam)
-      : 12;
-
-  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
-  const [workspaceCount, setWorkspaceCount] = useState<number | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const reqIdRef = useRef(0);
-
-  useEffect(() => {
-    const controller = new AbortController();
-    const thisReq = ++reqIdRef.current;
-
-    setLoading(true);
-    setError(null);
-
-    (async () => {
-      try {
-        const url = `/api/master-admin/users-with-roles/fetch?page=${page}&limit=${limit}`;
-        const res = await apiClient.get(url, { signal: controller.signal });
-        const json = res as ApiSuccess;
-
-        if (controller.signal.aborted || reqIdRef.current !== thisReq) return;
-
-        if (!json || json.status !== "SUCCESS" || !json.data) {
-          throw new Error("Invalid API response");
-        }
-
-        setWorkspaces(json.data.workspaces ?? []);
-        setWorkspaceCount(
-          json.data.workspaceCount ?? json.data.workspaces?.length ?? 0
-        );
-      } catch (err: any) {
-        if (err?.name === "AbortError") {
-          return;
-        }
-        setError(err?.message || String(err));
-        setWorkspaces([]);
-        setWorkspaceCount(0);
-      } finally {
-        if (reqIdRef.current === thisReq) setLoading(false);
-      }
-    })();
-
-    return () => {
-      controller.abort();
-    };
-  }, [page, limit]);
+  const canManage = usePermission("users:manage");
+
+  const {
+    data,
+    loading,
+    refreshing,
+    error,
+    page,
+    limit,
+    setPage,
+    setLimit,
+    hrefForPage,
+    refetch,
+  } = usePaginatedResource({
+    queryKey: endpointKey(endpoints.users.withRoles),
+    defaultLimit: 12,
+    fetcher: (request, signal) =>
+      callApi(endpoints.users.withRoles, request, { signal }),
+  });
+
+  const workspaces = data?.workspaces ?? [];
+  const workspaceCount = data
+    ? data.workspaceCount ?? data.workspaces.length
+    : null;
 
   const totalPages = workspaceCount
     ? Math.max(1, Math.ceil(workspaceCount / limit))
     : 1;
 
-  const navigateTo = (p: number) => {
-    const params = new URLSearchParams(Array.from(searchParams.entries()));
-    params.set("page", String(p));
-    params.set("limit", String(limit));
-    router.push(`${pathname}?${params.toString()}`);
-  };
-
-  const changeLimit = (newLimit: number) => {
-    const params = new URLSearchParams(Array.from(searchParams.entries()));
-    params.set("limit", String(newLimit));
-    params.set("page", "1");
-    router.push(`${pathname}?${params.toString()}`);
-  };
-
   const getRoleColor = (role: string) => {
     switch (role.toLowerCase()) {
       case "admin":
@@ -166,7 +100,11 @@ function UsersWithRoles() {
 
           <Link
             href="/master-admin/users/create"
-            className="px-6 py-3 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200"
+            aria-disabled={!canManage}
+            tabIndex={canManage ? undefined : -1}
+            className={`px-6 py-3 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 ${
+              canManage ? "" : "pointer-events-none opacity-50"
+            }`}
           >
             ADD_USER
           </Link>
@@ -232,25 +170,38 @@ function UsersWithRoles() {
         {/* Controls Section */}
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 py-4 border-b border-border">
           <div className="flex items-center gap-3">
-            <select
-              className="bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
+            <LimitSelect
               value={limit}
-              onChange={(e) => changeLimit(Number(e.target.value))}
-            >
-              {[12, 24, 36, 48].map((n) => (
-                <option key={n} value={n} className="font-mono">
-                  {n} / PAGE
-                </option>
-              ))}
-            </select>
+              options={[12, 24, 36, 48]}
+              onChange={setLimit}
+            />
 
             <button
-              onClick={() => window.location.reload()}
-              disabled={loading}
+              onClick={refetch}
+              disabled={loading || refreshing}
               className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 disabled:opacity-50"
             >
-              {loading ? "REFRESHING..." : "REFRESH"}
+              {loading || refreshing ? "REFRESHING..." : "REFRESH"}
             </button>
+
+            <ExportDialog
+              resource="users"
+              columns={USER_EXPORT_COLUMNS}
+              fetchPage={async (page, signal) => {
+                const { workspaces, workspaceCount } = await callApi(
+                  endpoints.users.withRoles,
+                  { page, limit: MAX_LIMIT },
+                  { signal }
+                );
+                // Paged by workspace; every user row of a page is exported.
+                return {
+                  items: workspaceUserRows(workspaces),
+                  totalPages: Math.ceil(
+                    (workspaceCount ?? workspaces.length) / MAX_LIMIT
+                  ),
+                };
+              }}
+            />
           </div>
 
           {workspaceCount !== null && (
@@ -273,7 +224,7 @@ function UsersWithRoles() {
             {error}
             <div className="mt-4">
               <button
-                onClick={() => window.location.reload()}
+                onClick={refetch}
                 className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg border border-destructive hover:bg-destructive/90 transition-all duration-200 font-mono text-sm"
               >
                 RETRY_CONNECTION
@@ -311,20 +262,12 @@ function UsersWithRoles() {
               ))}
             </div>
 
-            {/* Pagination */}
-            {totalPages > 1 && (
-              <div className="flex flex-col sm:flex-row items-center justify-between gap-4 py-6 border-t border-border">
-                <div className="text-muted-foreground font-mono text-sm">
-                  PAGE {page} OF {totalPages}
-                </div>
-
-                <Pagination
-                  currentPage={page}
-                  totalPages={totalPages}
-                  onNavigate={navigateTo}
-                />
-              </div>
-            )}
+            <ListPagination
+              currentPage={page}
+              totalPages={totalPages}
+              hrefForPage={hrefForPage}
+              onNavigate={setPage}
+            />
           </>
         )}
       </div>
@@ -339,6 +282,8 @@ function WorkspaceCard({
   workspace: Workspace;
   getRoleColor: (role: string) => string;
 }) {
+  const canManage = usePermission("users:manage");
+
   return (
     <div className="bg-card border border-border rounded-xl p-4 hover:border-ring transition-all duration-200 group">
       {/* Workspace Header */}
@@ -438,7 +383,11 @@ function WorkspaceCard({
       <div className="flex items-center gap-2 pt-4 mt-4 border-t border-border">
         <Link
           href={`/master-admin/workspaces/${workspace.property_id}/users`}
-          className="flex-1 py-2 text-center bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 transition-all duration-200"
+          aria-disabled={!canManage}
+          tabIndex={canManage ? undefined : -1}
+          className={`flex-1 py-2 text-center bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 ${
+            canManage ? "" : "pointer-events-none opacity-50"
+          }`}
         >
           MANAGE_USERS
         </Link>
@@ -453,83 +402,6 @@ function WorkspaceCard({
   );
 }
 
-function Pagination({
-  currentPage,
-  totalPages,
-  onNavigate,
-}: {
-  currentPage: number;
-  totalPages: number;
-  onNavigate: (page: number) => void;
-}) {
-  const pages = Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-    const start = Math.max(1, currentPage - 2);
-    return Math.min(start + i, totalPages);
-  }).filter((page, index, array) => array.indexOf(page) === index);
-
-  return (
-    <nav className="flex items-center gap-2">
-      <button
-        onClick={() => onNavigate(Math.max(1, currentPage - 1))}
-        disabled={currentPage === 1}
-        className="px-4 py-2 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        PREV
-      </button>
-
-      {pages[0] > 1 && (
-        <>
-          <button
-            onClick={() => onNavigate(1)}
-            className="px-3 py-2 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
-          >
-            1
-          </button>
-          {pages[0] > 2 && (
-            <span className="px-2 text-muted-foreground">...</span>
-          )}
-        </>
-      )}
-
-      {pages.map((p) => (
-        <button
-          key={p}
-          onClick={() => onNavigate(p)}
-          className={`px-3 py-2 border rounded-lg font-mono text-sm transition-all duration-200 ${
-            p === currentPage
-              ? "bg-primary text-primary-foreground border-primary"
-              : "bg-pop text-foreground border-border hover:bg-pop/50"
-          }`}
-        >
-          {p}
-        </button>
-      ))}
-
-      {pages[pages.length - 1] < totalPages && (
-        <>
-          {pages[pages.length - 1] < totalPages - 1 && (
-            <span className="px-2 text-muted-foreground">...</span>
-          )}
-          <button
-            onClick={() => onNavigate(totalPages)}
-            className="px-3 py-2 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
-          >
-            {totalPages}
-          </button>
-        </>
-      )}
-
-      <button
-        onClick={() => onNavigate(Math.min(totalPages, currentPage + 1))}
-        disabled={currentPage === totalPages}
-        className="px-4 py-2 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-background transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        NEXT
-      </button>
-    </nav>
-  );
-}
-
 function GridSkeleton() {
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
@@ -1,7 +1,12 @@
 // app/workspace/page.tsx
-import Link from "next/link";
 import BracketsIcon from "@/components/icons/brackets";
 import DashboardPageLayout from "@/components/dashboard/layout";
+import ListPagination from "@/components/dashboard/list-pagination";
+import {
+  parseLimitParam,
+  parsePageParam,
+  withPageParams,
+} from "@/lib/pagination";
 
 // Server Page props: searchParams is a Promise in Next.js 15/16
 type PageSearchParams = { page?: string; limit?: string };
@@ -76,14 +81,8 @@ export default async function WorkspacePage({ searchParams }: Props) {
   const sp = await searchParams;
 
   // Parse and clamp
-  const pageNum = Number(sp.page ?? 1);
-  const limitNum = Number(sp.limit ?? 10);
-
-  const safePage = Number.isFinite(pageNum) && pageNum > 0 ? pageNum : 1;
-  const safeLimit =
-    Number.isFinite(limitNum) && limitNum > 0 && limitNum <= 100
-      ? limitNum
-      : 10;
+  const safePage = parsePageParam(sp.page);
+  const safeLimit = parseLimitParam(sp.limit, 10);
 
   const { properties, pagination } = await fetchProperties(safePage, safeLimit);
 
@@ -133,89 +132,11 @@ export default async function WorkspacePage({ searchParams }: Props) {
         )}
       </section>
 
-      <Pagination
+      <ListPagination
         currentPage={pagination.currentPage}
         totalPages={pagination.totalPages}
-        limit={pagination.limit}
+        hrefForPage={(p) => withPageParams("", p, pagination.limit)}
       />
     </DashboardPageLayout>
   );
 }
-
-// Server component pagination (no "use client")
-function Pagination({
-  currentPage,
-  totalPages,
-  limit,
-}: {
-  currentPage: number;
-  totalPages: number;
-  limit: number;
-}) {
-  const prevPage = Math.max(1, currentPage - 1);
-  const nextPage = Math.min(totalPages, currentPage + 1);
-
-  // helper to build href while preserving other query params if needed later
-  const hrefWith = (page: number) => {
-    const usp = new URLSearchParams();
-    usp.set("page", String(page));
-    usp.set("limit", String(limit));
-    return `?${usp.toString()}`;
-  };
-
-  const PageLink = ({
-    page,
-    disabled,
-    label,
-  }: {
-    page: number;
-    disabled?: boolean;
-    label: string;
-  }) => (
-    <Link
-      prefetch={false}
-      href={hrefWith(page)}
-      aria-disabled={disabled}
-      className={[
-        "px-3 py-2 rounded-xl border",
-        disabled
-          ? "pointer-events-none opacity-50"
-          : "hover:bg-accent hover:text-accent-foreground",
-      ].join(" ")}
-    >
-      {label}
-    </Link>
-  );
-
-  const windowSize = 5;
-  const start = Math.max(1, currentPage - Math.floor(windowSize / 2));
-  const end = Math.min(totalPages, start + windowSize - 1);
-  const pages = Array.from({ length: end - start + 1 }, (_, i) => start + i);
-
-  return (
-    <nav className="mt-6 flex items-center gap-2">
-      <PageLink page={prevPage} disabled={currentPage === 1} label="Prev" />
-      {pages.map((p) => (
-        <Link
-          prefetch={false}
-          key={p}
-          href={hrefWith(p)}
-          className={[
-            "px-3 py-2 rounded-xl border",
-            p === currentPage
-              ? "bg-primary text-primary-foreground"
-              : "hover:bg-accent hover:text-accent-foreground",
-          ].join(" ")}
-          aria-current={p === currentPage ? "page" : undefined}
-        >
-          {p}
-        </Link>
-      ))}
-      <PageLink
-        page={nextPage}
-        disabled={currentPage === totalPages}
-        label="Next"
-      />
-    </nav>
-  );
-}
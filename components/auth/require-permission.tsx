@@ -0,0 +1,55 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { useCurrentUser } from "@/lib/current-user-context";
+import type { Permission } from "@/lib/permissions";
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: React.ReactNode;
+  backHref?: string;
+}
+
+export default function RequirePermission({
+  permission,
+  children,
+  backHref = "/",
+}: RequirePermissionProps) {
+  const { can, loading } = useCurrentUser();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background p-6">
+        <div className="max-w-2xl mx-auto animate-pulse space-y-4">
+          <div className="h-10 bg-input rounded w-1/2" />
+          <div className="h-64 bg-card border border-border rounded-xl" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!can(permission)) {
+    return (
+      <div className="min-h-screen bg-background p-6">
+        <div className="max-w-2xl mx-auto rounded-lg border border-destructive bg-destructive/10 p-6 text-destructive font-mono text-sm">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="w-2 h-2 bg-destructive rounded-full"></div>
+            <span>ACCESS_DENIED</span>
+          </div>
+          YOUR_ROLE_LACKS_PERMISSION: {permission.toUpperCase()}
+          <div className="mt-4">
+            <Link
+              href={backHref}
+              className="inline-block px-4 py-2 bg-pop text-foreground rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+            >
+              GO_BACK
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
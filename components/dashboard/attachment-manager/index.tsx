@@ -0,0 +1,478 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { endpoints, uploadApi } from "@/lib/api";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENTS_TOTAL_SIZE,
+  MAX_ATTACHMENT_SIZE,
+  attachmentFileError,
+  attachmentKind,
+  attachmentsSize,
+  formatBytes,
+  isHttpUrl,
+  moveItem,
+} from "@/lib/campaign-attachments";
+import type { CampaignAttachment } from "@/lib/schemas";
+
+type Upload = {
+  id: number;
+  file: File;
+  progress: number;
+  controller: AbortController;
+  error?: string;
+};
+
+/**
+ * Drop zone plus the ordered attachment list of a template. Files are
+ * checked against the type and size limits, then uploaded one request each;
+ * finished uploads are appended to `value` through `onChange`.
+ */
+export default function AttachmentManager({
+  value,
+  onChange,
+  propertyId,
+  disabled,
+  onUploadingChange,
+}: {
+  value: CampaignAttachment[];
+  onChange: (attachments: CampaignAttachment[]) => void;
+  /** Workspace the files are stored under; uploads wait until it is set. */
+  propertyId: string;
+  disabled?: boolean;
+  onUploadingChange?: (uploading: boolean) => void;
+}) {
+  const [uploads, setUploads] = useState<Upload[]>([]);
+  const [rejected, setRejected] = useState<{ name: string; reason: string }[]>(
+    []
+  );
+  const [dragOver, setDragOver] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [preview, setPreview] = useState<CampaignAttachment | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const nextId = useRef(0);
+
+  // Uploads finish after later renders; always append to the latest list.
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  const pending = uploads.filter((u) => !u.error);
+  const uploading = pending.length > 0;
+
+  useEffect(() => {
+    onUploadingChange?.(uploading);
+  }, [uploading, onUploadingChange]);
+
+  // Leaving the editor cancels whatever is still in flight.
+  const uploadsRef = useRef(uploads);
+  uploadsRef.current = uploads;
+  useEffect(
+    () => () => uploadsRef.current.forEach((u) => u.controller.abort()),
+    []
+  );
+
+  const locked = disabled || !propertyId;
+
+  function updateUpload(id: number, patch: Partial<Upload>) {
+    setUploads((current) =>
+      current.map((u) => (u.id === id ? { ...u, ...patch } : u))
+    );
+  }
+
+  function removeUpload(id: number) {
+    setUploads((current) => current.filter((u) => u.id !== id));
+  }
+
+  async function start(upload: Upload) {
+    const body = new FormData();
+    body.append("file", upload.file);
+    body.append("property_id", propertyId);
+    try {
+      const { attachment } = await uploadApi(
+        endpoints.campaigns.uploadAttachment,
+        body,
+        {
+          signal: upload.controller.signal,
+          onProgress: (progress) => updateUpload(upload.id, { progress }),
+        }
+      );
+      const next = [...valueRef.current, attachment];
+      valueRef.current = next;
+      onChange(next);
+      removeUpload(upload.id);
+    } catch (err: any) {
+      if (isAbortError(err)) {
+        removeUpload(upload.id);
+        return;
+      }
+      updateUpload(upload.id, { error: err?.message || "UPLOAD_FAILED" });
+    }
+  }
+
+  function addFiles(files: FileList | File[]) {
+    if (locked) return;
+    // In-flight uploads count against the limits too.
+    const current: { size: number }[] = [
+      ...valueRef.current,
+      ...pending.map((u) => u.file),
+    ];
+    const accepted: Upload[] = [];
+    const errors: { name: string; reason: string }[] = [];
+
+    for (const file of Array.from(files)) {
+      const reason = attachmentFileError(file, current);
+      if (reason) {
+        errors.push({ name: file.name, reason });
+        continue;
+      }
+      current.push(file);
+      accepted.push({
+        id: nextId.current++,
+        file,
+        progress: 0,
+        controller: new AbortController(),
+      });
+    }
+
+    setRejected(errors);
+    setUploads((existing) => [...existing, ...accepted]);
+    accepted.forEach(start);
+  }
+
+  function retry(upload: Upload) {
+    const next = {
+      ...upload,
+      progress: 0,
+      error: undefined,
+      controller: new AbortController(),
+    };
+    setUploads((current) =>
+      current.map((u) => (u.id === upload.id ? next : u))
+    );
+    start(next);
+  }
+
+  function move(from: number, to: number) {
+    if (to < 0 || to >= value.length || from === to) return;
+    onChange(moveItem(value, from, to));
+  }
+
+  const isFileDrag = (e: React.DragEvent) =>
+    Array.from(e.dataTransfer.types).includes("Files");
+
+  return (
+    <div className="space-y-3 font-mono">
+      <div
+        role="button"
+        tabIndex={locked ? -1 : 0}
+        aria-disabled={locked}
+        onClick={() => !locked && inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (locked || (e.key !== "Enter" && e.key !== " ")) return;
+          e.preventDefault();
+          inputRef.current?.click();
+        }}
+        onDragOver={(e) => {
+          if (locked || !isFileDrag(e)) return;
+          e.preventDefault();
+          setDragOver(true);
+        }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={(e) => {
+          if (locked || !isFileDrag(e)) return;
+          e.preventDefault();
+          setDragOver(false);
+          addFiles(e.dataTransfer.files);
+        }}
+        className={`rounded-lg border-2 border-dashed p-6 text-center text-sm transition-all duration-200 ${
+          dragOver
+            ? "border-primary bg-primary/10 text-foreground"
+            : "border-border bg-input text-muted-foreground"
+        } ${
+          locked
+            ? "opacity-50 cursor-not-allowed"
+            : "cursor-pointer hover:border-ring"
+        }`}
+      >
+        <div>
+          {propertyId
+            ? "DROP_FILES_HERE_OR_CLICK_TO_BROWSE"
+            : "SELECT_A_WORKSPACE_BEFORE_UPLOADING"}
+        </div>
+        <div className="mt-1 text-xs">
+          IMAGES, PDF, TXT, CSV // MAX {formatBytes(MAX_ATTACHMENT_SIZE)} EACH,{" "}
+          {formatBytes(MAX_ATTACHMENTS_TOTAL_SIZE)} TOTAL, {MAX_ATTACHMENTS}{" "}
+          FILES
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) addFiles(e.target.files);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {rejected.length > 0 && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4 text-xs text-destructive space-y-1">
+          {rejected.map((r, i) => (
+            <div key={i} className="flex justify-between gap-3">
+              <span className="truncate">{r.name}</span>
+              <span>{r.reason}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {uploads.length > 0 && (
+        <ul className="space-y-2">
+          {uploads.map((upload) => (
+            <li
+              key={upload.id}
+              className="rounded-lg border border-border bg-pop p-3 space-y-2 text-xs"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <span className="truncate text-foreground">
+                  {upload.file.name}
+                </span>
+                <span className="shrink-0 text-muted-foreground">
+                  {formatBytes(upload.file.size)}
+                </span>
+              </div>
+              {upload.error ? (
+                <div className="flex items-center justify-between gap-3 text-destructive">
+                  <span className="truncate">{upload.error}</span>
+                  <span className="flex shrink-0 gap-2">
+                    <button
+                      type="button"
+                      onClick={() => retry(upload)}
+                      className="px-2 py-1 rounded border border-destructive hover:bg-destructive/10"
+                    >
+                      RETRY
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeUpload(upload.id)}
+                      className="px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground"
+                    >
+                      DISMISS
+                    </button>
+                  </span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <Progress
+                    value={Math.round(upload.progress * 100)}
+                    className="h-1.5 flex-1"
+                  />
+                  <span className="w-10 text-right text-muted-foreground">
+                    {Math.round(upload.progress * 100)}%
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => upload.controller.abort()}
+                    className="px-2 py-1 rounded border border-border text-muted-foreground hover:text-destructive"
+                  >
+                    CANCEL
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {value.length > 0 && (
+        <>
+          <ul className="space-y-2">
+            {value.map((attachment, index) => (
+              <li
+                key={`${attachment.url}-${index}`}
+                draggable={!disabled}
+                onDragStart={(e) => {
+                  setDragIndex(index);
+                  e.dataTransfer.effectAllowed = "move";
+                }}
+                onDragOver={(e) => {
+                  if (dragIndex === null) return;
+                  e.preventDefault();
+                  if (dragIndex !== index) {
+                    move(dragIndex, index);
+                    setDragIndex(index);
+                  }
+                }}
+                onDragEnd={() => setDragIndex(null)}
+                className={`flex items-center gap-3 rounded-lg border border-border bg-pop p-2 text-xs ${
+                  dragIndex === index ? "opacity-50" : ""
+                } ${disabled ? "" : "cursor-grab"}`}
+              >
+                <AttachmentThumb attachment={attachment} />
+                <button
+                  type="button"
+                  onClick={() => setPreview(attachment)}
+                  className="min-w-0 flex-1 text-left"
+                >
+                  <div className="truncate text-foreground hover:underline">
+                    {attachment.name}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {attachment.mime} // {formatBytes(attachment.size)}
+                  </div>
+                </button>
+                <div className="flex shrink-0 gap-1">
+                  <button
+                    type="button"
+                    aria-label="MOVE_UP"
+                    onClick={() => move(index, index - 1)}
+                    disabled={disabled || index === 0}
+                    className="px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    aria-label="MOVE_DOWN"
+                    onClick={() => move(index, index + 1)}
+                    disabled={disabled || index === value.length - 1}
+                    className="px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    aria-label="REMOVE_ATTACHMENT"
+                    onClick={() =>
+                      onChange(value.filter((_, i) => i !== index))
+                    }
+                    disabled={disabled}
+                    className="px-2 py-1 rounded border border-border text-muted-foreground hover:text-destructive disabled:opacity-30"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="text-xs text-muted-foreground text-right">
+            {value.length} / {MAX_ATTACHMENTS} FILES //{" "}
+            {formatBytes(attachmentsSize(value))} /{" "}
+            {formatBytes(MAX_ATTACHMENTS_TOTAL_SIZE)}
+          </div>
+        </>
+      )}
+
+      <AttachmentPreviewDialog
+        attachment={preview}
+        onClose={() => setPreview(null)}
+      />
+    </div>
+  );
+}
+
+export function AttachmentThumb({
+  attachment,
+}: {
+  attachment: CampaignAttachment;
+}) {
+  const kind = attachmentKind(attachment.mime);
+  if (kind === "image" && isHttpUrl(attachment.url)) {
+    return (
+      <Image
+        src={attachment.url}
+        alt=""
+        width={40}
+        height={40}
+        className="w-10 h-10 shrink-0 rounded object-cover border border-border bg-input"
+      />
+    );
+  }
+  return (
+    <div className="w-10 h-10 shrink-0 rounded border border-border bg-input flex items-center justify-center text-[10px] text-muted-foreground">
+      {kind === "pdf" ? "PDF" : fileExtension(attachment.name)}
+    </div>
+  );
+}
+
+/** Full-size preview for images and PDFs; other files get a download link. */
+export function AttachmentPreviewDialog({
+  attachment,
+  onClose,
+}: {
+  attachment: CampaignAttachment | null;
+  onClose: () => void;
+}) {
+  const kind = attachment ? attachmentKind(attachment.mime) : "file";
+  const linkable = !!attachment && isHttpUrl(attachment.url);
+
+  return (
+    <Dialog open={attachment !== null} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-3xl font-mono">
+        <DialogHeader>
+          <DialogTitle className="truncate">{attachment?.name}</DialogTitle>
+          <DialogDescription>
+            {attachment &&
+              `${attachment.mime} // ${formatBytes(attachment.size)}`}
+          </DialogDescription>
+        </DialogHeader>
+        {linkable && kind === "image" && (
+          <Image
+            src={attachment.url}
+            alt={attachment.name}
+            width={960}
+            height={720}
+            className="max-h-[70vh] w-full rounded-lg border border-border bg-input object-contain"
+          />
+        )}
+        {linkable && kind === "pdf" && (
+          // Rendered by the browser's PDF viewer, which a sandboxed frame
+          // would block; the link below covers browsers that show nothing.
+          <object
+            type="application/pdf"
+            data={attachment.url}
+            aria-label={attachment.name}
+            className="h-[70vh] w-full rounded-lg border border-border bg-input"
+          >
+            <div className="p-6 text-sm text-muted-foreground">
+              PDF_PREVIEW_UNAVAILABLE // OPEN_IT_IN_A_NEW_TAB
+            </div>
+          </object>
+        )}
+        {attachment && !linkable && (
+          <div className="rounded-lg border border-warning bg-warning/10 p-4 text-sm text-warning">
+            INVALID_ATTACHMENT_URL // RE-UPLOAD_THIS_FILE
+          </div>
+        )}
+        {linkable && (
+          <a
+            href={attachment.url}
+            target="_blank"
+            rel="noreferrer"
+            className="self-start px-4 py-2 bg-pop text-foreground text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+          >
+            OPEN_IN_NEW_TAB
+          </a>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function fileExtension(name: string) {
+  const extension = name.includes(".") ? name.split(".").pop() : "";
+  return (extension || "FILE").slice(0, 4).toUpperCase();
+}
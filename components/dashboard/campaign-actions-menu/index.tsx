@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { usePermission } from "@/lib/current-user-context";
+import type { Campaign } from "@/lib/schemas";
+
+type LifecycleAction =
+  | "activate"
+  | "deactivate"
+  | "archive"
+  | "unarchive"
+  | "delete";
+
+const confirmations: Record<
+  LifecycleAction,
+  { label: string; description: string; confirm: string }
+> = {
+  activate: {
+    label: "ACTIVATE",
+    description: "THE_TEMPLATE_CAN_BE_SENT_AGAIN",
+    confirm: "CONFIRM_ACTIVATE",
+  },
+  deactivate: {
+    label: "DEACTIVATE",
+    description: "SENDS_ARE_BLOCKED_UNTIL_IT_IS_ACTIVATED_AGAIN",
+    confirm: "CONFIRM_DEACTIVATE",
+  },
+  archive: {
+    label: "ARCHIVE",
+    description:
+      "HIDDEN_FROM_THE_LIST_AND_CANNOT_BE_SENT // FIND_IT_UNDER_ARCHIVED",
+    confirm: "CONFIRM_ARCHIVE",
+  },
+  unarchive: {
+    label: "UNARCHIVE",
+    description: "THE_TEMPLATE_RETURNS_TO_THE_LIST",
+    confirm: "CONFIRM_UNARCHIVE",
+  },
+  delete: {
+    label: "DELETE",
+    description:
+      "VERSION_HISTORY_GOES_WITH_IT // UNDO_STAYS_AVAILABLE_FOR_A_FEW_SECONDS",
+    confirm: "CONFIRM_DELETE",
+  },
+};
+
+/**
+ * Activate, archive and delete for a template card. Each action asks for
+ * confirmation first; the callbacks apply it optimistically and offer the
+ * undo themselves.
+ */
+export default function CampaignActionsMenu({
+  campaign,
+  onSetActive,
+  onSetArchived,
+  onDelete,
+}: {
+  campaign: Campaign;
+  onSetActive: (campaign: Campaign, active: boolean) => void;
+  onSetArchived: (campaign: Campaign, archived: boolean) => void;
+  onDelete: (campaign: Campaign) => void;
+}) {
+  const canWrite = usePermission("campaigns:write");
+  const canDelete = usePermission("campaigns:delete");
+  const [pending, setPending] = useState<LifecycleAction | null>(null);
+
+  const active = campaign.meta?.is_active !== false;
+  const archived = campaign.meta?.is_archived === true;
+  const actions: LifecycleAction[] = [
+    ...(canWrite
+      ? ([
+          active ? "deactivate" : "activate",
+          archived ? "unarchive" : "archive",
+        ] as const)
+      : []),
+    ...(canDelete ? (["delete"] as const) : []),
+  ];
+
+  function run(action: LifecycleAction) {
+    switch (action) {
+      case "activate":
+      case "deactivate":
+        return onSetActive(campaign, action === "activate");
+      case "archive":
+      case "unarchive":
+        return onSetArchived(campaign, action === "archive");
+      case "delete":
+        return onDelete(campaign);
+    }
+  }
+
+  const confirmation = pending ? confirmations[pending] : null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={actions.length === 0}>
+          <button
+            type="button"
+            aria-label={`TEMPLATE_ACTIONS (${campaign.title})`}
+            className="px-3 py-1.5 bg-pop text-foreground font-mono text-xs rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+          >
+            ⋯
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="font-mono">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">
+            LIFECYCLE
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {actions.map((action) => (
+            <DropdownMenuItem
+              key={action}
+              onSelect={() => setPending(action)}
+              className={`font-mono text-xs ${
+                action === "delete" ? "text-destructive" : ""
+              }`}
+            >
+              {confirmations[action].label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog
+        open={pending !== null}
+        onOpenChange={(open) => !open && setPending(null)}
+      >
+        <AlertDialogContent className="font-mono">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-mono">
+              {confirmation?.label} {campaign.title}?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="font-mono text-xs">
+              {confirmation?.description}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="font-mono">CANCEL</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pending && run(pending)}
+              className={`font-mono ${
+                pending === "delete"
+                  ? "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  : ""
+              }`}
+            >
+              {confirmation?.confirm}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,402 @@
+"use client";
+
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ChartLegend } from "@/components/dashboard/chart";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  breakdownBy,
+  deliveryRates,
+  formatRate,
+  mergeSeries,
+  sumMetrics,
+  type AnalyticsBreakdownRow,
+} from "@/lib/campaign-analytics";
+import type { CampaignAnalytics } from "@/lib/schemas";
+
+const volumeConfig = {
+  sent: { label: "Sent", color: "var(--chart-1)" },
+  delivered: { label: "Delivered", color: "var(--chart-2)" },
+  failed: { label: "Failed", color: "var(--chart-5)" },
+} satisfies ChartConfig;
+
+const engagementConfig = {
+  opened: { label: "Opened", color: "var(--chart-3)" },
+  clicked: { label: "Clicked", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+const channelConfig = {
+  ...volumeConfig,
+  ...engagementConfig,
+} satisfies ChartConfig;
+
+function formatCount(value: number) {
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}K`;
+  return value.toString();
+}
+
+// `yyyy-MM-dd` → `MM-dd` for axis ticks.
+function formatDay(date: string) {
+  return date.slice(5);
+}
+
+/**
+ * Delivery counts, daily series and per-channel / per-workspace breakdowns
+ * for whatever set of campaigns `analytics` covers.
+ */
+export default function CampaignAnalyticsDashboard({
+  analytics,
+  workspaceName,
+}: {
+  analytics: CampaignAnalytics[];
+  /** Display name for a `property_id`. */
+  workspaceName: (propertyId: string) => string;
+}) {
+  const series = mergeSeries(analytics);
+  const totals = sumMetrics(series);
+  const rates = deliveryRates(totals);
+  const byChannel = breakdownBy(analytics, "type");
+  const byWorkspace = breakdownBy(analytics, "property_id");
+
+  const tiles = [
+    { label: "SENT", value: totals.sent, rate: null },
+    {
+      label: "DELIVERED",
+      value: totals.delivered,
+      rate: `${formatRate(rates.delivery)} OF_SENT`,
+    },
+    {
+      label: "FAILED",
+      value: totals.failed,
+      rate: `${formatRate(rates.failure)} OF_SENT`,
+    },
+    {
+      label: "OPENED",
+      value: totals.opened,
+      rate: `${formatRate(rates.open)} OF_DELIVERED`,
+    },
+    {
+      label: "CLICKED",
+      value: totals.clicked,
+      rate: `${formatRate(rates.click)} OF_DELIVERED`,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-4">
+        {tiles.map((tile) => (
+          <div
+            key={tile.label}
+            className="bg-card border border-border rounded-xl p-4 font-mono"
+          >
+            <div className="text-xs text-muted-foreground">{tile.label}</div>
+            <div className="font-display text-3xl text-foreground">
+              {tile.value.toLocaleString()}
+            </div>
+            <div className="text-xs text-muted-foreground h-4">{tile.rate}</div>
+          </div>
+        ))}
+      </div>
+
+      <Panel title="DELIVERY_VOLUME" config={volumeConfig}>
+        <ChartContainer
+          className="md:aspect-[3/1] w-full"
+          config={volumeConfig}
+        >
+          <AreaChart
+            accessibilityLayer
+            data={series}
+            margin={{ left: -12, right: 12, top: 12, bottom: 12 }}
+          >
+            <defs>
+              {Object.keys(volumeConfig).map((key) => (
+                <linearGradient
+                  key={key}
+                  id={`fill-${key}`}
+                  x1="0"
+                  y1="0"
+                  x2="0"
+                  y2="1"
+                >
+                  <stop
+                    offset="5%"
+                    stopColor={`var(--color-${key})`}
+                    stopOpacity={0.8}
+                  />
+                  <stop
+                    offset="95%"
+                    stopColor={`var(--color-${key})`}
+                    stopOpacity={0.1}
+                  />
+                </linearGradient>
+              ))}
+            </defs>
+            <Grid />
+            <XAxis
+              dataKey="date"
+              tickLine={false}
+              tickMargin={12}
+              strokeWidth={1.5}
+              tickFormatter={formatDay}
+              className="text-sm fill-muted-foreground"
+            />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              tickCount={6}
+              tickFormatter={formatCount}
+              className="text-sm fill-muted-foreground"
+            />
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  indicator="dot"
+                  className="min-w-[200px] px-4 py-3"
+                />
+              }
+            />
+            {Object.keys(volumeConfig).map((key) => (
+              <Area
+                key={key}
+                dataKey={key}
+                type="linear"
+                fill={`url(#fill-${key})`}
+                fillOpacity={0.4}
+                stroke={`var(--color-${key})`}
+                strokeWidth={2}
+                dot={false}
+                activeDot={{ r: 4 }}
+              />
+            ))}
+          </AreaChart>
+        </ChartContainer>
+      </Panel>
+
+      <Panel title="ENGAGEMENT" config={engagementConfig}>
+        <ChartContainer
+          className="md:aspect-[3/1] w-full"
+          config={engagementConfig}
+        >
+          <LineChart
+            accessibilityLayer
+            data={series}
+            margin={{ left: -12, right: 12, top: 12, bottom: 12 }}
+          >
+            <Grid />
+            <XAxis
+              dataKey="date"
+              tickLine={false}
+              tickMargin={12}
+              strokeWidth={1.5}
+              tickFormatter={formatDay}
+              className="text-sm fill-muted-foreground"
+            />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              tickCount={6}
+              tickFormatter={formatCount}
+              className="text-sm fill-muted-foreground"
+            />
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  indicator="dot"
+                  className="min-w-[200px] px-4 py-3"
+                />
+              }
+            />
+            {Object.keys(engagementConfig).map((key) => (
+              <Line
+                key={key}
+                dataKey={key}
+                type="linear"
+                stroke={`var(--color-${key})`}
+                strokeWidth={2}
+                dot={false}
+                activeDot={{ r: 4 }}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      </Panel>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Panel title="BY_CHANNEL" config={channelConfig}>
+          <ChartContainer
+            className="aspect-[2/1] w-full mb-4"
+            config={channelConfig}
+          >
+            <BarChart
+              accessibilityLayer
+              data={byChannel.map((row) => ({
+                channel: row.key.toUpperCase(),
+                ...row.metrics,
+              }))}
+              margin={{ left: -12, right: 12, top: 12, bottom: 12 }}
+            >
+              <Grid />
+              <XAxis
+                dataKey="channel"
+                tickLine={false}
+                tickMargin={12}
+                className="text-sm fill-muted-foreground"
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={formatCount}
+                className="text-sm fill-muted-foreground"
+              />
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent indicator="dot" />}
+              />
+              {Object.keys(channelConfig).map((key) => (
+                <Bar
+                  key={key}
+                  dataKey={key}
+                  fill={`var(--color-${key})`}
+                  radius={2}
+                />
+              ))}
+            </BarChart>
+          </ChartContainer>
+          <BreakdownTable
+            heading="CHANNEL"
+            rows={byChannel}
+            label={(key) => key.toUpperCase()}
+          />
+        </Panel>
+
+        <Panel title="BY_WORKSPACE">
+          <BreakdownTable
+            heading="WORKSPACE"
+            rows={byWorkspace}
+            label={workspaceName}
+          />
+        </Panel>
+      </div>
+    </div>
+  );
+}
+
+function Grid() {
+  return (
+    <CartesianGrid
+      horizontal={false}
+      strokeDasharray="8 8"
+      strokeWidth={2}
+      stroke="var(--muted-foreground)"
+      opacity={0.3}
+    />
+  );
+}
+
+function Panel({
+  title,
+  config,
+  children,
+}: {
+  title: string;
+  config?: ChartConfig;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="bg-card border border-border rounded-xl">
+      <div className="px-6 py-4 border-b border-border bg-pop rounded-t-xl flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-muted-foreground font-mono font-medium text-xs uppercase tracking-wider">
+          {title}
+        </h2>
+        {config && (
+          <div className="flex flex-wrap items-center gap-4">
+            {Object.entries(config).map(([key, value]) => (
+              <ChartLegend
+                key={key}
+                label={String(value.label)}
+                color={value.color ?? ""}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="p-6">{children}</div>
+    </section>
+  );
+}
+
+function BreakdownTable({
+  heading,
+  rows,
+  label,
+}: {
+  heading: string;
+  rows: AnalyticsBreakdownRow[];
+  label: (key: string) => string;
+}) {
+  if (rows.length === 0) {
+    return <p className="text-muted-foreground font-mono text-sm">NO_DATA</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full font-mono text-xs">
+        <thead>
+          <tr className="text-muted-foreground text-left">
+            <th className="py-2 pr-3 font-medium">{heading}</th>
+            <th className="py-2 px-3 font-medium text-right">TEMPLATES</th>
+            <th className="py-2 px-3 font-medium text-right">SENT</th>
+            <th className="py-2 px-3 font-medium text-right">DELIVERY</th>
+            <th className="py-2 px-3 font-medium text-right">OPEN</th>
+            <th className="py-2 pl-3 font-medium text-right">CLICK</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const rates = deliveryRates(row.metrics);
+            return (
+              <tr key={row.key} className="border-t border-border">
+                <td className="py-2 pr-3 text-foreground truncate max-w-[12rem]">
+                  {label(row.key)}
+                </td>
+                <td className="py-2 px-3 text-right text-muted-foreground">
+                  {row.campaigns}
+                </td>
+                <td className="py-2 px-3 text-right text-foreground">
+                  {row.metrics.sent.toLocaleString()}
+                </td>
+                <td className="py-2 px-3 text-right text-foreground">
+                  {formatRate(rates.delivery)}
+                </td>
+                <td className="py-2 px-3 text-right text-foreground">
+                  {formatRate(rates.open)}
+                </td>
+                <td className="py-2 pl-3 text-right text-foreground">
+                  {formatRate(rates.click)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { callApi, endpoints } from "@/lib/api";
+import {
+  copyPayload,
+  copyTitle,
+  resolutionErrors,
+  suggestVariableName,
+  variableConflicts,
+  workspaceVariableSources,
+  type ConflictResolution,
+} from "@/lib/campaign-copy";
+import { batchInvalidations } from "@/lib/query-cache";
+import type { Campaign } from "@/lib/schemas";
+import { useAllCampaigns } from "@/hooks/use-all-campaigns";
+import { toast } from "@/hooks/use-toast";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+
+const fieldClassName =
+  "bg-input border border-border rounded-lg px-3 py-2 text-foreground font-mono text-xs focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200";
+
+type CopyResult = { ok: true } | { ok: false; error: string };
+
+/**
+ * Trigger plus dialog that copies `campaign` into one or more workspaces.
+ * Each target's existing templates are checked for variables mapped to a
+ * different client field, and every such conflict needs a decision before
+ * the copy goes through.
+ */
+export default function CampaignCopyDialog({
+  campaign,
+  title = "COPY_TO_WORKSPACES",
+  label = "COPY_TO…",
+  triggerClassName = "px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50",
+  disabled,
+}: {
+  campaign: Campaign;
+  title?: string;
+  label?: string;
+  triggerClassName?: string;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [picked, setPicked] = useState<string[]>([]);
+  const [resolutions, setResolutions] = useState<
+    Record<string, Record<string, ConflictResolution>>
+  >({});
+  const [results, setResults] = useState<Record<string, CopyResult>>({});
+  const [running, setRunning] = useState(false);
+
+  const { workspaces } = useWorkspaces();
+  const all = useAllCampaigns({ enabled: open });
+  const variableMap = useMemo(
+    () => campaign.meta?.variable_map ?? {},
+    [campaign.meta?.variable_map]
+  );
+
+  const targets = useMemo(
+    () =>
+      picked.map((propertyId) => {
+        const sources = workspaceVariableSources(
+          all.campaigns,
+          propertyId,
+          campaign._id
+        );
+        const chosen = resolutions[propertyId] ?? {};
+        const conflicts = variableConflicts(variableMap, sources);
+        return {
+          propertyId,
+          name:
+            workspaces.find((w) => w._id === propertyId)?.name ?? propertyId,
+          sources,
+          conflicts,
+          resolutions: chosen,
+          errors: resolutionErrors(conflicts, chosen, variableMap, sources),
+          title: copyTitle(
+            campaign.title,
+            all.campaigns
+              .filter((c) => c.property_id === propertyId)
+              .map((c) => c.title)
+          ),
+        };
+      }),
+    [
+      picked,
+      all.campaigns,
+      campaign._id,
+      campaign.title,
+      resolutions,
+      variableMap,
+      workspaces,
+    ]
+  );
+
+  const pending = targets.filter((t) => !results[t.propertyId]?.ok);
+  const blocked = pending.some((t) => Object.keys(t.errors).length > 0);
+  const checking = all.data === undefined;
+
+  const toggle = (propertyId: string, checked: boolean) =>
+    setPicked((prev) =>
+      checked ? [...prev, propertyId] : prev.filter((id) => id !== propertyId)
+    );
+
+  const resolve = (
+    propertyId: string,
+    name: string,
+    resolution: ConflictResolution
+  ) =>
+    setResolutions((prev) => ({
+      ...prev,
+      [propertyId]: { ...prev[propertyId], [name]: resolution },
+    }));
+
+  async function copy() {
+    setRunning(true);
+    const next = { ...results };
+    const source =
+      workspaces.find((w) => w._id === campaign.property_id)?.name ??
+      campaign.property_id;
+    // One refetch of the lists for the whole batch.
+    await batchInvalidations(async () => {
+      for (const target of pending) {
+        try {
+          await callApi(
+            endpoints.campaigns.create,
+            copyPayload(campaign, {
+              propertyId: target.propertyId,
+              title: target.title,
+              conflicts: target.conflicts,
+              resolutions: target.resolutions,
+              note: `Copied from "${campaign.title}" (${source})`,
+            })
+          );
+          next[target.propertyId] = { ok: true };
+        } catch (err: any) {
+          next[target.propertyId] = {
+            ok: false,
+            error: err?.message || "COPY_FAILED",
+          };
+        }
+        setResults({ ...next });
+      }
+    });
+    setRunning(false);
+
+    const copied = pending.filter((t) => next[t.propertyId].ok).length;
+    if (copied > 0) {
+      toast({
+        title: "TEMPLATE_COPIED",
+        description: `${campaign.title} → ${copied} WORKSPACE${
+          copied === 1 ? "" : "S"
+        }`,
+      });
+    }
+    if (copied === pending.length) setOpen(false);
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (running) return;
+        if (next) {
+          setPicked([]);
+          setResolutions({});
+          setResults({});
+        }
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild disabled={disabled}>
+        <button type="button" className={triggerClassName}>
+          {label}
+        </button>
+      </DialogTrigger>
+
+      <DialogContent className="font-mono max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{title}</DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            {campaign.title} // {campaign.type.toUpperCase()}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <div className="mb-2 text-xs text-muted-foreground">
+              TARGET_WORKSPACES ({picked.length})
+            </div>
+            <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto rounded-lg border border-border p-3">
+              {workspaces.map((workspace) => (
+                <label
+                  key={workspace._id}
+                  className="flex items-center gap-2 text-xs text-foreground cursor-pointer"
+                >
+                  <Checkbox
+                    checked={picked.includes(workspace._id)}
+                    onCheckedChange={(checked) =>
+                      toggle(workspace._id, checked === true)
+                    }
+                    disabled={running || !!results[workspace._id]?.ok}
+                  />
+                  <span className="truncate">
+                    {workspace.name}
+                    {workspace._id === campaign.property_id && (
+                      <span className="text-muted-foreground"> (SOURCE)</span>
+                    )}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {picked.length > 0 && checking && (
+            <p className="text-xs text-muted-foreground">
+              CHECKING_VARIABLE_MAPS...
+            </p>
+          )}
+          {all.error && (
+            <div
+              role="alert"
+              className="rounded-lg border border-destructive bg-destructive/10 p-3 text-destructive text-xs"
+            >
+              {all.error}
+            </div>
+          )}
+
+          {!checking &&
+            targets.map((target) => {
+              const result = results[target.propertyId];
+              return (
+                <div
+                  key={target.propertyId}
+                  className="rounded-lg border border-border bg-pop p-3 space-y-3 text-xs"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-foreground truncate">
+                      {target.name}
+                    </span>
+                    {result ? (
+                      <span
+                        className={
+                          result.ok ? "text-success" : "text-destructive"
+                        }
+                      >
+                        {result.ok ? "COPIED" : result.error}
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">
+                        {target.conflicts.length === 0
+                          ? "NO_CONFLICTS"
+                          : `${target.conflicts.length} CONFLICT${
+                              target.conflicts.length === 1 ? "" : "S"
+                            }`}
+                      </span>
+                    )}
+                  </div>
+                  {!result?.ok && (
+                    <div className="text-muted-foreground truncate">
+                      SAVED_AS:{" "}
+                      <span className="text-foreground">{target.title}</span>
+                    </div>
+                  )}
+
+                  {!result?.ok &&
+                    target.conflicts.map((conflict) => {
+                      const resolution = target.resolutions[conflict.name] ?? {
+                        action: "keep",
+                      };
+                      const error = target.errors[conflict.name];
+                      return (
+                        <div
+                          key={conflict.name}
+                          className="rounded-lg border border-warning bg-warning/10 p-3 space-y-2"
+                        >
+                          <div className="text-warning">
+                            {`{{${conflict.name}}}`} → {conflict.source} //
+                            WORKSPACE_USES → {conflict.workspaceSource}
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            <select
+                              aria-label={`RESOLVE_${conflict.name}`}
+                              value={resolution.action}
+                              disabled={running}
+                              onChange={(e) =>
+                                resolve(
+                                  target.propertyId,
+                                  conflict.name,
+                                  e.target.value === "rename"
+                                    ? {
+                                        action: "rename",
+                                        name: suggestVariableName(
+                                          conflict.name,
+                                          variableMap,
+                                          target.sources
+                                        ),
+                                      }
+                                    : {
+                                        action: e.target.value as
+                                          | "keep"
+                                          | "adopt",
+                                      }
+                                )
+                              }
+                              className={fieldClassName}
+                            >
+                              <option value="keep">
+                                KEEP → {conflict.source}
+                              </option>
+                              <option value="adopt">
+                                USE_WORKSPACE → {conflict.workspaceSource}
+                              </option>
+                              <option value="rename">RENAME_VARIABLE</option>
+                            </select>
+                            {resolution.action === "rename" && (
+                              <input
+                                aria-label={`NEW_NAME_${conflict.name}`}
+                                value={resolution.name}
+                                disabled={running}
+                                onChange={(e) =>
+                                  resolve(target.propertyId, conflict.name, {
+                                    action: "rename",
+                                    name: e.target.value,
+                                  })
+                                }
+                                aria-invalid={!!error}
+                                className={`${fieldClassName} flex-1 aria-[invalid=true]:border-destructive`}
+                              />
+                            )}
+                          </div>
+                          {error && (
+                            <div className="text-destructive">{error}</div>
+                          )}
+                        </div>
+                      );
+                    })}
+                </div>
+              );
+            })}
+        </div>
+
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={() => setOpen(false)}
+            disabled={running}
+            className="px-4 py-2 bg-pop text-foreground rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 text-sm disabled:opacity-50"
+          >
+            CANCEL
+          </button>
+          <button
+            type="button"
+            onClick={copy}
+            disabled={running || checking || blocked || pending.length === 0}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {running
+              ? "COPYING..."
+              : Object.values(results).some((r) => !r.ok)
+              ? "RETRY_FAILED"
+              : `COPY_TO_${pending.length}`}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import DebouncedInput from "@/components/dashboard/debounced-input";
+import {
+  hasActiveCampaignFilters,
+  selectedCampaignTypes,
+  toggleCampaignType,
+  type CampaignFilters,
+} from "@/lib/campaign-filters";
+import { CAMPAIGN_TYPES } from "@/lib/campaign-template";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+
+const fieldClassName =
+  "bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200";
+
+const chipClassName =
+  "px-3 py-2 rounded-lg border font-mono text-xs transition-all duration-200 bg-pop text-foreground border-border hover:bg-pop/50 aria-pressed:bg-primary aria-pressed:text-primary-foreground aria-pressed:border-primary";
+
+export default function CampaignFilterBar({
+  filters,
+  onChange,
+}: {
+  filters: CampaignFilters;
+  onChange: (patch: Partial<CampaignFilters>) => void;
+}) {
+  const { workspaces, loading: workspacesLoading } = useWorkspaces();
+  const types = selectedCampaignTypes(filters);
+
+  return (
+    <div className="py-4 flex flex-col gap-3 border-b border-border">
+      <div className="flex flex-col lg:flex-row gap-3">
+        <DebouncedInput
+          value={filters.search ?? ""}
+          onCommit={(search) => onChange({ search })}
+          placeholder="SEARCH_TITLE_AND_MESSAGE..."
+          className={`${fieldClassName} flex-1`}
+        />
+
+        <select
+          aria-label="WORKSPACE"
+          value={filters.property_id ?? ""}
+          onChange={(e) =>
+            onChange({ property_id: e.target.value || undefined })
+          }
+          className={fieldClassName}
+        >
+          <option value="">
+            {workspacesLoading ? "LOADING..." : "ALL_WORKSPACES"}
+          </option>
+          {workspaces.map((w) => (
+            <option key={w._id} value={w._id}>
+              {w.name}
+            </option>
+          ))}
+          {filters.property_id &&
+            !workspaces.some((w) => w._id === filters.property_id) && (
+              <option value={filters.property_id}>{filters.property_id}</option>
+            )}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {CAMPAIGN_TYPES.map((type) => (
+          <button
+            key={type}
+            type="button"
+            aria-pressed={types.includes(type)}
+            onClick={() =>
+              onChange({ type: toggleCampaignType(filters, type) })
+            }
+            className={chipClassName}
+          >
+            {type.toUpperCase()}
+          </button>
+        ))}
+
+        <span className="mx-1 h-6 w-px bg-border" aria-hidden />
+
+        {([true, false] as const).map((active) => (
+          <button
+            key={String(active)}
+            type="button"
+            aria-pressed={filters.is_active === active}
+            onClick={() =>
+              onChange({
+                is_active: filters.is_active === active ? undefined : active,
+              })
+            }
+            className={chipClassName}
+          >
+            {active ? "ACTIVE" : "INACTIVE"}
+          </button>
+        ))}
+
+        <span className="mx-1 h-6 w-px bg-border" aria-hidden />
+
+        <button
+          type="button"
+          aria-pressed={filters.is_archived}
+          onClick={() =>
+            onChange({ is_archived: filters.is_archived ? undefined : true })
+          }
+          className={chipClassName}
+        >
+          ARCHIVED
+        </button>
+
+        {hasActiveCampaignFilters(filters) && (
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                search: undefined,
+                type: undefined,
+                is_active: undefined,
+                property_id: undefined,
+                is_archived: undefined,
+              })
+            }
+            className="ml-auto px-4 py-2 bg-pop text-foreground font-mono text-xs rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+          >
+            CLEAR_FILTERS
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,584 @@
+"use client";
+
+import { useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import AttachmentManager from "@/components/dashboard/attachment-manager";
+import CampaignPreview from "@/components/dashboard/campaign-preview";
+import TemplateEditor from "@/components/dashboard/template-editor";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Switch } from "@/components/ui/switch";
+import { isApiError } from "@/lib/apiClient";
+import {
+  EMAIL_CONTENT_TYPES,
+  EMAIL_SUBJECT_MAX,
+  NOTIFICATION_BODY_MAX,
+  NOTIFICATION_TITLE_MAX,
+  SMS_MAX_SEGMENTS,
+  formatSmsCost,
+  measurableText,
+  smsStats,
+} from "@/lib/campaign-channels";
+import {
+  CAMPAIGN_TYPES,
+  CLIENT_VARIABLE_SOURCES,
+  lintTemplate,
+} from "@/lib/campaign-template";
+import {
+  campaignFormSchema,
+  type CampaignFormInput,
+  type CampaignFormValues,
+} from "@/lib/schemas";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+
+const FORM_FIELDS = [
+  "title",
+  "type",
+  "property_id",
+  "subject",
+  "message",
+  "change_note",
+] as const;
+
+const inputClassName =
+  "w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent aria-[invalid=true]:border-destructive transition-all duration-200";
+
+const labelClassName = "text-foreground font-mono text-sm font-medium";
+
+const hintClassName = "text-xs font-mono";
+
+export default function CampaignForm({
+  defaultValues,
+  lockWorkspace,
+  submitLabel,
+  pendingLabel,
+  onSubmit,
+  onCancel,
+}: {
+  defaultValues?: Partial<CampaignFormInput>;
+  /** Existing templates stay in their workspace. */
+  lockWorkspace?: boolean;
+  submitLabel: string;
+  pendingLabel: string;
+  /** Throw to keep the form open; ApiErrors are mapped onto the fields. */
+  onSubmit: (values: CampaignFormValues) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const { workspaces, loading: workspacesLoading } = useWorkspaces();
+  const [uploading, setUploading] = useState(false);
+
+  const form = useForm<CampaignFormInput, unknown, CampaignFormValues>({
+    resolver: zodResolver(campaignFormSchema),
+    defaultValues: {
+      title: "",
+      type: "email",
+      property_id: "",
+      message: "",
+      variables: [],
+      is_active: true,
+      subject: "",
+      content_type: "text",
+      attachments: [],
+      change_note: "",
+      ...defaultValues,
+    },
+  });
+
+  const {
+    formState: { isSubmitting, errors },
+  } = form;
+
+  const variables = useFieldArray({ control: form.control, name: "variables" });
+
+  const title = form.watch("title");
+  const type = form.watch("type");
+  const subject = form.watch("subject");
+  const contentType = form.watch("content_type");
+  const message = form.watch("message");
+  const propertyId = form.watch("property_id");
+  const variableRows = form.watch("variables");
+  const variableMap = Object.fromEntries(
+    variableRows
+      .filter((row) => row.name.trim())
+      .map((row) => [row.name.trim(), row.source.trim()])
+  );
+  // SMS has no subject line, so variables there don't count as used.
+  const lint = lintTemplate(
+    type === "sms" ? message : `${subject}\n${message}`,
+    variableMap
+  );
+
+  async function submit(values: CampaignFormValues) {
+    try {
+      await onSubmit(values);
+    } catch (err: any) {
+      if (!isApiError(err)) {
+        form.setError("root", { message: err?.message || String(err) });
+        return;
+      }
+      for (const field of FORM_FIELDS) {
+        if (err.fieldErrors[field]) {
+          form.setError(field, { message: err.fieldErrors[field] });
+        }
+      }
+      form.setError("root", { message: err.message });
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,3fr)_minmax(0,2fr)] gap-6">
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit(submit)}
+          className="bg-card border border-border rounded-xl p-6 space-y-6"
+          noValidate
+        >
+          <FormField
+            control={form.control}
+            name="title"
+            render={({ field }) => (
+              <FormItem className="space-y-1">
+                <FormLabel className={labelClassName}>TEMPLATE_TITLE</FormLabel>
+                <FormControl>
+                  <input
+                    {...field}
+                    placeholder="WELCOME_SERIES_01"
+                    autoComplete="off"
+                    disabled={isSubmitting}
+                    className={inputClassName}
+                  />
+                </FormControl>
+                <FormMessage className={hintClassName} />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel className={labelClassName}>CHANNEL</FormLabel>
+                  <FormControl>
+                    <select
+                      {...field}
+                      disabled={isSubmitting}
+                      className={inputClassName}
+                    >
+                      {CAMPAIGN_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {type.toUpperCase()}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormMessage className={hintClassName} />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="property_id"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel className={labelClassName}>WORKSPACE</FormLabel>
+                  <FormControl>
+                    <select
+                      {...field}
+                      disabled={isSubmitting || lockWorkspace}
+                      className={inputClassName}
+                    >
+                      <option value="">
+                        {workspacesLoading ? "LOADING..." : "SELECT_WORKSPACE"}
+                      </option>
+                      {workspaces.map((w) => (
+                        <option key={w._id} value={w._id}>
+                          {w.name}
+                        </option>
+                      ))}
+                      {field.value &&
+                        !workspaces.some((w) => w._id === field.value) && (
+                          <option value={field.value}>{field.value}</option>
+                        )}
+                    </select>
+                  </FormControl>
+                  <FormMessage className={hintClassName} />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          {type === "email" && (
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-6">
+              <FormField
+                control={form.control}
+                name="subject"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel className={labelClassName}>SUBJECT</FormLabel>
+                    <FormControl>
+                      <input
+                        {...field}
+                        placeholder="Welcome aboard, {{name}}"
+                        autoComplete="off"
+                        maxLength={EMAIL_SUBJECT_MAX}
+                        disabled={isSubmitting}
+                        className={inputClassName}
+                      />
+                    </FormControl>
+                    <FormMessage className={hintClassName} />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="content_type"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel className={labelClassName}>FORMAT</FormLabel>
+                    <FormControl>
+                      <select
+                        {...field}
+                        disabled={isSubmitting}
+                        className={inputClassName}
+                      >
+                        {EMAIL_CONTENT_TYPES.map((contentType) => (
+                          <option key={contentType} value={contentType}>
+                            {contentType === "html" ? "HTML" : "PLAIN_TEXT"}
+                          </option>
+                        ))}
+                      </select>
+                    </FormControl>
+                    <FormMessage className={hintClassName} />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+
+          {type === "notification" && (
+            <FormField
+              control={form.control}
+              name="subject"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel className={labelClassName}>
+                    NOTIFICATION_TITLE
+                  </FormLabel>
+                  <FormControl>
+                    <input
+                      {...field}
+                      placeholder="Your report is ready"
+                      autoComplete="off"
+                      disabled={isSubmitting}
+                      className={inputClassName}
+                    />
+                  </FormControl>
+                  <LengthMeter
+                    length={measurableText(field.value).length}
+                    max={NOTIFICATION_TITLE_MAX}
+                  />
+                  <FormMessage className={hintClassName} />
+                </FormItem>
+              )}
+            />
+          )}
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className={labelClassName}>VARIABLE_MAP</span>
+              <button
+                type="button"
+                onClick={() => variables.append({ name: "", source: "name" })}
+                disabled={isSubmitting}
+                className="px-3 py-1.5 bg-pop text-foreground font-mono text-xs rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+              >
+                + ADD_VARIABLE
+              </button>
+            </div>
+
+            {variables.fields.length === 0 && (
+              <p className="text-xs font-mono text-muted-foreground">
+                NO_VARIABLES // MAP_A_NAME_TO_A_CLIENT_FIELD_TO_USE_IT_AS{" "}
+                {"{{name}}"}
+              </p>
+            )}
+
+            {variables.fields.map((row, index) => (
+              <div
+                key={row.id}
+                className="grid grid-cols-[1fr_1fr_auto] gap-3 items-start"
+              >
+                <FormField
+                  control={form.control}
+                  name={`variables.${index}.name`}
+                  render={({ field }) => (
+                    <FormItem className="space-y-1">
+                      <FormControl>
+                        <input
+                          {...field}
+                          aria-label="VARIABLE_NAME"
+                          placeholder="first_name"
+                          autoComplete="off"
+                          disabled={isSubmitting}
+                          className={inputClassName}
+                        />
+                      </FormControl>
+                      <FormMessage className={hintClassName} />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`variables.${index}.source`}
+                  render={({ field }) => (
+                    <FormItem className="space-y-1">
+                      <FormControl>
+                        <input
+                          {...field}
+                          aria-label="CLIENT_FIELD"
+                          list="client-variable-sources"
+                          placeholder="name"
+                          autoComplete="off"
+                          disabled={isSubmitting}
+                          className={inputClassName}
+                        />
+                      </FormControl>
+                      <FormMessage className={hintClassName} />
+                    </FormItem>
+                  )}
+                />
+                <button
+                  type="button"
+                  aria-label="REMOVE_VARIABLE"
+                  onClick={() => variables.remove(index)}
+                  disabled={isSubmitting}
+                  className="px-3 py-3 bg-pop text-muted-foreground font-mono text-sm rounded-lg border border-border hover:text-destructive transition-all duration-200"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <datalist id="client-variable-sources">
+              {CLIENT_VARIABLE_SOURCES.map((source) => (
+                <option key={source} value={source} />
+              ))}
+            </datalist>
+          </div>
+
+          <FormField
+            control={form.control}
+            name="message"
+            render={({ field }) => (
+              <FormItem className="space-y-1">
+                <FormLabel className={labelClassName}>MESSAGE_BODY</FormLabel>
+                <FormControl>
+                  <TemplateEditor
+                    ref={field.ref}
+                    value={field.value}
+                    onChange={field.onChange}
+                    onBlur={field.onBlur}
+                    variables={Object.keys(variableMap)}
+                    placeholder={
+                      type === "email" && contentType === "html"
+                        ? "<p>Hi {{name}}, ...</p>"
+                        : "Hi {{name}}, ..."
+                    }
+                    disabled={isSubmitting}
+                    className={`${inputClassName} min-h-[200px] resize-vertical`}
+                  />
+                </FormControl>
+                {type === "sms" && <SmsMeter message={field.value} />}
+                {type === "notification" && (
+                  <LengthMeter
+                    length={measurableText(field.value).length}
+                    max={NOTIFICATION_BODY_MAX}
+                  />
+                )}
+                <FormMessage className={hintClassName} />
+              </FormItem>
+            )}
+          />
+
+          {lint.undefined.length > 0 && (
+            <div className="rounded-lg border border-destructive bg-destructive/10 p-4 font-mono text-xs text-destructive space-y-2">
+              <div>UNDEFINED_VARIABLES // SENT_LITERALLY_UNLESS_MAPPED</div>
+              <div className="flex flex-wrap gap-2">
+                {lint.undefined.map((name) => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => variables.append({ name, source: "" })}
+                    className="px-2 py-1 rounded border border-destructive hover:bg-destructive/10"
+                  >
+                    {`{{${name}}}`} + MAP
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {lint.unused.length > 0 && (
+            <div className="rounded-lg border border-warning bg-warning/10 p-4 font-mono text-xs text-warning">
+              UNUSED_VARIABLES:{" "}
+              {lint.unused.map((name) => `{{${name}}}`).join(", ")}
+            </div>
+          )}
+
+          <FormField
+            control={form.control}
+            name="attachments"
+            render={({ field }) => (
+              <FormItem className="space-y-1">
+                <FormLabel className={labelClassName}>ATTACHMENTS</FormLabel>
+                <AttachmentManager
+                  value={field.value}
+                  onChange={field.onChange}
+                  propertyId={propertyId}
+                  disabled={isSubmitting}
+                  onUploadingChange={setUploading}
+                />
+                <FormMessage className={hintClassName} />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="is_active"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between rounded-lg border border-border bg-pop p-4">
+                <div>
+                  <FormLabel className={labelClassName}>ACTIVE</FormLabel>
+                  <p className="text-xs font-mono text-muted-foreground">
+                    INACTIVE_TEMPLATES_CANNOT_BE_SENT
+                  </p>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={isSubmitting}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="change_note"
+            render={({ field }) => (
+              <FormItem className="space-y-1">
+                <FormLabel className={labelClassName}>CHANGE_NOTE</FormLabel>
+                <FormControl>
+                  <input
+                    {...field}
+                    placeholder="What changed and why (kept in the history)"
+                    autoComplete="off"
+                    maxLength={280}
+                    disabled={isSubmitting}
+                    className={inputClassName}
+                  />
+                </FormControl>
+                <FormMessage className={hintClassName} />
+              </FormItem>
+            )}
+          />
+
+          {errors.root && (
+            <div
+              role="alert"
+              className="rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive font-mono text-sm"
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <div className="w-1.5 h-1.5 bg-destructive rounded-full"></div>
+                <span>SUBMISSION_ERROR</span>
+              </div>
+              {errors.root.message}
+            </div>
+          )}
+
+          <div className="flex items-center gap-4 pt-4 border-t border-border">
+            <button
+              type="submit"
+              disabled={isSubmitting || uploading}
+              className="px-6 py-3 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-card transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting
+                ? pendingLabel
+                : uploading
+                ? "UPLOADING_ATTACHMENTS..."
+                : submitLabel}
+            </button>
+
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isSubmitting}
+              className="px-6 py-3 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-card transition-all duration-200 disabled:opacity-50"
+            >
+              CANCEL
+            </button>
+          </div>
+        </form>
+      </Form>
+
+      <div className="xl:sticky xl:top-6 self-start">
+        <CampaignPreview
+          type={type}
+          title={title}
+          subject={subject}
+          contentType={contentType}
+          message={message}
+          variableMap={variableMap}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Counts are taken on the template with variables as their bare names; the
+// preview shows the real length for each sample client.
+function LengthMeter({ length, max }: { length: number; max: number }) {
+  return (
+    <div
+      className={`${hintClassName} text-right ${
+        length > max ? "text-destructive" : "text-muted-foreground"
+      }`}
+    >
+      {length} / {max}
+    </div>
+  );
+}
+
+function SmsMeter({ message }: { message: string }) {
+  const stats = smsStats(measurableText(message));
+  const tone =
+    stats.segments > SMS_MAX_SEGMENTS
+      ? "text-destructive"
+      : stats.segments > 1
+      ? "text-warning"
+      : "text-muted-foreground";
+
+  return (
+    <div
+      className={`${hintClassName} ${tone} flex flex-wrap justify-between gap-x-4`}
+    >
+      <span>
+        {stats.encoding} // {stats.units} CHARS // {stats.segments} /{" "}
+        {SMS_MAX_SEGMENTS} SEGMENTS // {stats.remaining} LEFT_IN_SEGMENT
+      </span>
+      <span>~{formatSmsCost(stats.cost)} PER_RECIPIENT</span>
+    </div>
+  );
+}
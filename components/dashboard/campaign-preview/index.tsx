@@ -0,0 +1,336 @@
+"use client";
+
+import { useState } from "react";
+import {
+  NOTIFICATION_BODY_MAX,
+  NOTIFICATION_TITLE_MAX,
+  SMS_MAX_SEGMENTS,
+  formatSmsCost,
+  htmlToText,
+  smsStats,
+  type EmailContentType,
+} from "@/lib/campaign-channels";
+import {
+  SAMPLE_CLIENTS,
+  renderTemplate,
+  renderTemplateText,
+  type TemplateSegment,
+} from "@/lib/campaign-template";
+import type { Client } from "@/lib/schemas";
+
+/**
+ * Renders a template against sample client data the way its channel would
+ * show it. Resolved variables are highlighted; variables that would be sent
+ * literally are marked in red.
+ */
+export default function CampaignPreview({
+  type,
+  title,
+  subject = "",
+  contentType = "text",
+  message,
+  variableMap,
+  samples = SAMPLE_CLIENTS,
+}: {
+  type: string;
+  title: string;
+  /** Email subject or notification title. */
+  subject?: string;
+  contentType?: EmailContentType;
+  message: string;
+  variableMap: Record<string, string>;
+  samples?: Client[];
+}) {
+  const [sampleId, setSampleId] = useState(samples[0]?._id);
+  const sample = samples.find((c) => c._id === sampleId) ?? samples[0];
+  const render = (text: string) => renderTemplate(text, variableMap, sample);
+  const renderText = (text: string) =>
+    renderTemplateText(text, variableMap, sample);
+
+  let body: React.ReactNode;
+  switch (type) {
+    case "sms":
+      body = (
+        <SmsPreview text={renderText(message)} segments={render(message)} />
+      );
+      break;
+    case "email":
+      body = (
+        <EmailPreview
+          to={sample?.email}
+          subject={render(subject)}
+          segments={render(message)}
+          contentType={contentType}
+        />
+      );
+      break;
+    case "notification":
+      body = (
+        <NotificationPreview
+          title={renderText(subject)}
+          body={renderText(message)}
+        />
+      );
+      break;
+    default:
+      body = (
+        <div className="rounded-lg border border-border bg-pop p-4 space-y-3">
+          <div className="text-sm font-semibold text-foreground">
+            {title || "UNTITLED_TEMPLATE"}
+          </div>
+          <p className="text-sm text-foreground whitespace-pre-wrap break-words">
+            <Segments segments={render(message)} empty="EMPTY_MESSAGE" />
+          </p>
+        </div>
+      );
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6 space-y-4 font-mono">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-muted-foreground">
+          LIVE_PREVIEW // {type.toUpperCase()}
+        </span>
+        <select
+          aria-label="SAMPLE_CLIENT"
+          value={sample?._id}
+          onChange={(e) => setSampleId(e.target.value)}
+          className="bg-input border border-border rounded-lg px-3 py-1.5 text-foreground text-xs focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          {samples.map((c) => (
+            <option key={c._id} value={c._id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {body}
+    </div>
+  );
+}
+
+function Segments({
+  segments,
+  empty,
+}: {
+  segments: TemplateSegment[];
+  empty: string;
+}) {
+  if (segments.length === 0) {
+    return <span className="text-muted-foreground">{empty}</span>;
+  }
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.kind === "text" ? (
+          <span key={i}>{segment.text}</span>
+        ) : segment.value !== null ? (
+          <mark
+            key={i}
+            title={`{{${segment.name}}}`}
+            className="rounded bg-primary/20 px-0.5 text-foreground"
+          >
+            {segment.value}
+          </mark>
+        ) : (
+          <mark
+            key={i}
+            title="UNRESOLVED_VARIABLE"
+            className="rounded bg-destructive/20 px-0.5 text-destructive"
+          >
+            {`{{${segment.name}}}`}
+          </mark>
+        )
+      )}
+    </>
+  );
+}
+
+function SmsPreview({
+  text,
+  segments,
+}: {
+  text: string;
+  segments: TemplateSegment[];
+}) {
+  const stats = smsStats(text);
+  const tooLong = stats.segments > SMS_MAX_SEGMENTS;
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-lg border border-border bg-pop p-4">
+        <p className="max-w-[85%] rounded-2xl rounded-bl-sm bg-input px-4 py-3 text-sm text-foreground whitespace-pre-wrap break-words">
+          <Segments segments={segments} empty="EMPTY_MESSAGE" />
+        </p>
+      </div>
+      <dl className="grid grid-cols-3 gap-3 text-xs">
+        <div>
+          <dt className="text-muted-foreground">ENCODING</dt>
+          <dd className="text-foreground">{stats.encoding}</dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">SEGMENTS</dt>
+          <dd className={tooLong ? "text-destructive" : "text-foreground"}>
+            {stats.segments} / {SMS_MAX_SEGMENTS}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">COST_PER_SEND</dt>
+          <dd className="text-foreground">{formatSmsCost(stats.cost)}</dd>
+        </div>
+      </dl>
+      {stats.nonGsm.length > 0 && (
+        <p className="text-xs text-warning">
+          UCS-2_FORCED_BY: {stats.nonGsm.join(" ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function EmailPreview({
+  to,
+  subject,
+  segments,
+  contentType,
+}: {
+  to?: string;
+  subject: TemplateSegment[];
+  segments: TemplateSegment[];
+  contentType: EmailContentType;
+}) {
+  const [view, setView] = useState<"html" | "text">("html");
+  const html = contentType === "html";
+  const tabClassName = (active: boolean) =>
+    `px-2 py-1 rounded border text-xs transition-all duration-200 ${
+      active
+        ? "bg-primary text-primary-foreground border-primary"
+        : "bg-pop text-muted-foreground border-border hover:text-foreground"
+    }`;
+
+  return (
+    <div className="rounded-lg border border-border bg-pop overflow-hidden">
+      <div className="p-4 space-y-1 border-b border-border text-xs">
+        <div className="text-muted-foreground">
+          TO: <span className="text-foreground">{to || "—"}</span>
+        </div>
+        <div className="text-sm font-semibold text-foreground break-words">
+          <Segments segments={subject} empty="NO_SUBJECT" />
+        </div>
+      </div>
+
+      {html && (
+        <div className="flex gap-2 px-4 pt-3">
+          <button
+            type="button"
+            onClick={() => setView("html")}
+            className={tabClassName(view === "html")}
+          >
+            HTML
+          </button>
+          <button
+            type="button"
+            onClick={() => setView("text")}
+            className={tabClassName(view === "text")}
+          >
+            PLAIN_TEXT
+          </button>
+        </div>
+      )}
+
+      <div className="p-4">
+        {html && view === "html" ? (
+          // No sandbox permissions: scripts, forms and navigation in the
+          // template stay inert.
+          <iframe
+            title="EMAIL_HTML_PREVIEW"
+            sandbox=""
+            srcDoc={segmentsToHtml(segments)}
+            className="w-full h-80 rounded border border-border bg-white"
+          />
+        ) : html ? (
+          <pre className="text-sm text-foreground whitespace-pre-wrap break-words">
+            {htmlToText(segmentsToHtml(segments)) || "EMPTY_MESSAGE"}
+          </pre>
+        ) : (
+          <p className="text-sm text-foreground whitespace-pre-wrap break-words">
+            <Segments segments={segments} empty="EMPTY_MESSAGE" />
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function NotificationPreview({ title, body }: { title: string; body: string }) {
+  return (
+    <div className="space-y-3">
+      <div className="rounded-xl border border-border bg-pop p-4 flex gap-3">
+        <div className="w-8 h-8 shrink-0 rounded-lg bg-primary/20" />
+        <div className="min-w-0 space-y-1">
+          <div className="text-sm font-semibold text-foreground break-words">
+            {truncate(title, NOTIFICATION_TITLE_MAX) || "NO_TITLE"}
+          </div>
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">
+            {truncate(body, NOTIFICATION_BODY_MAX) || "EMPTY_MESSAGE"}
+          </p>
+        </div>
+      </div>
+      <dl className="grid grid-cols-2 gap-3 text-xs">
+        <LengthStat
+          label="TITLE"
+          length={title.length}
+          max={NOTIFICATION_TITLE_MAX}
+        />
+        <LengthStat
+          label="BODY"
+          length={body.length}
+          max={NOTIFICATION_BODY_MAX}
+        />
+      </dl>
+    </div>
+  );
+}
+
+function LengthStat({
+  label,
+  length,
+  max,
+}: {
+  label: string;
+  length: number;
+  max: number;
+}) {
+  return (
+    <div>
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className={length > max ? "text-destructive" : "text-foreground"}>
+        {length} / {max}
+      </dd>
+    </div>
+  );
+}
+
+function truncate(text: string, max: number) {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// Variable values come from client records, so they are escaped before they
+// are spliced into the template's markup.
+function segmentsToHtml(segments: TemplateSegment[]) {
+  return segments
+    .map((s) =>
+      s.kind === "text" ? s.text : escapeHtml(s.value ?? `{{${s.name}}}`)
+    )
+    .join("");
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import { StatusNoteDialog } from "@/components/dashboard/client-status-menu";
+import ExportDialog from "@/components/dashboard/export-dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Progress } from "@/components/ui/progress";
+import { callApi, endpoints } from "@/lib/api";
+import { runBulk, type BulkResult } from "@/lib/bulk";
+import { CLIENT_STATUSES, type ClientStatus } from "@/lib/client-filters";
+import { allowedStatusTransitions } from "@/lib/client-status";
+import { useCurrentUser } from "@/lib/current-user-context";
+import { CLIENT_EXPORT_COLUMNS } from "@/lib/export";
+import type { Client } from "@/lib/schemas";
+import { toast } from "@/hooks/use-toast";
+
+// How many failures to name in the summary toast before "+N MORE".
+const MAX_LISTED_FAILURES = 3;
+
+const buttonClassName =
+  "px-3 py-2 font-mono text-xs rounded-lg border transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export default function ClientBulkActions({
+  selected,
+  onClear,
+  onSettled,
+}: {
+  selected: Client[];
+  onClear: () => void;
+  /** Called with the ids that were processed successfully. */
+  onSettled: (succeededIds: string[]) => void;
+}) {
+  const { can } = useCurrentUser();
+  const [running, setRunning] = useState(false);
+  const [statusTarget, setStatusTarget] = useState<ClientStatus | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const eligibleFor = (to: ClientStatus) =>
+    selected.filter((c) =>
+      allowedStatusTransitions(c.status, can).includes(to)
+    );
+  const targets = CLIENT_STATUSES.filter((to) => eligibleFor(to).length > 0);
+
+  const eligibleCount = statusTarget ? eligibleFor(statusTarget).length : 0;
+  const skippedCount = selected.length - eligibleCount;
+
+  async function run(
+    verb: string,
+    items: Client[],
+    worker: (client: Client, signal: AbortSignal) => Promise<unknown>,
+    skipped = 0
+  ) {
+    setRunning(true);
+    const progress = toast({
+      title: `${verb} 0/${items.length}`,
+      description: <Progress value={0} className="mt-2" />,
+      duration: Infinity,
+    });
+
+    const result = await runBulk(items, worker, {
+      onProgress: (done, total) =>
+        progress.update({
+          id: progress.id,
+          title: `${verb} ${done}/${total}`,
+          description: (
+            <Progress value={(done / total) * 100} className="mt-2" />
+          ),
+        }),
+    });
+
+    progress.update({
+      id: progress.id,
+      ...summarize(verb, result, skipped),
+      duration: 8000,
+    });
+    setRunning(false);
+    onSettled(result.succeeded.map((c) => c._id));
+  }
+
+  const changeStatus = (to: ClientStatus, note?: string) => {
+    const eligible = eligibleFor(to);
+    return run(
+      `SET_${to.toUpperCase()}`,
+      eligible,
+      (client, signal) =>
+        callApi(
+          endpoints.clients.updateStatus,
+          { clientId: client._id, status: to, note },
+          { signal }
+        ),
+      selected.length - eligible.length
+    );
+  };
+
+  const deleteSelected = () =>
+    run("DELETE", selected, (client, signal) =>
+      callApi(endpoints.clients.delete, { clientId: client._id }, { signal })
+    );
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-lg border border-primary bg-primary/10 px-4 py-3 font-mono text-sm">
+      <span className="text-foreground">{selected.length} SELECTED</span>
+
+      <div className="w-px h-4 bg-border" />
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={running || targets.length === 0}>
+          <button
+            type="button"
+            className={`${buttonClassName} bg-pop text-foreground border-border hover:bg-pop/50`}
+          >
+            SET_STATUS ▾
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="font-mono">
+          {targets.map((to) => (
+            <DropdownMenuItem
+              key={to}
+              onSelect={() => setStatusTarget(to)}
+              className="font-mono text-xs"
+            >
+              {to.toUpperCase()} ({eligibleFor(to).length})
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ExportDialog
+        resource="clients-selected"
+        columns={CLIENT_EXPORT_COLUMNS}
+        fetchPage={async () => ({ items: selected, totalPages: 1 })}
+        label="EXPORT"
+        triggerClassName={`${buttonClassName} bg-pop text-foreground border-border hover:bg-pop/50`}
+        disabled={running}
+      />
+
+      {can("clients:delete") && (
+        <button
+          type="button"
+          onClick={() => setConfirmDelete(true)}
+          disabled={running}
+          className={`${buttonClassName} bg-destructive text-destructive-foreground border-destructive hover:bg-destructive/90`}
+        >
+          DELETE
+        </button>
+      )}
+
+      <button
+        type="button"
+        onClick={onClear}
+        disabled={running}
+        className="ml-auto text-xs text-muted-foreground hover:text-foreground transition-colors duration-200 disabled:opacity-50"
+      >
+        CLEAR_SELECTION
+      </button>
+
+      <StatusNoteDialog
+        title={`SET ${eligibleCount} CLIENTS → ${statusTarget?.toUpperCase()}`}
+        description={
+          skippedCount > 0
+            ? `${skippedCount} SELECTED CLIENTS CANNOT MAKE THIS MOVE AND WILL BE SKIPPED`
+            : undefined
+        }
+        open={statusTarget !== null}
+        onCancel={() => setStatusTarget(null)}
+        onConfirm={(note) => {
+          if (statusTarget) changeStatus(statusTarget, note);
+          setStatusTarget(null);
+        }}
+      />
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent className="font-mono">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-mono">
+              DELETE {selected.length} CLIENTS?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="font-mono text-xs">
+              THIS_PERMANENTLY_REMOVES_THE_SELECTED_RECORDS_AND_CANNOT_BE_UNDONE
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="font-mono">CANCEL</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={deleteSelected}
+              className="font-mono bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              DELETE_{selected.length}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function summarize(verb: string, result: BulkResult<Client>, skipped: number) {
+  const { succeeded, failed } = result;
+  const lines = [`${succeeded.length} SUCCEEDED`];
+  if (skipped > 0) lines.push(`${skipped} SKIPPED (TRANSITION_NOT_ALLOWED)`);
+  if (failed.length > 0) {
+    lines.push(`${failed.length} FAILED:`);
+    for (const { item, error } of failed.slice(0, MAX_LISTED_FAILURES)) {
+      lines.push(`• ${item.name}: ${(error as Error)?.message || error}`);
+    }
+    if (failed.length > MAX_LISTED_FAILURES) {
+      lines.push(`+${failed.length - MAX_LISTED_FAILURES} MORE`);
+    }
+  }
+
+  return {
+    variant:
+      failed.length > 0 ? ("destructive" as const) : ("default" as const),
+    title:
+      failed.length === 0
+        ? `${verb}_COMPLETE`
+        : succeeded.length === 0
+        ? `${verb}_FAILED`
+        : `${verb}_PARTIALLY_FAILED`,
+    description: <div className="whitespace-pre-line">{lines.join("\n")}</div>,
+  };
+}
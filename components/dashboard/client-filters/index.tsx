@@ -0,0 +1,136 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import DebouncedInput from "@/components/dashboard/debounced-input";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  CLIENT_STATUSES,
+  hasActiveClientFilters,
+  type ClientFilters,
+} from "@/lib/client-filters";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+const fieldClassName =
+  "bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200";
+
+export default function ClientFilterBar({
+  filters,
+  onChange,
+}: {
+  filters: ClientFilters;
+  onChange: (patch: Partial<ClientFilters>) => void;
+}) {
+  const range: DateRange | undefined = filters.submitted_from
+    ? {
+        from: parseISO(filters.submitted_from),
+        to: filters.submitted_to ? parseISO(filters.submitted_to) : undefined,
+      }
+    : undefined;
+
+  return (
+    <div className="py-6 flex flex-col gap-3 border-b border-border">
+      <div className="flex flex-col lg:flex-row gap-3">
+        <DebouncedInput
+          value={filters.search ?? ""}
+          onCommit={(search) => onChange({ search })}
+          placeholder="SEARCH_NAME_EMAIL_MOBILE..."
+          className={`${fieldClassName} flex-1`}
+        />
+
+        <select
+          value={filters.status ?? ""}
+          onChange={(e) =>
+            onChange({
+              status: (e.target.value || undefined) as ClientFilters["status"],
+            })
+          }
+          className={fieldClassName}
+        >
+          <option value="">ALL_STATUSES</option>
+          {CLIENT_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {status.toUpperCase()}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-3">
+        <DebouncedInput
+          value={filters.country ?? ""}
+          onCommit={(country) => onChange({ country })}
+          placeholder="COUNTRY"
+          className={`${fieldClassName} lg:w-48`}
+        />
+
+        <DebouncedInput
+          value={filters.from_route ?? ""}
+          onCommit={(from_route) => onChange({ from_route })}
+          placeholder="FROM_ROUTE"
+          className={`${fieldClassName} lg:w-56`}
+        />
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className={`${fieldClassName} text-left lg:w-72 ${
+                range ? "" : "text-muted-foreground"
+              }`}
+            >
+              {range?.from
+                ? `${format(range.from, DATE_FORMAT)} → ${
+                    range.to ? format(range.to, DATE_FORMAT) : "…"
+                  }`
+                : "SUBMITTED_AT_RANGE"}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              numberOfMonths={2}
+              selected={range}
+              defaultMonth={range?.from}
+              onSelect={(next) =>
+                onChange({
+                  submitted_from: next?.from
+                    ? format(next.from, DATE_FORMAT)
+                    : undefined,
+                  submitted_to: next?.to
+                    ? format(next.to, DATE_FORMAT)
+                    : undefined,
+                })
+              }
+            />
+          </PopoverContent>
+        </Popover>
+
+        {hasActiveClientFilters(filters) && (
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                search: undefined,
+                status: undefined,
+                country: undefined,
+                from_route: undefined,
+                submitted_from: undefined,
+                submitted_to: undefined,
+              })
+            }
+            className="px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200"
+          >
+            CLEAR_FILTERS
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { isApiError } from "@/lib/apiClient";
+import { CLIENT_STATUSES } from "@/lib/client-filters";
+import {
+  clientFormSchema,
+  type ClientFormInput,
+  type ClientFormValues,
+} from "@/lib/schemas";
+
+const FORM_FIELDS = [
+  "name",
+  "mobile_number",
+  "email",
+  "message",
+  "status",
+] as const;
+
+// Fields the backend uses to decide that a client already exists.
+const DUPLICATE_FIELDS = ["email", "mobile_number"] as const;
+
+const inputClassName =
+  "w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent aria-[invalid=true]:border-destructive transition-all duration-200";
+
+const labelClassName = "text-foreground font-mono text-sm font-medium";
+
+const hintClassName = "text-xs font-mono";
+
+export default function ClientForm({
+  defaultValues,
+  statuses = CLIENT_STATUSES,
+  submitLabel,
+  pendingLabel,
+  onSubmit,
+  onCancel,
+}: {
+  defaultValues?: Partial<ClientFormInput>;
+  /**
+   * Statuses offered in the form. Empty hides the field: existing clients
+   * change status through the workflow menu instead.
+   */
+  statuses?: readonly ClientFormInput["status"][];
+  submitLabel: string;
+  pendingLabel: string;
+  /** Throw to keep the form open; ApiErrors are mapped onto the fields. */
+  onSubmit: (values: ClientFormValues) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const form = useForm<ClientFormInput, unknown, ClientFormValues>({
+    resolver: zodResolver(clientFormSchema),
+    defaultValues: {
+      name: "",
+      mobile_number: "",
+      email: "",
+      message: "",
+      status: "new",
+      ...defaultValues,
+    },
+  });
+
+  const {
+    formState: { isSubmitting, errors },
+  } = form;
+
+  async function submit(values: ClientFormValues) {
+    try {
+      await onSubmit(values);
+    } catch (err: any) {
+      if (!isApiError(err)) {
+        form.setError("root", { message: err?.message || String(err) });
+        return;
+      }
+
+      const fieldErrors = err.fieldErrors;
+      for (const field of FORM_FIELDS) {
+        if (fieldErrors[field]) {
+          form.setError(field, { message: fieldErrors[field] });
+        }
+      }
+
+      if (err.code === "CONFLICT" || err.status === 409) {
+        const flagged = DUPLICATE_FIELDS.filter((f) => fieldErrors[f]);
+        // Without per-field detail we can't tell which key collided.
+        if (flagged.length === 0) {
+          DUPLICATE_FIELDS.forEach((field) =>
+            form.setError(field, { message: "MAY_ALREADY_BE_REGISTERED" })
+          );
+        }
+        form.setError("root", {
+          message: `DUPLICATE_CLIENT: ${err.message}`,
+        });
+        return;
+      }
+
+      form.setError("root", { message: err.message });
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(submit)}
+        className="space-y-6"
+        noValidate
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem className="space-y-1">
+              <FormLabel className={labelClassName}>CLIENT_NAME</FormLabel>
+              <FormControl>
+                <input
+                  {...field}
+                  placeholder="JANE_DOE"
+                  autoComplete="off"
+                  disabled={isSubmitting}
+                  className={inputClassName}
+                />
+              </FormControl>
+              <FormMessage className={hintClassName} />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="mobile_number"
+            render={({ field }) => (
+              <FormItem className="space-y-1">
+                <FormLabel className={labelClassName}>MOBILE_NUMBER</FormLabel>
+                <FormControl>
+                  <input
+                    {...field}
+                    type="tel"
+                    inputMode="tel"
+                    placeholder="+91 98765 43210"
+                    disabled={isSubmitting}
+                    className={inputClassName}
+                  />
+                </FormControl>
+                {!errors.mobile_number && (
+                  <FormDescription
+                    className={`${hintClassName} text-muted-foreground`}
+                  >
+                    INCLUDE_COUNTRY_CODE
+                  </FormDescription>
+                )}
+                <FormMessage className={hintClassName} />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem className="space-y-1">
+                <FormLabel className={labelClassName}>EMAIL_ADDRESS</FormLabel>
+                <FormControl>
+                  <input
+                    {...field}
+                    type="email"
+                    placeholder="client@domain.com"
+                    disabled={isSubmitting}
+                    className={inputClassName}
+                  />
+                </FormControl>
+                <FormMessage className={hintClassName} />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {statuses.length > 0 && (
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem className="space-y-1">
+                <FormLabel className={labelClassName}>STATUS</FormLabel>
+                <FormControl>
+                  <select
+                    {...field}
+                    disabled={isSubmitting || statuses.length < 2}
+                    className={inputClassName}
+                  >
+                    {statuses.map((status) => (
+                      <option key={status} value={status}>
+                        {status.toUpperCase()}
+                      </option>
+                    ))}
+                  </select>
+                </FormControl>
+                <FormMessage className={hintClassName} />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="message"
+          render={({ field }) => (
+            <FormItem className="space-y-1">
+              <FormLabel className={labelClassName}>MESSAGE</FormLabel>
+              <FormControl>
+                <textarea
+                  {...field}
+                  value={field.value ?? ""}
+                  placeholder="OPTIONAL_NOTES_FROM_THE_CLIENT"
+                  disabled={isSubmitting}
+                  className={`${inputClassName} min-h-[120px] resize-vertical`}
+                />
+              </FormControl>
+              <FormMessage className={hintClassName} />
+            </FormItem>
+          )}
+        />
+
+        {errors.root && (
+          <div
+            role="alert"
+            className="rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive font-mono text-sm"
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <div className="w-1.5 h-1.5 bg-destructive rounded-full"></div>
+              <span>SUBMISSION_ERROR</span>
+            </div>
+            {errors.root.message}
+          </div>
+        )}
+
+        <div className="flex items-center gap-4 pt-4 border-t border-border">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-6 py-3 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-card transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? pendingLabel : submitLabel}
+          </button>
+
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="px-6 py-3 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:ring-offset-card transition-all duration-200 disabled:opacity-50"
+          >
+            CANCEL
+          </button>
+        </div>
+      </form>
+    </Form>
+  );
+}
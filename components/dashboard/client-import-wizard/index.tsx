@@ -0,0 +1,451 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { Progress } from "@/components/ui/progress";
+import { callApi, endpoints } from "@/lib/api";
+import { runBulk } from "@/lib/bulk";
+import { CLIENT_STATUSES, type ClientStatus } from "@/lib/client-filters";
+import {
+  CLIENT_IMPORT_FIELDS,
+  IMPORT_SUMMARY_COLUMNS,
+  MAX_IMPORT_ROWS,
+  guessColumnMapping,
+  missingRequiredFields,
+  summarizeImport,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportSummaryRow,
+} from "@/lib/client-import";
+import { parseCsv } from "@/lib/csv";
+import { downloadExport } from "@/lib/export";
+
+// Requests in flight at once while submitting.
+const IMPORT_CONCURRENCY = 4;
+// Rows rendered in the review table; the summary file has all of them.
+const MAX_REVIEW_ROWS = 200;
+
+type Step = "upload" | "map" | "review" | "submit";
+
+const STEPS: Step[] = ["upload", "map", "review", "submit"];
+
+const selectClassName =
+  "bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200";
+const primaryButtonClassName =
+  "px-4 py-2 bg-primary text-primary-foreground font-mono text-sm rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+const secondaryButtonClassName =
+  "px-4 py-2 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Upload → map columns → review per-row errors → submit. Everything up to
+ * the submit step happens in the browser; valid rows are then created one
+ * request each through `clients.create`.
+ */
+export default function ClientImportWizard() {
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(() =>
+    guessColumnMapping([])
+  );
+  const [defaultStatus, setDefaultStatus] = useState<ClientStatus>("new");
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [onlyErrors, setOnlyErrors] = useState(true);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [summary, setSummary] = useState<ImportSummaryRow[] | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const rows = useMemo(
+    () =>
+      step === "review" || step === "submit"
+        ? validateImportRows(dataRows, mapping, defaultStatus)
+        : [],
+    [step, dataRows, mapping, defaultStatus]
+  );
+  const validRows = rows.filter((r) => r.values);
+  const invalidCount = rows.length - validRows.length;
+  const reviewRows = (onlyErrors ? rows.filter((r) => !r.values) : rows).slice(
+    0,
+    MAX_REVIEW_ROWS
+  );
+  const missing = missingRequiredFields(mapping);
+
+  async function loadFile(file: File) {
+    setParseError(null);
+    try {
+      const [header, ...body] = parseCsv(await file.text());
+      if (!header || body.length === 0) {
+        setParseError("FILE_HAS_NO_DATA_ROWS");
+        return;
+      }
+      if (body.length > MAX_IMPORT_ROWS) {
+        setParseError(
+          `TOO_MANY_ROWS: ${body.length} (MAX ${MAX_IMPORT_ROWS} PER FILE)`
+        );
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(header.map((h) => h.trim()));
+      setDataRows(body);
+      setMapping(guessColumnMapping(header));
+      setStep("map");
+    } catch (err: any) {
+      setParseError(err?.message || "FILE_COULD_NOT_BE_READ");
+    }
+  }
+
+  async function submit() {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setSummary(null);
+    setProgress({ done: 0, total: validRows.length });
+    setStep("submit");
+
+    const result = await runBulk(
+      validRows,
+      (row, signal) =>
+        callApi(endpoints.clients.create, row.values!, { signal }),
+      {
+        concurrency: IMPORT_CONCURRENCY,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      }
+    );
+
+    controllerRef.current = null;
+    setSummary(summarizeImport(rows, result));
+  }
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setDataRows([]);
+    setSummary(null);
+  };
+
+  const counts = summary?.reduce(
+    (acc, row) => ({ ...acc, [row.outcome]: acc[row.outcome] + 1 }),
+    { created: 0, skipped: 0, failed: 0 }
+  );
+
+  return (
+    <div className="space-y-6 font-mono">
+      <ol className="flex flex-wrap gap-2 text-xs">
+        {STEPS.map((s, i) => (
+          <li
+            key={s}
+            aria-current={s === step ? "step" : undefined}
+            className="px-3 py-1.5 rounded-lg border border-border bg-pop text-muted-foreground aria-[current=step]:bg-primary aria-[current=step]:text-primary-foreground"
+          >
+            {i + 1}. {s.toUpperCase()}
+          </li>
+        ))}
+      </ol>
+
+      {step === "upload" && (
+        <div className="bg-card border border-border rounded-xl p-6 space-y-4">
+          <p className="text-muted-foreground text-sm">
+            SELECT_A_CSV_FILE_WITH_A_HEADER_ROW // MAX {MAX_IMPORT_ROWS} ROWS
+          </p>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadFile(file);
+              e.target.value = "";
+            }}
+            className="block w-full text-sm text-foreground file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border file:border-border file:bg-pop file:text-foreground file:font-mono file:text-sm hover:file:bg-pop/50"
+          />
+          {parseError && (
+            <div
+              role="alert"
+              className="rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive text-sm"
+            >
+              {parseError}
+            </div>
+          )}
+        </div>
+      )}
+
+      {step === "map" && (
+        <div className="bg-card border border-border rounded-xl p-6 space-y-6">
+          <p className="text-muted-foreground text-sm">
+            {fileName} // {dataRows.length} ROWS // MAP_FILE_COLUMNS_TO_FIELDS
+          </p>
+
+          <div className="space-y-3">
+            {CLIENT_IMPORT_FIELDS.map((field) => {
+              const column = mapping[field.key];
+              return (
+                <div
+                  key={field.key}
+                  className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:items-center"
+                >
+                  <label
+                    htmlFor={`map-${field.key}`}
+                    className="text-sm text-foreground"
+                  >
+                    {field.label}
+                    {field.required && (
+                      <span className="text-destructive"> *</span>
+                    )}
+                  </label>
+                  <select
+                    id={`map-${field.key}`}
+                    className={selectClassName}
+                    value={column ?? ""}
+                    onChange={(e) =>
+                      setMapping((prev) => ({
+                        ...prev,
+                        [field.key]:
+                          e.target.value === "" ? null : Number(e.target.value),
+                      }))
+                    }
+                  >
+                    <option value="">— NOT_MAPPED —</option>
+                    {headers.map((header, i) => (
+                      <option key={i} value={i}>
+                        {header || `COLUMN_${i + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-xs text-muted-foreground truncate">
+                    {column !== null && dataRows[0]?.[column]
+                      ? `e.g. ${dataRows[0][column]}`
+                      : ""}
+                  </span>
+                </div>
+              );
+            })}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:items-center">
+              <label
+                htmlFor="default-status"
+                className="text-sm text-foreground"
+              >
+                DEFAULT_STATUS
+              </label>
+              <select
+                id="default-status"
+                className={selectClassName}
+                value={defaultStatus}
+                onChange={(e) =>
+                  setDefaultStatus(e.target.value as ClientStatus)
+                }
+              >
+                {CLIENT_STATUSES.map((s) => (
+                  <option key={s} value={s}>
+                    {s.toUpperCase()}
+                  </option>
+                ))}
+              </select>
+              <span className="text-xs text-muted-foreground">
+                USED_WHEN_THE_STATUS_CELL_IS_EMPTY
+              </span>
+            </div>
+          </div>
+
+          {missing.length > 0 && (
+            <div className="rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive text-sm">
+              REQUIRED_FIELDS_NOT_MAPPED: {missing.join(", ").toUpperCase()}
+            </div>
+          )}
+
+          <div className="flex justify-between gap-3">
+            <button
+              type="button"
+              onClick={reset}
+              className={secondaryButtonClassName}
+            >
+              CHOOSE_ANOTHER_FILE
+            </button>
+            <button
+              type="button"
+              onClick={() => setStep("review")}
+              disabled={missing.length > 0}
+              className={primaryButtonClassName}
+            >
+              VALIDATE_ROWS
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === "review" && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4 text-sm">
+            <div className="flex gap-4">
+              <span className="text-success">{validRows.length} VALID</span>
+              <span className="text-destructive">{invalidCount} INVALID</span>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={onlyErrors}
+                onChange={(e) => setOnlyErrors(e.target.checked)}
+              />
+              SHOW_ONLY_INVALID_ROWS
+            </label>
+          </div>
+
+          {reviewRows.length > 0 ? (
+            <div className="overflow-x-auto rounded-xl border border-border">
+              <table className="min-w-full text-sm">
+                <thead className="bg-pop border-b border-border">
+                  <tr>
+                    <th className="text-left px-4 py-3 text-muted-foreground font-medium text-xs">
+                      LINE
+                    </th>
+                    {CLIENT_IMPORT_FIELDS.map((f) => (
+                      <th
+                        key={f.key}
+                        className="text-left px-4 py-3 text-muted-foreground font-medium text-xs"
+                      >
+                        {f.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border bg-card">
+                  {reviewRows.map((row) => (
+                    <tr
+                      key={row.line}
+                      className={row.values ? "" : "bg-destructive/5"}
+                    >
+                      <td className="px-4 py-3 text-muted-foreground">
+                        {row.line}
+                      </td>
+                      {CLIENT_IMPORT_FIELDS.map((f) => (
+                        <td key={f.key} className="px-4 py-3 align-top">
+                          <div className="text-foreground truncate max-w-[16rem]">
+                            {row.raw[f.key] || (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </div>
+                          {row.errors[f.key] && (
+                            <div className="text-xs text-destructive mt-1">
+                              {row.errors[f.key]}
+                            </div>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="rounded-lg border border-border bg-pop p-8 text-center text-muted-foreground">
+              ALL_ROWS_ARE_VALID
+            </div>
+          )}
+
+          {(onlyErrors ? invalidCount : rows.length) > MAX_REVIEW_ROWS && (
+            <p className="text-xs text-muted-foreground">
+              SHOWING_FIRST_{MAX_REVIEW_ROWS}_ROWS
+            </p>
+          )}
+
+          <div className="flex justify-between gap-3">
+            <button
+              type="button"
+              onClick={() => setStep("map")}
+              className={secondaryButtonClassName}
+            >
+              BACK_TO_MAPPING
+            </button>
+            <button
+              type="button"
+              onClick={submit}
+              disabled={validRows.length === 0}
+              className={primaryButtonClassName}
+            >
+              IMPORT_{validRows.length}_ROWS
+              {invalidCount > 0 && ` (SKIP ${invalidCount})`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === "submit" && (
+        <div className="bg-card border border-border rounded-xl p-6 space-y-6">
+          <div className="space-y-2">
+            <Progress
+              value={
+                progress.total ? (progress.done / progress.total) * 100 : 100
+              }
+            />
+            <div className="text-xs text-muted-foreground">
+              {progress.done}/{progress.total} SUBMITTED
+            </div>
+          </div>
+
+          {!summary && (
+            <button
+              type="button"
+              onClick={() => controllerRef.current?.abort()}
+              className={secondaryButtonClassName}
+            >
+              CANCEL_REMAINING
+            </button>
+          )}
+
+          {summary && counts && (
+            <>
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="rounded-lg border border-border bg-pop p-4">
+                  <div className="text-2xl text-success">{counts.created}</div>
+                  <div className="text-xs text-muted-foreground">CREATED</div>
+                </div>
+                <div className="rounded-lg border border-border bg-pop p-4">
+                  <div className="text-2xl text-foreground">
+                    {counts.skipped}
+                  </div>
+                  <div className="text-xs text-muted-foreground">SKIPPED</div>
+                </div>
+                <div className="rounded-lg border border-border bg-pop p-4">
+                  <div className="text-2xl text-destructive">
+                    {counts.failed}
+                  </div>
+                  <div className="text-xs text-muted-foreground">FAILED</div>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap justify-between gap-3">
+                <button
+                  type="button"
+                  onClick={() =>
+                    downloadExport(
+                      "client-import-summary",
+                      summary,
+                      IMPORT_SUMMARY_COLUMNS,
+                      "csv"
+                    )
+                  }
+                  className={secondaryButtonClassName}
+                >
+                  DOWNLOAD_SUMMARY_CSV
+                </button>
+                <div className="flex gap-3">
+                  <button
+                    type="button"
+                    onClick={reset}
+                    className={secondaryButtonClassName}
+                  >
+                    IMPORT_ANOTHER_FILE
+                  </button>
+                  <Link href="/client" className={primaryButtonClassName}>
+                    VIEW_CLIENTS
+                  </Link>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useState } from "react";
+import StatusBadge from "@/components/dashboard/client-status-badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { callApi, endpoints } from "@/lib/api";
+import {
+  MERGE_FIELDS,
+  buildMergeInput,
+  defaultMergeSelection,
+  type MergeField,
+  type MergeSelection,
+} from "@/lib/client-duplicates";
+import { useCurrentUser } from "@/lib/current-user-context";
+import type { Client } from "@/lib/schemas";
+import { toast } from "@/hooks/use-toast";
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  name: "NAME",
+  email: "EMAIL",
+  mobile_number: "MOBILE",
+  message: "MESSAGE",
+  status: "STATUS",
+};
+
+/**
+ * Side-by-side view of a duplicate group. One record survives (its id, and
+ * history, are kept); for every field the admin picks which record's value
+ * the survivor ends up with. The other records are deleted by the backend
+ * after their login sessions are copied onto the survivor.
+ */
+export default function ClientMergePanel({
+  clients,
+  onMerged,
+  onCancel,
+}: {
+  clients: Client[];
+  onMerged: (survivor: Client) => void;
+  onCancel: () => void;
+}) {
+  const { can } = useCurrentUser();
+  const canMerge = can("clients:merge");
+
+  const [survivorId, setSurvivorId] = useState(clients[0]._id);
+  const [selection, setSelection] = useState<MergeSelection>(() =>
+    defaultMergeSelection(clients[0], clients)
+  );
+  const [confirming, setConfirming] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const survivor = clients.find((c) => c._id === survivorId) ?? clients[0];
+  const carriedSessions = clients
+    .filter((c) => c._id !== survivor._id)
+    .reduce(
+      (n, c) =>
+        n +
+        (c.meta?.login_session_history?.length ?? 0) +
+        (c.meta?.login_session ? 1 : 0),
+      0
+    );
+
+  const chooseSurvivor = (client: Client) => {
+    setSurvivorId(client._id);
+    setSelection(defaultMergeSelection(client, clients));
+  };
+
+  async function merge() {
+    setMerging(true);
+    setError(null);
+    try {
+      const input = buildMergeInput(survivor, clients, selection);
+      const { client } = await callApi(endpoints.clients.merge, input);
+      toast({
+        title: "MERGE_COMPLETE",
+        description: `${clients.length} RECORDS → ${client.name}`,
+      });
+      onMerged(client);
+    } catch (err: any) {
+      setError(err?.message || "MERGE_FAILED");
+    } finally {
+      setMerging(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4 font-mono">
+      <div className="overflow-x-auto rounded-xl border border-border">
+        <table className="min-w-full text-sm">
+          <thead className="bg-pop border-b border-border">
+            <tr>
+              <th className="text-left px-4 py-3 text-muted-foreground font-medium text-xs w-32">
+                FIELD
+              </th>
+              {clients.map((c) => (
+                <th key={c._id} className="text-left px-4 py-3 align-top">
+                  <label className="flex items-center gap-2 text-xs text-foreground cursor-pointer">
+                    <input
+                      type="radio"
+                      name="survivor"
+                      checked={c._id === survivor._id}
+                      onChange={() => chooseSurvivor(c)}
+                      disabled={merging}
+                    />
+                    {c._id === survivor._id ? "SURVIVOR" : "KEEP_THIS_RECORD"}
+                  </label>
+                  <div className="mt-1 text-xs font-normal text-muted-foreground">
+                    {c._id}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border bg-card">
+            {MERGE_FIELDS.map((field) => (
+              <tr key={field}>
+                <td className="px-4 py-3 text-xs text-muted-foreground">
+                  {FIELD_LABELS[field]}
+                </td>
+                {clients.map((c) => {
+                  const picked = selection[field] === c._id;
+                  return (
+                    <td key={c._id} className="px-4 py-2 align-top">
+                      <button
+                        type="button"
+                        aria-pressed={picked}
+                        disabled={merging || !c[field]}
+                        onClick={() =>
+                          setSelection((prev) => ({ ...prev, [field]: c._id }))
+                        }
+                        className="w-full text-left rounded-lg border border-transparent px-3 py-2 hover:border-border aria-pressed:border-primary aria-pressed:bg-primary/10 disabled:cursor-not-allowed transition-all duration-150"
+                      >
+                        {!c[field] ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : field === "status" ? (
+                          <StatusBadge status={c.status} />
+                        ) : (
+                          <span className="text-foreground break-words line-clamp-3">
+                            {c[field]}
+                          </span>
+                        )}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td className="px-4 py-3 text-xs text-muted-foreground">
+                SESSION
+              </td>
+              {clients.map((c) => {
+                const session = c.meta?.login_session;
+                return (
+                  <td
+                    key={c._id}
+                    className="px-4 py-3 text-xs text-muted-foreground"
+                  >
+                    <div>{session?.from_route || "—"}</div>
+                    <div>{session?.location?.country}</div>
+                    <div>
+                      {session?.submitted_at &&
+                        new Date(session.submitted_at).toLocaleString()}
+                    </div>
+                  </td>
+                );
+              })}
+            </tr>
+            <tr>
+              <td className="px-4 py-3 text-xs text-muted-foreground">
+                CREATED
+              </td>
+              {clients.map((c) => (
+                <td
+                  key={c._id}
+                  className="px-4 py-3 text-xs text-muted-foreground"
+                >
+                  {new Date(c.createdAt).toLocaleString()}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {clients.length - 1} RECORDS_WILL_BE_DELETED // {carriedSessions}{" "}
+        LOGIN_SESSIONS_CARRIED_OVER_TO_THE_SURVIVOR
+      </p>
+
+      {error && (
+        <div
+          role="alert"
+          className="rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive text-sm"
+        >
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={merging}
+          className="px-4 py-2 bg-pop text-foreground text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+        >
+          CANCEL
+        </button>
+        <button
+          type="button"
+          onClick={() => setConfirming(true)}
+          disabled={merging || !canMerge}
+          title={canMerge ? undefined : "REQUIRES clients:merge"}
+          className="px-4 py-2 bg-primary text-primary-foreground text-sm rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {merging ? "MERGING..." : `MERGE_${clients.length}_RECORDS`}
+        </button>
+      </div>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent className="font-mono">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-mono">
+              MERGE {clients.length} RECORDS INTO {survivor.name}?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="font-mono text-xs">
+              THE_OTHER_{clients.length - 1}
+              _RECORDS_ARE_DELETED_AFTER_THEIR_SESSIONS_ARE_COPIED
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="font-mono">CANCEL</AlertDialogCancel>
+            <AlertDialogAction onClick={merge} className="font-mono">
+              CONFIRM_MERGE
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+export default function StatusBadge({ status }: { status: string }) {
+  const statusColors = {
+    new: "bg-warning text-warning-foreground",
+    active: "bg-success text-success-foreground",
+    closed: "bg-muted text-muted-foreground",
+  } as const;
+
+  const color =
+    statusColors[status as keyof typeof statusColors] ||
+    "bg-muted text-muted-foreground";
+  return (
+    <span
+      className={`px-3 py-1.5 rounded-lg text-xs font-mono font-medium ${color}`}
+    >
+      {status?.toUpperCase() || "UNKNOWN"}
+    </span>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import StatusBadge from "@/components/dashboard/client-status-badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ClientStatus } from "@/lib/client-filters";
+import { allowedStatusTransitions, isReopen } from "@/lib/client-status";
+import { useCurrentUser } from "@/lib/current-user-context";
+
+/**
+ * Status badge that opens the allowed transitions for the current user and
+ * asks for an optional note before calling `onChange`. Falls back to the
+ * plain badge when nothing is allowed.
+ */
+export default function ClientStatusMenu({
+  status,
+  disabled,
+  onChange,
+}: {
+  status: string;
+  disabled?: boolean;
+  onChange: (status: ClientStatus, note?: string) => void;
+}) {
+  const { can } = useCurrentUser();
+  const [target, setTarget] = useState<ClientStatus | null>(null);
+
+  const transitions = allowedStatusTransitions(status, can);
+
+  if (transitions.length === 0) return <StatusBadge status={status} />;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={disabled}>
+          <button
+            type="button"
+            aria-label={`CHANGE_STATUS (${status})`}
+            className="rounded-lg focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <StatusBadge status={status} />
+            <span aria-hidden className="ml-1 text-xs text-muted-foreground">
+              ▾
+            </span>
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="font-mono">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">
+            MOVE_TO
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {transitions.map((to) => (
+            <DropdownMenuItem
+              key={to}
+              onSelect={() => setTarget(to)}
+              className="font-mono text-xs"
+            >
+              {isReopen(status, to) ? "REOPEN" : to.toUpperCase()}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <StatusNoteDialog
+        title={`${status.toUpperCase()} → ${target?.toUpperCase()}`}
+        open={target !== null}
+        onCancel={() => setTarget(null)}
+        onConfirm={(note) => {
+          if (target) onChange(target, note);
+          setTarget(null);
+        }}
+      />
+    </>
+  );
+}
+
+/** Asks for the optional note that goes with every status change. */
+export function StatusNoteDialog({
+  title,
+  description = "ADD_AN_OPTIONAL_NOTE_FOR_THE_CLIENT_TIMELINE",
+  open,
+  onCancel,
+  onConfirm,
+}: {
+  title: string;
+  description?: string;
+  open: boolean;
+  onCancel: () => void;
+  onConfirm: (note?: string) => void;
+}) {
+  const [note, setNote] = useState("");
+
+  const close = (confirmed: boolean) => {
+    if (confirmed) onConfirm(note.trim() || undefined);
+    else onCancel();
+    setNote("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && close(false)}>
+      <DialogContent className="font-mono">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{title}</DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            {description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={500}
+          placeholder="REASON_FOR_CHANGE (OPTIONAL)"
+          className="w-full bg-input border border-border rounded-lg px-4 py-3 text-foreground font-mono text-sm placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200 min-h-[96px]"
+          autoFocus
+        />
+
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={() => close(false)}
+            className="px-4 py-2 bg-pop text-foreground rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 text-sm"
+          >
+            CANCEL
+          </button>
+          <button
+            type="button"
+            onClick={() => close(true)}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 text-sm"
+          >
+            CONFIRM_STATUS_CHANGE
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
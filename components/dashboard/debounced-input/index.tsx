@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+
+// Keeps typing local and only pushes to the URL once the user pauses, while
+// still following external changes such as CLEAR_FILTERS or back/forward.
+export default function DebouncedInput({
+  value,
+  onCommit,
+  ...props
+}: {
+  value: string;
+  onCommit: (value: string | undefined) => void;
+} & Omit<React.InputHTMLAttributes<HTMLInputElement>, "value" | "onChange">) {
+  const [draft, setDraft] = useState(value);
+  const debounced = useDebouncedValue(draft, 400);
+
+  const latest = useRef({ value, onCommit });
+  latest.current = { value, onCommit };
+
+  useEffect(() => setDraft(value), [value]);
+
+  useEffect(() => {
+    const next = debounced.trim();
+    if (next !== latest.current.value)
+      latest.current.onCommit(next || undefined);
+  }, [debounced]);
+
+  return (
+    <input
+      type="search"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      {...props}
+    />
+  );
+}
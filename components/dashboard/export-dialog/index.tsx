@@ -0,0 +1,231 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  downloadExport,
+  walkPages,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportPage,
+} from "@/lib/export";
+import { toast } from "@/hooks/use-toast";
+
+type ExportProgress = { rows: number; page: number; totalPages: number };
+
+const FORMATS: ExportFormat[] = ["csv", "xlsx"];
+
+/**
+ * EXPORT button plus dialog: pick format and columns, then every page from
+ * `fetchPage` is collected and turned into a file in the browser.
+ */
+export default function ExportDialog<T extends object>({
+  resource,
+  columns,
+  fetchPage,
+  label = "EXPORT",
+  triggerClassName = "px-4 py-2.5 bg-pop text-foreground font-mono text-sm rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 disabled:opacity-50",
+  disabled,
+}: {
+  /** Used for the file name and the XLSX sheet name. */
+  resource: string;
+  columns: ExportColumn[];
+  fetchPage: (page: number, signal?: AbortSignal) => Promise<ExportPage<T>>;
+  label?: string;
+  triggerClassName?: string;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [picked, setPicked] = useState<Set<string>>(
+    () => new Set(columns.filter((c) => c.default).map((c) => c.key))
+  );
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const running = progress !== null;
+  const chosen = columns.filter((c) => picked.has(c.key));
+
+  const toggle = (key: string, checked: boolean) =>
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+
+  async function start() {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setProgress({ rows: 0, page: 0, totalPages: 0 });
+
+    const rows: T[] = [];
+    try {
+      for await (const page of walkPages(fetchPage, controller.signal)) {
+        rows.push(...page.items);
+        setProgress({
+          rows: rows.length,
+          page: page.page,
+          totalPages: page.totalPages,
+        });
+      }
+      downloadExport(resource, rows, chosen, format);
+      toast({
+        title: "EXPORT_COMPLETE",
+        description: `${rows.length} ROWS → ${format.toUpperCase()}`,
+      });
+      setOpen(false);
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err?.message || "EXPORT_FAILED");
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) controllerRef.current?.abort();
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild disabled={disabled}>
+        <button type="button" className={triggerClassName}>
+          {label}
+        </button>
+      </DialogTrigger>
+
+      <DialogContent className="font-mono">
+        <DialogHeader>
+          <DialogTitle className="font-mono">
+            EXPORT_{resource.toUpperCase()}
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            ALL_MATCHING_RECORDS_ARE_FETCHED_PAGE_BY_PAGE
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            {FORMATS.map((f) => (
+              <button
+                key={f}
+                type="button"
+                onClick={() => setFormat(f)}
+                disabled={running}
+                aria-pressed={format === f}
+                className="px-3 py-1.5 rounded-lg border border-border text-xs bg-pop text-foreground aria-pressed:bg-primary aria-pressed:text-primary-foreground transition-all duration-200"
+              >
+                {f.toUpperCase()}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2 text-xs text-muted-foreground">
+              <span>
+                COLUMNS ({chosen.length}/{columns.length})
+              </span>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setPicked(new Set(columns.map((c) => c.key)))}
+                  disabled={running}
+                  className="hover:text-foreground"
+                >
+                  ALL
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPicked(new Set())}
+                  disabled={running}
+                  className="hover:text-foreground"
+                >
+                  NONE
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 max-h-64 overflow-y-auto rounded-lg border border-border p-3">
+              {columns.map((column) => (
+                <label
+                  key={column.key}
+                  className="flex items-center gap-2 text-xs text-foreground cursor-pointer"
+                  title={column.key}
+                >
+                  <Checkbox
+                    checked={picked.has(column.key)}
+                    onCheckedChange={(checked) =>
+                      toggle(column.key, checked === true)
+                    }
+                    disabled={running}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {progress && (
+            <div className="space-y-2">
+              <Progress
+                value={
+                  progress.totalPages
+                    ? (progress.page / progress.totalPages) * 100
+                    : 0
+                }
+              />
+              <div className="text-xs text-muted-foreground">
+                PAGE {progress.page}/{progress.totalPages || "?"} //{" "}
+                {progress.rows} ROWS
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div
+              role="alert"
+              className="rounded-lg border border-destructive bg-destructive/10 p-3 text-destructive text-xs"
+            >
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={() =>
+              running ? controllerRef.current?.abort() : setOpen(false)
+            }
+            className="px-4 py-2 bg-pop text-foreground rounded-lg border border-border hover:bg-pop/50 transition-all duration-200 text-sm"
+          >
+            CANCEL
+          </button>
+          <button
+            type="button"
+            onClick={start}
+            disabled={running || chosen.length === 0}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-lg border border-border hover:bg-primary/90 transition-all duration-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {running ? "EXPORTING..." : `DOWNLOAD_${format.toUpperCase()}`}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import React from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { getPageWindow } from "@/lib/pagination";
+import { cn } from "@/lib/utils";
+
+interface ListPaginationProps {
+  currentPage: number;
+  totalPages: number;
+  totalItems?: number;
+  hrefForPage: (page: number) => string;
+  /** Client-side navigation; without it the links navigate natively. */
+  onNavigate?: (page: number) => void;
+  className?: string;
+}
+
+export default function ListPagination({
+  currentPage,
+  totalPages,
+  totalItems,
+  hrefForPage,
+  onNavigate,
+  className,
+}: ListPaginationProps) {
+  if (totalPages <= 1) return null;
+
+  const pages = getPageWindow(currentPage, totalPages);
+  const first = pages[0];
+  const last = pages[pages.length - 1];
+
+  // No handlers unless asked for, so server pages can render this too.
+  const linkProps = (page: number, disabled = false) => ({
+    href: hrefForPage(page),
+    "aria-disabled": disabled || undefined,
+    tabIndex: disabled ? -1 : undefined,
+    onClick: onNavigate
+      ? (e: React.MouseEvent<HTMLAnchorElement>) => {
+          e.preventDefault();
+          if (!disabled) onNavigate(page);
+        }
+      : undefined,
+  });
+
+  const disabledClass = "pointer-events-none opacity-50";
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col sm:flex-row items-center justify-between gap-4 py-6 border-t border-border",
+        className
+      )}
+    >
+      <div className="text-muted-foreground font-mono text-sm">
+        PAGE {currentPage} OF {totalPages}
+        {totalItems !== undefined && ` • ${totalItems} ITEMS`}
+      </div>
+
+      <Pagination className="mx-0 w-auto font-mono">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              {...linkProps(Math.max(1, currentPage - 1), currentPage <= 1)}
+              className={cn(currentPage <= 1 && disabledClass)}
+            />
+          </PaginationItem>
+
+          {first > 1 && (
+            <>
+              <PaginationItem>
+                <PaginationLink {...linkProps(1)}>1</PaginationLink>
+              </PaginationItem>
+              {first > 2 && (
+                <PaginationItem>
+                  <PaginationEllipsis />
+                </PaginationItem>
+              )}
+            </>
+          )}
+
+          {pages.map((p) => (
+            <PaginationItem key={p}>
+              <PaginationLink {...linkProps(p)} isActive={p === currentPage}>
+                {p}
+              </PaginationLink>
+            </PaginationItem>
+          ))}
+
+          {last < totalPages && (
+            <>
+              {last < totalPages - 1 && (
+                <PaginationItem>
+                  <PaginationEllipsis />
+                </PaginationItem>
+              )}
+              <PaginationItem>
+                <PaginationLink {...linkProps(totalPages)}>
+                  {totalPages}
+                </PaginationLink>
+              </PaginationItem>
+            </>
+          )}
+
+          <PaginationItem>
+            <PaginationNext
+              {...linkProps(
+                Math.min(totalPages, currentPage + 1),
+                currentPage >= totalPages
+              )}
+              className={cn(currentPage >= totalPages && disabledClass)}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  );
+}
+
+export function LimitSelect({
+  value,
+  options,
+  onChange,
+}: {
+  value: number;
+  options: number[];
+  onChange: (limit: number) => void;
+}) {
+  return (
+    <select
+      className="bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200"
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+    >
+      {options.map((n) => (
+        <option key={n} value={n} className="font-mono">
+          {n} / PAGE
+        </option>
+      ))}
+    </select>
+  );
+}
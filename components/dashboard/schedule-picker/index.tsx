@@ -0,0 +1,128 @@
+"use client";
+
+import { format, parseISO, startOfToday } from "date-fns";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  formatInTimeZone,
+  localTimeZone,
+  scheduleError,
+  timeZones,
+  zonedTimeToUtc,
+} from "@/lib/campaign-send";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+const fieldClassName =
+  "bg-input border border-border rounded-lg px-4 py-2.5 text-foreground font-mono text-sm placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-all duration-200";
+
+export type Schedule = {
+  /** `yyyy-MM-dd` in `timeZone`. */
+  date?: string;
+  /** `HH:mm` in `timeZone`. */
+  time: string;
+  timeZone: string;
+};
+
+export function defaultSchedule(): Schedule {
+  return { time: "09:00", timeZone: localTimeZone() };
+}
+
+/**
+ * Date, time and time zone for a scheduled send. The wall-clock time is
+ * read in the picked zone; the resolved instant is echoed back in both that
+ * zone and the viewer's own so there is no doubt when it goes out.
+ */
+export default function SchedulePicker({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: Schedule;
+  onChange: (value: Schedule) => void;
+  disabled?: boolean;
+}) {
+  const error = scheduleError(value.date, value.time, value.timeZone);
+  const at =
+    value.date && !error
+      ? zonedTimeToUtc(value.date, value.time, value.timeZone)
+      : null;
+  const ownZone = localTimeZone();
+
+  return (
+    <div className="space-y-3 font-mono">
+      <div className="flex flex-col lg:flex-row gap-3">
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              disabled={disabled}
+              className={`${fieldClassName} text-left lg:w-48 ${
+                value.date ? "" : "text-muted-foreground"
+              }`}
+            >
+              {value.date ?? "PICK_DATE"}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={value.date ? parseISO(value.date) : undefined}
+              defaultMonth={value.date ? parseISO(value.date) : undefined}
+              disabled={{ before: startOfToday() }}
+              onSelect={(day) =>
+                onChange({
+                  ...value,
+                  date: day ? format(day, DATE_FORMAT) : undefined,
+                })
+              }
+            />
+          </PopoverContent>
+        </Popover>
+
+        <input
+          type="time"
+          aria-label="SEND_TIME"
+          value={value.time}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, time: e.target.value })}
+          className={`${fieldClassName} lg:w-36`}
+        />
+
+        <select
+          aria-label="TIME_ZONE"
+          value={value.timeZone}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, timeZone: e.target.value })}
+          className={`${fieldClassName} flex-1`}
+        >
+          {timeZones(value.timeZone).map((zone) => (
+            <option key={zone} value={zone}>
+              {zone}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {at ? (
+        <div className="text-xs text-muted-foreground space-y-1">
+          <div>
+            SENDS_AT:{" "}
+            <span className="text-foreground">
+              {formatInTimeZone(at, value.timeZone)}
+            </span>
+          </div>
+          {ownZone !== value.timeZone && (
+            <div>YOUR_TIME: {formatInTimeZone(at, ownZone)}</div>
+          )}
+        </div>
+      ) : (
+        <div className="text-xs text-warning">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -35,6 +35,9 @@ import LockIcon from "@/components/icons/lock";
 import Image from "next/image";
 import { useIsV0 } from "@/lib/v0-context";
 import { apiClient } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/current-user-context";
+import type { Permission } from "@/lib/permissions";
+import { LOGIN_PATH, buildLoginUrl } from "@/lib/auth";
 
 // This is sample data for the sidebar
 type NavItem = {
@@ -43,6 +46,7 @@ type NavItem = {
   icon: React.ComponentType<React.SVGProps<SVGSVGElement>>;
   isActive: boolean;
   locked?: boolean;
+  permission?: Permission;
 };
 
 type NavGroup = {
@@ -70,30 +74,35 @@ const data: {
           url: "/workspace",
           icon: AtomIcon,
           isActive: false,
+          permission: "workspaces:read",
         },
         {
           title: "Client",
           url: "/client",
           icon: ProcessorIcon,
           isActive: false,
+          permission: "clients:read",
         },
         {
           title: "Addons",
           url: "/addons",
           icon: ProcessorIcon,
           isActive: false,
+          permission: "addons:read",
         },
         {
           title: "Campaigns",
           url: "/campaigns",
           icon: CuteRobotIcon,
           isActive: false,
+          permission: "campaigns:read",
         },
         {
           title: "Users",
           url: "/users",
           icon: EmailIcon,
           isActive: false,
+          permission: "users:read",
         },
         // {
         //   title: "Admin Settings",
@@ -121,21 +130,43 @@ export function DashboardSidebar({
   ...props
 }: React.ComponentProps<typeof Sidebar>) {
   const isV0 = useIsV0();
+  const { user: currentUser, loading: userLoading, can } = useCurrentUser();
+
+  // Entries stay unlocked while the user is loading to avoid a locked flash.
+  const isLocked = (item: NavItem) =>
+    item.locked || (!userLoading && !!item.permission && !can(item.permission));
+
+  const navMain = data.navMain.map((group) => ({
+    ...group,
+    items: group.items.map((item) => ({ ...item, locked: isLocked(item) })),
+  }));
+
+  const user = {
+    name: currentUser?.name ?? data.user.name,
+    email: currentUser?.email ?? data.user.email,
+    avatar: currentUser?.avatar || data.user.avatar,
+  };
 
   async function userlogout() {
+    let cookiesCleared = true;
     try {
       // Call backend to clear the HttpOnly refresh cookie
       await apiClient.get("/api/auth/logout");
-
-      // Wipe client-side junk
-      localStorage.clear();
-      sessionStorage.clear();
-
-      // Redirect to login
-      window.location.href = "/login";
     } catch (err: any) {
+      cookiesCleared = false;
       console.error("Logout failed:", err.message);
     }
+
+    // Wipe client-side junk
+    localStorage.clear();
+    sessionStorage.clear();
+
+    // Full navigation drops all in-memory state. If the backend didn't clear
+    // the cookies, flag the session as ended so the middleware still lets
+    // the login page render.
+    window.location.replace(
+      cookiesCleared ? LOGIN_PATH : buildLoginUrl(undefined, { expired: true })
+    );
   }
 
   return (
@@ -151,7 +182,7 @@ export function DashboardSidebar({
       </SidebarHeader>
 
       <SidebarContent>
-        {data.navMain.map((group, i) => (
+        {navMain.map((group, i) => (
           <SidebarGroup
             className={cn(i === 0 && "rounded-t-none")}
             key={group.title}
@@ -218,8 +249,8 @@ export function DashboardSidebar({
                   <PopoverTrigger className="flex gap-0.5 w-full group cursor-pointer">
                     <div className="shrink-0 flex size-14 items-center justify-center rounded-lg bg-sidebar-primary text-sidebar-primary-foreground overflow-clip">
                       <Image
-                        src={data.user.avatar}
-                        alt={data.user.name}
+                        src={user.avatar}
+                        alt={user.name}
                         width={120}
                         height={120}
                       />
@@ -227,10 +258,10 @@ export function DashboardSidebar({
                     <div className="group/item pl-3 pr-1.5 pt-2 pb-1.5 flex-1 flex bg-sidebar-accent hover:bg-sidebar-accent-active/75 items-center rounded group-data-[state=open]:bg-sidebar-accent-active group-data-[state=open]:hover:bg-sidebar-accent-active group-data-[state=open]:text-sidebar-accent-foreground">
                       <div className="grid flex-1 text-left text-sm leading-tight">
                         <span className="truncate text-xl font-display">
-                          {data.user.name}
+                          {user.name}
                         </span>
                         <span className="truncate text-xs uppercase opacity-50 group-hover/item:opacity-100">
-                          {data.user.email}
+                          {user.email}
                         </span>
                       </div>
                       <DotsVerticalIcon className="ml-auto size-4" />
@@ -0,0 +1,166 @@
+"use client";
+
+import {
+  forwardRef,
+  useId,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  useState,
+  type KeyboardEvent,
+} from "react";
+import { insertVariable, variableQueryAt } from "@/lib/campaign-template";
+
+type Query = { start: number; query: string };
+
+/**
+ * Textarea for campaign messages. Typing `{{` opens suggestions from
+ * `variables`; arrows move, Enter/Tab insert, Escape closes. The chips below
+ * insert a variable at the caret.
+ */
+const TemplateEditor = forwardRef<
+  HTMLTextAreaElement,
+  {
+    id?: string;
+    value: string;
+    onChange: (value: string) => void;
+    onBlur?: () => void;
+    variables: string[];
+    placeholder?: string;
+    disabled?: boolean;
+    className?: string;
+    "aria-invalid"?: boolean;
+    "aria-describedby"?: string;
+  }
+>(function TemplateEditor(
+  { value, onChange, onBlur, variables, className, ...props },
+  ref
+) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const listboxId = useId();
+  useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+
+  const [query, setQuery] = useState<Query | null>(null);
+  const [active, setActive] = useState(0);
+  // Caret to restore once the inserted text has been rendered.
+  const pendingCaret = useRef<number | null>(null);
+
+  useLayoutEffect(() => {
+    const el = textareaRef.current;
+    if (el && pendingCaret.current !== null) {
+      el.focus();
+      el.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  });
+
+  const suggestions = query
+    ? variables.filter((name) =>
+        name.toLowerCase().startsWith(query.query.toLowerCase())
+      )
+    : [];
+  const open = suggestions.length > 0;
+
+  const syncQuery = (text: string, caret: number) => {
+    setQuery(variableQueryAt(text, caret));
+    setActive(0);
+  };
+
+  const insert = (name: string) => {
+    const el = textareaRef.current;
+    const caret = el?.selectionStart ?? value.length;
+    const start = query?.start ?? caret;
+    const next = insertVariable(value, start, caret, name);
+    pendingCaret.current = next.caret;
+    onChange(next.text);
+    setQuery(null);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!open) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((i) => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      insert(suggestions[active]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <textarea
+          {...props}
+          ref={textareaRef}
+          value={value}
+          role="combobox"
+          aria-expanded={open}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          onChange={(e) => {
+            onChange(e.target.value);
+            syncQuery(e.target.value, e.target.selectionStart);
+          }}
+          onSelect={(e) =>
+            syncQuery(e.currentTarget.value, e.currentTarget.selectionStart)
+          }
+          onKeyDown={onKeyDown}
+          onBlur={() => {
+            setQuery(null);
+            onBlur?.();
+          }}
+          className={className}
+        />
+
+        {open && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            className="absolute left-0 right-0 top-full z-10 mt-1 max-h-48 overflow-y-auto rounded-lg border border-border bg-pop shadow-lg font-mono text-sm"
+          >
+            {suggestions.map((name, i) => (
+              <li
+                key={name}
+                role="option"
+                aria-selected={i === active}
+                // mousedown so the textarea keeps focus and its caret.
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insert(name);
+                }}
+                onMouseEnter={() => setActive(i)}
+                className="px-3 py-2 cursor-pointer text-foreground aria-selected:bg-primary aria-selected:text-primary-foreground"
+              >
+                {`{{${name}}}`}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {variables.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {variables.map((name) => (
+            <button
+              key={name}
+              type="button"
+              disabled={props.disabled}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insert(name)}
+              className="px-2 py-1 rounded-lg border border-border bg-pop text-xs font-mono text-muted-foreground hover:text-foreground hover:bg-pop/50 transition-all duration-200 disabled:opacity-50"
+            >
+              + {`{{${name}}}`}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default TemplateEditor;
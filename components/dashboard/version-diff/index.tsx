@@ -0,0 +1,243 @@
+"use client";
+
+import { versionFields } from "@/lib/campaign-versions";
+import {
+  diffRecords,
+  diffWords,
+  sideBySide,
+  type DiffLine,
+  type SideBySideRow,
+} from "@/lib/diff";
+import type { CampaignVersion } from "@/lib/schemas";
+
+const sectionTitleClassName = "text-xs font-mono text-muted-foreground mb-2";
+
+const rowTone: Record<SideBySideRow["op"], [string, string]> = {
+  equal: ["", ""],
+  removed: ["bg-destructive/10", "bg-pop"],
+  added: ["bg-pop", "bg-success/10"],
+  changed: ["bg-destructive/10", "bg-success/10"],
+};
+
+/**
+ * What changed from `base` to `target`: the single-line fields, the
+ * message side by side with word-level highlights, and the variable map.
+ */
+export default function VersionDiff({
+  base,
+  target,
+}: {
+  base: CampaignVersion;
+  target: CampaignVersion;
+}) {
+  const before = versionFields(base);
+  const after = versionFields(target);
+  const fields = (Object.keys(before) as (keyof typeof before)[]).filter(
+    (key) => before[key] !== after[key]
+  );
+  const rows = sideBySide(base.message, target.message);
+  const variables = diffRecords(
+    base.meta?.variable_map ?? {},
+    target.meta?.variable_map ?? {}
+  );
+  const messageChanged = rows.some((row) => row.op !== "equal");
+
+  return (
+    <div className="space-y-6 font-mono">
+      <div className="grid grid-cols-2 gap-4 text-xs">
+        <div className="text-destructive">− V{base.version}</div>
+        <div className="text-success">+ V{target.version}</div>
+      </div>
+
+      <section>
+        <div className={sectionTitleClassName}>FIELDS</div>
+        {fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">NO_FIELD_CHANGES</p>
+        ) : (
+          <div className="rounded-lg border border-border divide-y divide-border text-sm">
+            {fields.map((key) => (
+              <div key={key} className="grid grid-cols-[8rem_1fr_1fr]">
+                <div className="px-3 py-2 text-xs text-muted-foreground">
+                  {key}
+                </div>
+                <WordDiff
+                  before={before[key]}
+                  after={after[key]}
+                  side="left"
+                  className="px-3 py-2 bg-destructive/10"
+                />
+                <WordDiff
+                  before={before[key]}
+                  after={after[key]}
+                  side="right"
+                  className="px-3 py-2 bg-success/10"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <div className={sectionTitleClassName}>
+          MESSAGE{messageChanged ? "" : " // UNCHANGED"}
+        </div>
+        <div className="rounded-lg border border-border overflow-x-auto text-sm">
+          <table className="w-full border-collapse">
+            <tbody>
+              {rows.map((row, i) => {
+                const [leftTone, rightTone] = rowTone[row.op];
+                return (
+                  <tr key={i} className="align-top">
+                    <LineCells
+                      line={row.left}
+                      className={leftTone}
+                      content={
+                        row.op === "changed" && row.left && row.right ? (
+                          <WordDiff
+                            before={row.left.text}
+                            after={row.right.text}
+                            side="left"
+                          />
+                        ) : (
+                          row.left?.text
+                        )
+                      }
+                    />
+                    <LineCells
+                      line={row.right}
+                      className={`${rightTone} border-l border-border`}
+                      content={
+                        row.op === "changed" && row.left && row.right ? (
+                          <WordDiff
+                            before={row.left.text}
+                            after={row.right.text}
+                            side="right"
+                          />
+                        ) : (
+                          row.right?.text
+                        )
+                      }
+                    />
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section>
+        <div className={sectionTitleClassName}>VARIABLE_MAP</div>
+        {variables.length === 0 ? (
+          <p className="text-sm text-muted-foreground">NO_VARIABLES</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground text-left">
+                <th className="py-2 pr-3 font-medium">VARIABLE</th>
+                <th className="py-2 px-3 font-medium">V{base.version}</th>
+                <th className="py-2 px-3 font-medium">V{target.version}</th>
+                <th className="py-2 pl-3 font-medium text-right">CHANGE</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variables.map((change) => (
+                <tr key={change.key} className="border-t border-border">
+                  <td className="py-2 pr-3 text-foreground">
+                    {`{{${change.key}}}`}
+                  </td>
+                  <td
+                    className={`py-2 px-3 ${
+                      change.op === "removed" || change.op === "changed"
+                        ? "text-destructive"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    {change.before ?? "—"}
+                  </td>
+                  <td
+                    className={`py-2 px-3 ${
+                      change.op === "added" || change.op === "changed"
+                        ? "text-success"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    {change.after ?? "—"}
+                  </td>
+                  <td className="py-2 pl-3 text-right text-xs text-muted-foreground">
+                    {change.op === "equal" ? "" : change.op.toUpperCase()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function LineCells({
+  line,
+  content,
+  className,
+}: {
+  line?: DiffLine;
+  content: React.ReactNode;
+  className: string;
+}) {
+  return (
+    <>
+      <td
+        className={`${className} w-10 px-2 py-0.5 text-right text-xs text-muted-foreground select-none`}
+      >
+        {line?.number}
+      </td>
+      <td
+        className={`${className} w-1/2 px-2 py-0.5 text-foreground whitespace-pre-wrap break-words`}
+      >
+        {content}
+      </td>
+    </>
+  );
+}
+
+// One side of a word-level diff: the left shows what was removed, the
+// right what was added.
+function WordDiff({
+  before,
+  after,
+  side,
+  className = "",
+}: {
+  before: string;
+  after: string;
+  side: "left" | "right";
+  className?: string;
+}) {
+  const hidden = side === "left" ? "added" : "removed";
+  const marked =
+    side === "left"
+      ? "bg-destructive/30 text-destructive"
+      : "bg-success/30 text-success";
+
+  return (
+    <div className={`${className} whitespace-pre-wrap break-words`}>
+      {diffWords(before, after)
+        .filter((part) => part.op !== hidden)
+        .map((part, i) =>
+          part.op === "equal" ? (
+            <span key={i}>{part.value}</span>
+          ) : (
+            <mark key={i} className={`${marked} rounded-sm`}>
+              {part.value}
+            </mark>
+          )
+        )}
+      {!(side === "left" ? before : after) && (
+        <span className="text-muted-foreground">—</span>
+      )}
+    </div>
+  );
+}
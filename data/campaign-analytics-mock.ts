@@ -0,0 +1,115 @@
+import { format, subDays } from "date-fns";
+import type {
+  AnalyticsPoint,
+  Campaign,
+  CampaignAnalytics,
+} from "@/lib/schemas";
+
+// Stand-in for GET /api/campaign/analytics. Numbers are generated from the
+// campaign id, so each campaign keeps the same shape across reloads.
+
+type ChannelProfile = {
+  volume: number;
+  delivery: [number, number];
+  open: [number, number];
+  click: [number, number];
+};
+
+const PROFILES: Record<string, ChannelProfile> = {
+  email: {
+    volume: 1200,
+    delivery: [0.94, 0.99],
+    open: [0.18, 0.42],
+    click: [0.02, 0.08],
+  },
+  sms: {
+    volume: 600,
+    delivery: [0.9, 0.98],
+    open: [0.7, 0.9],
+    click: [0.03, 0.1],
+  },
+  notification: {
+    volume: 2500,
+    delivery: [0.8, 0.95],
+    open: [0.04, 0.14],
+    click: [0.01, 0.04],
+  },
+};
+
+function hash(text: string) {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+// mulberry32
+function seeded(seed: number) {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function mockCampaignAnalytics(
+  campaign: Campaign,
+  days: number,
+  today = new Date()
+): CampaignAnalytics {
+  const profile = PROFILES[campaign.type] ?? PROFILES.email;
+  const campaignRandom = seeded(hash(campaign._id));
+  const between = ([min, max]: [number, number], random: () => number) =>
+    min + (max - min) * random();
+
+  // Per-campaign character: overall size and baseline rates.
+  const scale = 0.3 + campaignRandom() * 1.7;
+  const delivery = between(profile.delivery, campaignRandom);
+  const open = between(profile.open, campaignRandom);
+  const click = between(profile.click, campaignRandom);
+  const inactive = campaign.meta?.is_active === false;
+
+  const series: AnalyticsPoint[] = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const day = subDays(today, offset);
+    const date = format(day, "yyyy-MM-dd");
+    // Seeded per day too, so a point doesn't change with the range picked.
+    const random = seeded(hash(`${campaign._id}:${date}`));
+    const weekend = day.getDay() === 0 || day.getDay() === 6;
+
+    const sent =
+      inactive || random() < 0.08
+        ? 0
+        : Math.round(
+            profile.volume * scale * (weekend ? 0.45 : 1) * (0.6 + random())
+          );
+    const delivered = Math.round(
+      sent * Math.min(1, delivery + (random() - 0.5) * 0.04)
+    );
+    const opened = Math.round(delivered * open * (0.8 + random() * 0.4));
+    const clicked = Math.min(
+      opened,
+      Math.round(delivered * click * (0.7 + random() * 0.6))
+    );
+
+    series.push({
+      date,
+      sent,
+      delivered,
+      failed: sent - delivered,
+      opened,
+      clicked,
+    });
+  }
+
+  return {
+    campaign_id: campaign._id,
+    type: campaign.type,
+    property_id: campaign.property_id,
+    series,
+  };
+}
@@ -10,7 +10,29 @@ const compat = new FlatCompat({
 });
 
 const eslintConfig = [
+  // Generated shadcn/ui code, kept as the CLI wrote it.
+  { ignores: ["components/ui/**", "hooks/use-toast.ts"] },
   ...compat.extends("next/core-web-vitals", "next/typescript"),
+  {
+    rules: {
+      // `SCREAMING_CASE // DETAIL` is how the UI separates labels, not a
+      // stray comment.
+      "react/jsx-no-comment-textnodes": "off",
+      // `catch (err: any)` reads `err?.message` off whatever was thrown.
+      "@typescript-eslint/no-explicit-any": "warn",
+    },
+  },
+  {
+    // These keep imports and helpers for widgets that are commented out
+    // until they have real data.
+    files: [
+      "app/layout.tsx",
+      "app/(root)/layout.tsx",
+      "app/(root)/page.tsx",
+      "components/dashboard/notifications/**",
+    ],
+    rules: { "@typescript-eslint/no-unused-vars": "warn" },
+  },
 ];
 
 export default eslintConfig;
@@ -0,0 +1,48 @@
+"use client";
+
+import { useMemo } from "react";
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import { walkPages } from "@/lib/export";
+import { MAX_LIMIT } from "@/lib/pagination";
+import { buildQueryKey } from "@/lib/query-cache";
+import type { Campaign } from "@/lib/schemas";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { usePendingCampaignDeletes } from "@/hooks/use-campaign-delete";
+
+// Keyed under the list endpoint so template changes refetch it.
+const queryKey = buildQueryKey(endpointKey(endpoints.campaigns.list), {
+  all: true,
+});
+
+async function fetchAllCampaigns(signal: AbortSignal) {
+  const campaigns: Campaign[] = [];
+  const pages = walkPages(async (page, pageSignal) => {
+    const { campaigns, pagination } = await callApi(
+      endpoints.campaigns.list,
+      { page, limit: MAX_LIMIT },
+      { signal: pageSignal }
+    );
+    return { items: campaigns, totalPages: pagination.totalPages };
+  }, signal);
+  for await (const page of pages) campaigns.push(...page.items);
+  return campaigns;
+}
+
+/**
+ * Every template across all pages and workspaces, for views that aggregate
+ * or search over the whole set rather than show a page of it.
+ */
+export function useAllCampaigns({ enabled = true } = {}) {
+  const query = useApiQuery({
+    queryKey,
+    fetcher: fetchAllCampaigns,
+    staleTime: 60 * 1000,
+    enabled,
+  });
+  const pendingDeletes = usePendingCampaignDeletes();
+  const campaigns = useMemo(
+    () => (query.data ?? []).filter((c) => !pendingDeletes.has(c._id)),
+    [query.data, pendingDeletes]
+  );
+  return { ...query, queryKey, campaigns };
+}
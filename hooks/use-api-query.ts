@@ -0,0 +1,83 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  cancelQuery,
+  fetchQuery,
+  getQueryState,
+  subscribeQuery,
+} from "@/lib/query-cache";
+
+type UseApiQueryOptions<TData> = {
+  /** Full cache key, usually `buildQueryKey(endpointKey(endpoint), input)`. */
+  queryKey: string;
+  fetcher: (signal: AbortSignal) => Promise<TData>;
+  /** Cached data younger than this is shown without revalidating. */
+  staleTime?: number;
+  enabled?: boolean;
+};
+
+/**
+ * Serves `queryKey` from the query cache and revalidates it in the
+ * background when stale. `loading` is only true while there is nothing to
+ * show yet; `refreshing` covers background revalidation.
+ */
+export function useApiQuery<TData>({
+  queryKey,
+  fetcher,
+  staleTime = 0,
+  enabled = true,
+}: UseApiQueryOptions<TData>) {
+  // Callers usually pass an inline closure; keep the latest without making
+  // it an effect dependency.
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const getSnapshot = () => getQueryState<TData>(queryKey);
+  const state = useSyncExternalStore(
+    useCallback(
+      (notify: () => void) => subscribeQuery(queryKey, notify),
+      [queryKey]
+    ),
+    getSnapshot,
+    getSnapshot
+  );
+
+  const refetch = useCallback(
+    () =>
+      fetchQuery(queryKey, (signal) => fetcherRef.current(signal)).catch(
+        () => {}
+      ),
+    [queryKey]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    const cached = getQueryState(queryKey);
+    if (
+      cached.data === undefined ||
+      cached.isStale ||
+      Date.now() - cached.updatedAt >= staleTime
+    ) {
+      refetch();
+    }
+    // Runs after the store subscription above is dropped, so leaving a key
+    // (new page, filter or unmount) cancels its request unless another
+    // component still shows it.
+    return () => cancelQuery(queryKey);
+  }, [queryKey, staleTime, enabled, refetch]);
+
+  const error = state.error
+    ? (state.error as Error)?.message || String(state.error)
+    : null;
+
+  return {
+    data: state.data ?? null,
+    loading:
+      enabled && state.data === undefined && (state.isFetching || !error),
+    refreshing: state.isFetching && state.data !== undefined,
+    error,
+    rawError: state.error,
+    refetch,
+  };
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { ToastAction } from "@/components/ui/toast";
+import { callApi, endpointKey, endpoints, type EndpointData } from "@/lib/api";
+import {
+  batchInvalidations,
+  invalidateQueries,
+  setQueryData,
+} from "@/lib/query-cache";
+import type { Campaign } from "@/lib/schemas";
+import { useToast } from "@/hooks/use-toast";
+
+type CachedCampaigns = EndpointData<typeof endpoints.campaigns.list>;
+
+// How long the UNDO stays up. The DELETE is only sent once it has passed.
+export const DELETE_UNDO_WINDOW_MS = 8000;
+
+// Ids whose DELETE is waiting out the undo window. Replaced rather than
+// mutated so it can serve as a `useSyncExternalStore` snapshot.
+let pendingDeletes: ReadonlySet<string> = new Set();
+const pendingListeners = new Set<() => void>();
+
+function setPending(id: string, pending: boolean) {
+  const next = new Set(pendingDeletes);
+  if (pending) next.add(id);
+  else next.delete(id);
+  pendingDeletes = next;
+  pendingListeners.forEach((listener) => listener());
+}
+
+/**
+ * Ids of templates deleted but still inside the undo window. Lists filter
+ * them out so a refetch in the meantime doesn't bring the card back.
+ */
+export function usePendingCampaignDeletes() {
+  return useSyncExternalStore(
+    (notify) => {
+      pendingListeners.add(notify);
+      return () => pendingListeners.delete(notify);
+    },
+    () => pendingDeletes,
+    () => pendingDeletes
+  );
+}
+
+/**
+ * Deletes a template from the list page under `queryKey`. The card goes
+ * away at once, but the request waits out the undo window so UNDO can put
+ * it back without the backend having to restore anything. Leaving the app
+ * inside the window keeps the template.
+ */
+export function useCampaignDelete(queryKey: string) {
+  const { toast } = useToast();
+
+  return useCallback(
+    (campaign: Campaign) => {
+      let index = -1;
+      setQueryData<CachedCampaigns | undefined>(queryKey, (data) => {
+        if (!data) return data;
+        index = data.campaigns.findIndex((c) => c._id === campaign._id);
+        if (index === -1) return data;
+        return {
+          campaigns: data.campaigns.filter((c) => c._id !== campaign._id),
+          pagination: {
+            ...data.pagination,
+            totalItems: Math.max(0, data.pagination.totalItems - 1),
+          },
+        };
+      });
+      setPending(campaign._id, true);
+
+      const timer = setTimeout(async () => {
+        try {
+          // The endpoint invalidates the list too; batching applies both
+          // once, after the id stops being filtered out.
+          await batchInvalidations(async () => {
+            await callApi(endpoints.campaigns.delete, {
+              campaignId: campaign._id,
+            });
+            setPending(campaign._id, false);
+            invalidateQueries(endpointKey(endpoints.campaigns.list));
+          });
+        } catch (err: any) {
+          setPending(campaign._id, false);
+          const reason = err?.message || "UNKNOWN_ERROR";
+          toast({
+            variant: "destructive",
+            title: "DELETE_FAILED",
+            description: `${reason} // TEMPLATE_KEPT`,
+          });
+          invalidateQueries(endpointKey(endpoints.campaigns.list));
+        }
+      }, DELETE_UNDO_WINDOW_MS);
+
+      // Puts back only this card, into whatever the page holds now, so
+      // other deletes still in their window stay gone.
+      const undo = () => {
+        clearTimeout(timer);
+        setPending(campaign._id, false);
+        setQueryData<CachedCampaigns | undefined>(queryKey, (data) => {
+          if (
+            !data ||
+            index === -1 ||
+            data.campaigns.some((c) => c._id === campaign._id)
+          ) {
+            return data;
+          }
+          const campaigns = [...data.campaigns];
+          campaigns.splice(Math.min(index, campaigns.length), 0, campaign);
+          return {
+            campaigns,
+            pagination: {
+              ...data.pagination,
+              totalItems: data.pagination.totalItems + 1,
+            },
+          };
+        });
+        toast({ title: "DELETE_UNDONE", description: campaign.title });
+      };
+
+      toast({
+        title: "TEMPLATE_DELETED",
+        description: campaign.title,
+        duration: DELETE_UNDO_WINDOW_MS,
+        action: (
+          <ToastAction altText="UNDO" onClick={undo} className="font-mono">
+            UNDO
+          </ToastAction>
+        ),
+      });
+    },
+    [queryKey, toast]
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useCallback } from "react";
+import { ToastAction } from "@/components/ui/toast";
+import { callApi, endpoints, type EndpointData } from "@/lib/api";
+import { mutateOptimistic } from "@/lib/query-cache";
+import type { Campaign } from "@/lib/schemas";
+import { useToast } from "@/hooks/use-toast";
+
+type CachedCampaigns =
+  | EndpointData<typeof endpoints.campaigns.list>
+  | EndpointData<typeof endpoints.campaigns.details>;
+
+type CampaignFlag = "is_active" | "is_starred" | "is_archived";
+
+const requests: Record<
+  CampaignFlag,
+  (campaignId: string, value: boolean) => Promise<unknown>
+> = {
+  is_active: (campaignId, is_active) =>
+    callApi(endpoints.campaigns.setActive, { campaignId, is_active }),
+  is_starred: (campaignId, is_starred) =>
+    callApi(endpoints.campaigns.setStarred, { campaignId, is_starred }),
+  is_archived: (campaignId, is_archived) =>
+    callApi(endpoints.campaigns.setArchived, { campaignId, is_archived }),
+};
+
+const toastTitles: Record<CampaignFlag, [on: string, off: string]> = {
+  is_active: ["TEMPLATE_ACTIVATED", "TEMPLATE_DEACTIVATED"],
+  is_starred: ["ADDED_TO_LIBRARY", "REMOVED_FROM_LIBRARY"],
+  is_archived: ["TEMPLATE_ARCHIVED", "TEMPLATE_UNARCHIVED"],
+};
+
+/**
+ * Sets a boolean `meta` flag on a campaign, patching the cached list page
+ * or detail record under `queryKey` first and rolling it back (with a
+ * toast) if the request fails. The success toast offers an UNDO that sets
+ * the flag back the same way.
+ */
+function useCampaignFlagToggle(queryKey: string, flag: CampaignFlag) {
+  const { toast } = useToast();
+
+  return useCallback(
+    async function toggle(
+      campaign: Campaign,
+      value: boolean,
+      undoable = true
+    ): Promise<void> {
+      const patch = (c: Campaign): Campaign =>
+        c._id === campaign._id
+          ? { ...c, meta: { ...c.meta, [flag]: value } }
+          : c;
+
+      try {
+        await mutateOptimistic<CachedCampaigns | undefined, unknown>(
+          queryKey,
+          (data) => {
+            if (!data) return data;
+            if ("campaigns" in data) {
+              return { ...data, campaigns: data.campaigns.map(patch) };
+            }
+            return { ...data, campaign: patch(data.campaign) };
+          },
+          () => requests[flag](campaign._id, value)
+        );
+        const [on, off] = toastTitles[flag];
+        toast({
+          title: value ? on : off,
+          description: campaign.title,
+          action: undoable ? (
+            <ToastAction
+              altText="UNDO"
+              onClick={() => toggle(patch(campaign), !value, false)}
+              className="font-mono"
+            >
+              UNDO
+            </ToastAction>
+          ) : undefined,
+        });
+      } catch (err: any) {
+        const reason = err?.message || "UNKNOWN_ERROR";
+        toast({
+          variant: "destructive",
+          title: "UPDATE_FAILED",
+          description: `${reason} // CHANGE_ROLLED_BACK`,
+        });
+      }
+    },
+    [queryKey, flag, toast]
+  );
+}
+
+/** Activates or deactivates a template. */
+export function useCampaignActiveToggle(queryKey: string) {
+  return useCampaignFlagToggle(queryKey, "is_active");
+}
+
+/** Stars or unstars a template for the shared library. */
+export function useCampaignStarToggle(queryKey: string) {
+  return useCampaignFlagToggle(queryKey, "is_starred");
+}
+
+/** Archives a template or brings it back from the archive. */
+export function useCampaignArchiveToggle(queryKey: string) {
+  return useCampaignFlagToggle(queryKey, "is_archived");
+}
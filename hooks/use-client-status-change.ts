@@ -0,0 +1,86 @@
+"use client";
+
+import { useCallback } from "react";
+import { callApi, endpoints, type EndpointData } from "@/lib/api";
+import type { ClientStatus } from "@/lib/client-filters";
+import { useCurrentUser } from "@/lib/current-user-context";
+import { mutateOptimistic } from "@/lib/query-cache";
+import type { Client } from "@/lib/schemas";
+import { useToast } from "@/hooks/use-toast";
+
+type CachedClients =
+  | EndpointData<typeof endpoints.clients.list>
+  | EndpointData<typeof endpoints.clients.details>;
+
+function applyStatus(
+  client: Client,
+  status: ClientStatus,
+  note: string | undefined,
+  changedBy: string | undefined
+): Client {
+  const now = new Date().toISOString();
+  return {
+    ...client,
+    status,
+    updatedAt: now,
+    status_history: [
+      ...(client.status_history ?? []),
+      {
+        from: client.status,
+        to: status,
+        changed_at: now,
+        changed_by: changedBy,
+        note,
+      },
+    ],
+  };
+}
+
+/**
+ * Changes a client's status, patching the cached list page or detail record
+ * under `queryKey` first and rolling it back (with a toast) if the request
+ * fails.
+ */
+export function useClientStatusChange(queryKey: string) {
+  const { toast } = useToast();
+  const { user } = useCurrentUser();
+
+  return useCallback(
+    async (client: Client, status: ClientStatus, note?: string) => {
+      const transition = `${client.status.toUpperCase()} → ${status.toUpperCase()}`;
+      const patch = (c: Client) =>
+        c._id === client._id ? applyStatus(c, status, note, user?.name) : c;
+
+      try {
+        await mutateOptimistic<CachedClients | undefined, unknown>(
+          queryKey,
+          (data) => {
+            if (!data) return data;
+            if ("clients" in data) {
+              return { ...data, clients: data.clients.map(patch) };
+            }
+            return { ...data, client: patch(data.client) };
+          },
+          () =>
+            callApi(endpoints.clients.updateStatus, {
+              clientId: client._id,
+              status,
+              note,
+            })
+        );
+        toast({
+          title: "STATUS_UPDATED",
+          description: `${client.name}: ${transition}`,
+        });
+      } catch (err: any) {
+        const reason = err?.message || "UNKNOWN_ERROR";
+        toast({
+          variant: "destructive",
+          title: "STATUS_CHANGE_FAILED",
+          description: `${reason} // CHANGE_ROLLED_BACK`,
+        });
+      }
+    },
+    [queryKey, toast, user?.name]
+  );
+}
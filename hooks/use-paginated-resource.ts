@@ -0,0 +1,100 @@
+"use client";
+
+import { useCallback, useMemo, useRef } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  parseLimitParam,
+  parsePageParam,
+  withPageParams,
+} from "@/lib/pagination";
+import { buildQueryKey } from "@/lib/query-cache";
+import { useApiQuery } from "@/hooks/use-api-query";
+
+type PageRequest<TParams> = TParams & { page: number; limit: number };
+
+type UsePaginatedResourceOptions<TParams, TData> = {
+  /** Cache key prefix, usually `endpointKey(endpoint)`. */
+  queryKey: string;
+  fetcher: (
+    request: PageRequest<TParams>,
+    signal: AbortSignal
+  ) => Promise<TData>;
+  /** Extra request inputs (filters, sorting); a change refetches from them. */
+  params?: TParams;
+  defaultLimit: number;
+  /** Cached pages younger than this are shown without revalidating. */
+  staleTime?: number;
+};
+
+/**
+ * Page/limit live in the URL; this hook reads them and serves the matching
+ * page through `useApiQuery`, so pages seen before render from cache while
+ * they revalidate.
+ */
+export function usePaginatedResource<
+  TData,
+  TParams extends object = Record<never, never>
+>({
+  queryKey,
+  fetcher,
+  params,
+  defaultLimit,
+  staleTime = 0,
+}: UsePaginatedResourceOptions<TParams, TData>) {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const page = parsePageParam(searchParams.get("page"));
+  const limit = parseLimitParam(searchParams.get("limit"), defaultLimit);
+
+  // Callers usually pass an inline object; keep the latest without making it
+  // a memo dependency.
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+  const paramsKey = JSON.stringify(params ?? null);
+
+  const request = useMemo(
+    () => ({ ...(paramsRef.current as TParams), page, limit }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [page, limit, paramsKey]
+  );
+
+  const key = buildQueryKey(queryKey, request);
+  const query = useApiQuery({
+    queryKey: key,
+    fetcher: (signal) => fetcher(request, signal),
+    staleTime,
+  });
+
+  const hrefForPage = useCallback(
+    (p: number) => `${pathname}${withPageParams(searchParams, p, limit)}`,
+    [pathname, searchParams, limit]
+  );
+
+  const setPage = useCallback(
+    (p: number) => router.push(hrefForPage(p)),
+    [router, hrefForPage]
+  );
+
+  const setLimit = useCallback(
+    (l: number) =>
+      router.push(`${pathname}${withPageParams(searchParams, 1, l)}`),
+    [router, pathname, searchParams]
+  );
+
+  return {
+    /** Cache key of the current page, for optimistic updates. */
+    queryKey: key,
+    data: query.data,
+    loading: query.loading,
+    refreshing: query.refreshing,
+    error: query.error,
+    page,
+    limit,
+    setPage,
+    setLimit,
+    hrefForPage,
+    refetch: query.refetch,
+  };
+}
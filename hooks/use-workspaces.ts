@@ -0,0 +1,22 @@
+"use client";
+
+import { callApi, endpointKey, endpoints } from "@/lib/api";
+import { MAX_LIMIT } from "@/lib/pagination";
+import { buildQueryKey } from "@/lib/query-cache";
+import { useApiQuery } from "@/hooks/use-api-query";
+
+const input = { page: 1, limit: MAX_LIMIT };
+const queryKey = buildQueryKey(endpointKey(endpoints.workspaces.list), input);
+
+/**
+ * Workspaces (properties) for pickers. Rarely changes, so it is cached for
+ * a few minutes instead of revalidating on every mount.
+ */
+export function useWorkspaces() {
+  const { data, loading, error } = useApiQuery({
+    queryKey,
+    staleTime: 5 * 60_000,
+    fetcher: (signal) => callApi(endpoints.workspaces.list, input, { signal }),
+  });
+  return { workspaces: data?.properties ?? [], loading, error };
+}
@@ -0,0 +1,430 @@
+import { z } from "zod";
+import { ApiError, apiClient, type UploadConfig } from "@/lib/apiClient";
+import type { CampaignFilters } from "@/lib/campaign-filters";
+import type { AudienceFilters } from "@/lib/campaign-send";
+import type { ClientFilters, ClientStatus } from "@/lib/client-filters";
+import { invalidateQueries } from "@/lib/query-cache";
+import {
+  addonSchema,
+  campaignAnalyticsSchema,
+  campaignDispatchSchema,
+  type CampaignPayload,
+  campaignSchema,
+  campaignVersionSchema,
+  clientSchema,
+  type ClientFormValues,
+  currentUserSchema,
+  envelopeSchema,
+  loginResultSchema,
+  type MergedLoginSession,
+  paginationSchema,
+  propertySchema,
+  uploadedAttachmentSchema,
+  workspaceSchema,
+} from "@/lib/schemas";
+
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+type Endpoint<TInput, TSchema extends z.ZodTypeAny> = {
+  method: HttpMethod;
+  path: string | ((input: TInput) => string);
+  data: TSchema;
+  /** Read paths whose cached responses are stale once this call succeeds. */
+  invalidates?: string[];
+};
+
+// `input` is serialized into the query string for GET/DELETE and sent as the
+// JSON body for everything else. Curried so the input type can be given
+// explicitly while the response type is still inferred from the schema.
+function defineEndpoint<TInput = void>() {
+  return <TSchema extends z.ZodTypeAny>(endpoint: Endpoint<TInput, TSchema>) =>
+    endpoint;
+}
+
+type PageInput = { page: number; limit: number };
+
+export const endpoints = {
+  auth: {
+    login: defineEndpoint<{ email: string; password: string }>()({
+      method: "POST",
+      path: "/api/auth/login",
+      data: loginResultSchema,
+    }),
+    verifyMfa: defineEndpoint<{ mfa_token: string; code: string }>()({
+      method: "POST",
+      path: "/api/auth/mfa/verify",
+      data: z.unknown(),
+    }),
+    me: defineEndpoint()({
+      method: "GET",
+      path: "/api/auth/me",
+      data: z.object({ user: currentUserSchema }),
+    }),
+  },
+  clients: {
+    list: defineEndpoint<PageInput & ClientFilters>()({
+      method: "POST",
+      path: "/api/client/all",
+      data: z.object({
+        clients: z.array(clientSchema),
+        pagination: paginationSchema,
+      }),
+    }),
+    details: defineEndpoint<{ clientId: string }>()({
+      method: "GET",
+      path: "/api/client/details",
+      data: z.object({ client: clientSchema }),
+    }),
+    create: defineEndpoint<ClientFormValues>()({
+      method: "POST",
+      path: "/api/client/create",
+      data: z.unknown(),
+      invalidates: ["/api/client/all"],
+    }),
+    edit: defineEndpoint<
+      { clientId: string } & Omit<ClientFormValues, "status">
+    >()({
+      method: "PATCH",
+      path: "/api/client/edit",
+      data: z.unknown(),
+      invalidates: ["/api/client/all", "/api/client/details"],
+    }),
+    delete: defineEndpoint<{ clientId: string }>()({
+      method: "DELETE",
+      path: "/api/client/delete",
+      data: z.unknown(),
+      invalidates: ["/api/client/all", "/api/client/details"],
+    }),
+    // The backend appends the change (and note) to `status_history`.
+    updateStatus: defineEndpoint<{
+      clientId: string;
+      status: ClientStatus;
+      note?: string;
+    }>()({
+      method: "PATCH",
+      path: "/api/client/status",
+      data: z.unknown(),
+      invalidates: ["/api/client/all", "/api/client/details"],
+    }),
+    // Overwrites the surviving record with `values`, appends the sessions to
+    // `meta.login_session_history` and deletes every merged record.
+    merge: defineEndpoint<{
+      clientId: string;
+      mergedClientIds: string[];
+      values: ClientFormValues;
+      login_session_history: MergedLoginSession[];
+    }>()({
+      method: "POST",
+      path: "/api/client/merge",
+      data: z.object({ client: clientSchema }),
+      invalidates: ["/api/client/all", "/api/client/details"],
+    }),
+  },
+  campaigns: {
+    list: defineEndpoint<PageInput & CampaignFilters>()({
+      method: "GET",
+      path: "/api/campaign/master-panel/fetch",
+      data: z.object({
+        campaigns: z.array(campaignSchema),
+        pagination: paginationSchema,
+      }),
+    }),
+    details: defineEndpoint<{ campaignId: string }>()({
+      method: "GET",
+      path: "/api/campaign/details",
+      data: z.object({ campaign: campaignSchema }),
+    }),
+    create: defineEndpoint<CampaignPayload>()({
+      method: "POST",
+      path: "/api/campaign/create",
+      data: z.object({ campaign: campaignSchema }),
+      invalidates: ["/api/campaign/master-panel/fetch"],
+    }),
+    edit: defineEndpoint<{ campaignId: string } & CampaignPayload>()({
+      method: "PATCH",
+      path: "/api/campaign/edit",
+      data: z.unknown(),
+      invalidates: [
+        "/api/campaign/master-panel/fetch",
+        "/api/campaign/details",
+        "/api/campaign/versions",
+      ],
+    }),
+    versions: defineEndpoint<{ campaignId: string }>()({
+      method: "GET",
+      path: "/api/campaign/versions",
+      data: z.object({ versions: z.array(campaignVersionSchema) }),
+    }),
+    // Saves `versionId`'s content as a new version on top of the current
+    // one, so the restore itself shows up in the history.
+    restoreVersion: defineEndpoint<{
+      campaignId: string;
+      versionId: string;
+      note?: string;
+    }>()({
+      method: "POST",
+      path: "/api/campaign/versions/restore",
+      data: z.object({ campaign: campaignSchema }),
+      invalidates: [
+        "/api/campaign/master-panel/fetch",
+        "/api/campaign/details",
+        "/api/campaign/versions",
+      ],
+    }),
+    // Multipart: `file` plus the workspace it belongs to. Sent with
+    // `uploadApi`; the campaign references the result once it is saved.
+    uploadAttachment: defineEndpoint<FormData>()({
+      method: "POST",
+      path: "/api/campaign/attachment/upload",
+      data: z.object({ attachment: uploadedAttachmentSchema }),
+    }),
+    // Daily delivery counts for the last `days` days. `campaignIds` is
+    // comma-separated. Not live yet; see `fetchCampaignAnalytics`.
+    analytics: defineEndpoint<{ campaignIds: string; days: number }>()({
+      method: "GET",
+      path: "/api/campaign/analytics",
+      data: z.object({ analytics: z.array(campaignAnalyticsSchema) }),
+    }),
+    // Queues the campaign for every client matching `audience`, or at
+    // `scheduled_at` (UTC ISO) when given; `timezone` is kept for display.
+    send: defineEndpoint<{
+      campaignId: string;
+      audience: AudienceFilters;
+      scheduled_at?: string;
+      timezone?: string;
+    }>()({
+      method: "POST",
+      path: "/api/campaign/send",
+      data: z.object({ dispatch: campaignDispatchSchema }),
+    }),
+    setActive: defineEndpoint<{ campaignId: string; is_active: boolean }>()({
+      method: "PATCH",
+      path: "/api/campaign/active",
+      data: z.unknown(),
+      invalidates: [
+        "/api/campaign/master-panel/fetch",
+        "/api/campaign/details",
+      ],
+    }),
+    setArchived: defineEndpoint<{
+      campaignId: string;
+      is_archived: boolean;
+    }>()({
+      method: "PATCH",
+      path: "/api/campaign/archive",
+      data: z.unknown(),
+      invalidates: [
+        "/api/campaign/master-panel/fetch",
+        "/api/campaign/details",
+      ],
+    }),
+    delete: defineEndpoint<{ campaignId: string }>()({
+      method: "DELETE",
+      path: "/api/campaign/delete",
+      data: z.unknown(),
+      invalidates: [
+        "/api/campaign/master-panel/fetch",
+        "/api/campaign/details",
+        "/api/campaign/versions",
+      ],
+    }),
+    setStarred: defineEndpoint<{ campaignId: string; is_starred: boolean }>()({
+      method: "PATCH",
+      path: "/api/campaign/starred",
+      data: z.unknown(),
+      invalidates: [
+        "/api/campaign/master-panel/fetch",
+        "/api/campaign/details",
+      ],
+    }),
+  },
+  workspaces: {
+    list: defineEndpoint<PageInput>()({
+      method: "POST",
+      path: "/api/property/all",
+      data: z.object({
+        properties: z.array(propertySchema),
+        pagination: paginationSchema,
+      }),
+    }),
+  },
+  addons: {
+    list: defineEndpoint<PageInput>()({
+      method: "GET",
+      path: "/api/addons/fetch",
+      data: z.object({
+        addons: z.array(addonSchema),
+        pagination: paginationSchema,
+      }),
+    }),
+    create: defineEndpoint<{
+      title: string;
+      description: string;
+      value: number;
+    }>()({
+      method: "POST",
+      path: "/api/addons/create",
+      data: z.unknown(),
+      invalidates: ["/api/addons/fetch"],
+    }),
+    edit: defineEndpoint<{
+      addOnId: string;
+      title: string;
+      description: string;
+      value: number;
+      status: string;
+    }>()({
+      method: "PATCH",
+      path: "/api/addons/edit",
+      data: z.unknown(),
+      invalidates: ["/api/addons/fetch"],
+    }),
+  },
+  users: {
+    withRoles: defineEndpoint<PageInput>()({
+      method: "GET",
+      path: "/api/master-admin/users-with-roles/fetch",
+      data: z.object({
+        workspaceCount: z.number().optional(),
+        workspaces: z.array(workspaceSchema).default([]),
+      }),
+    }),
+  },
+};
+
+export type EndpointData<E> = E extends Endpoint<any, infer S>
+  ? z.output<S>
+  : never;
+
+// A 2xx response whose envelope or payload is not what the endpoint declares.
+export class ApiResponseError extends ApiError {
+  readonly issues: z.ZodIssue[];
+
+  constructor(
+    message: string,
+    path: string,
+    code: string,
+    issues: z.ZodIssue[] = []
+  ) {
+    super(message, { status: 200, code, path, retryable: false });
+    this.name = "ApiResponseError";
+    this.issues = issues;
+  }
+}
+
+function resolvePath<TInput>(
+  endpoint: Endpoint<TInput, z.ZodTypeAny>,
+  input: TInput
+) {
+  return typeof endpoint.path === "function"
+    ? endpoint.path(input)
+    : endpoint.path;
+}
+
+// Base key under which the query cache stores this endpoint's responses.
+export function endpointKey<TInput>(
+  endpoint: Endpoint<TInput, z.ZodTypeAny>,
+  input?: TInput
+) {
+  return resolvePath(endpoint, input as TInput);
+}
+
+function toQuery(input: unknown) {
+  if (!input || typeof input !== "object") return "";
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(input)) {
+    if (value === undefined || value === null || value === "") continue;
+    params.set(key, String(value));
+  }
+  const qs = params.toString();
+  return qs ? `?${qs}` : "";
+}
+
+/**
+ * Calls a registered endpoint, unwraps the `{ status, data }` envelope and
+ * validates `data` against the endpoint schema. Anything other than a
+ * SUCCESS envelope with a well-formed payload throws `ApiResponseError`;
+ * transport and HTTP failures surface as the `ApiError` from apiClient.
+ * On success, cached reads listed in `endpoint.invalidates` are revalidated.
+ */
+export async function callApi<TInput, TSchema extends z.ZodTypeAny>(
+  endpoint: Endpoint<TInput, TSchema>,
+  input: TInput,
+  config: RequestInit = {}
+): Promise<z.output<TSchema>> {
+  const basePath = resolvePath(endpoint, input);
+  const sendsBody = endpoint.method !== "GET" && endpoint.method !== "DELETE";
+  const path = sendsBody ? basePath : `${basePath}${toQuery(input)}`;
+
+  let raw: unknown;
+  switch (endpoint.method) {
+    case "GET":
+      raw = await apiClient.get(path, config);
+      break;
+    case "DELETE":
+      raw = await apiClient.del(path, config);
+      break;
+    case "POST":
+      raw = await apiClient.post(path, input ?? {}, config);
+      break;
+    case "PUT":
+      raw = await apiClient.put(path, input ?? {}, config);
+      break;
+    case "PATCH":
+      raw = await apiClient.patch(path, input ?? {}, config);
+      break;
+  }
+
+  return unwrap(endpoint, basePath, raw);
+}
+
+/**
+ * `callApi` for multipart endpoints: posts `body` as-is and reports upload
+ * progress through `config.onProgress`.
+ */
+export async function uploadApi<TSchema extends z.ZodTypeAny>(
+  endpoint: Endpoint<FormData, TSchema>,
+  body: FormData,
+  config: UploadConfig = {}
+): Promise<z.output<TSchema>> {
+  const path = resolvePath(endpoint, body);
+  const raw = await apiClient.upload(path, body, config);
+  return unwrap(endpoint, path, raw);
+}
+
+function unwrap<TSchema extends z.ZodTypeAny>(
+  endpoint: Endpoint<any, TSchema>,
+  basePath: string,
+  raw: unknown
+): z.output<TSchema> {
+  const envelope = envelopeSchema.safeParse(raw);
+  if (!envelope.success) {
+    throw new ApiResponseError(
+      "Malformed API response",
+      basePath,
+      "INVALID_RESPONSE",
+      envelope.error.issues
+    );
+  }
+  if (envelope.data.status !== "SUCCESS") {
+    throw new ApiResponseError(
+      envelope.data.message ||
+        `Request failed with status ${envelope.data.status}`,
+      basePath,
+      envelope.data.status
+    );
+  }
+
+  const parsed = endpoint.data.safeParse(envelope.data.data);
+  if (!parsed.success) {
+    throw new ApiResponseError(
+      "Unexpected API response shape",
+      basePath,
+      "INVALID_RESPONSE",
+      parsed.error.issues
+    );
+  }
+
+  endpoint.invalidates?.forEach(invalidateQueries);
+  return parsed.data;
+}
@@ -1,3 +1,5 @@
+import { LOGIN_PATH, buildLoginUrl } from "@/lib/auth";
+
 export const apiClient = {
   async get(path: string, config: RequestInit = {}) {
     return await request(path, { ...config, method: "GET" });
@@ -42,13 +44,320 @@ export const apiClient = {
   async del(path: string, config: RequestInit = {}) {
     return await request(path, { ...config, method: "DELETE" });
   },
+
+  // fetch() can't report upload progress, so multipart uploads go through
+  // XHR. Errors, refresh-on-401 and aborts behave like the other methods.
+  async upload(path: string, body: FormData, config: UploadConfig = {}) {
+    return await upload(path, body, config);
+  },
+};
+
+export type UploadConfig = {
+  signal?: AbortSignal;
+  /** Fraction of the body sent so far, 0–1. */
+  onProgress?: (fraction: number) => void;
 };
 
-async function request(path: string, config: RequestInit) {
-  const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${path}`, {
-    ...config,
-    credentials: "include", // baked in forever
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Error thrown by every apiClient call. `status` is 0 when the request never
+ * reached the server (network failure or abort).
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly fieldErrors: FieldErrors;
+  readonly path: string;
+  readonly retryable: boolean;
+  /** Seconds the server asked us to wait (429 / lockouts), when provided. */
+  readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    init: {
+      status: number;
+      code: string;
+      path: string;
+      fieldErrors?: FieldErrors;
+      retryable?: boolean;
+      retryAfter?: number;
+    }
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = init.status;
+    this.code = init.code;
+    this.path = init.path;
+    this.fieldErrors = init.fieldErrors ?? {};
+    this.retryable = init.retryable ?? isRetryableStatus(init.status);
+    this.retryAfter = init.retryAfter;
+  }
+
+  get isAborted() {
+    return this.code === "ABORTED";
+  }
+
+  get isUnauthorized() {
+    return this.status === 401;
+  }
+
+  get isForbidden() {
+    return this.status === 403;
+  }
+
+  get isValidation() {
+    return this.status === 422 || Object.keys(this.fieldErrors).length > 0;
+  }
+}
+
+export function isApiError(err: unknown): err is ApiError {
+  return err instanceof ApiError;
+}
+
+// True for requests cancelled through an AbortSignal, whether they surfaced
+// as an ApiError or as the raw DOMException.
+export function isAbortError(err: unknown) {
+  if (err instanceof ApiError) return err.isAborted;
+  return (err as { name?: string } | null)?.name === "AbortError";
+}
+
+function isRetryableStatus(status: number) {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+function defaultCode(status: number) {
+  switch (status) {
+    case 400:
+      return "BAD_REQUEST";
+    case 401:
+      return "UNAUTHORIZED";
+    case 403:
+      return "FORBIDDEN";
+    case 404:
+      return "NOT_FOUND";
+    case 409:
+      return "CONFLICT";
+    case 422:
+      return "VALIDATION_FAILED";
+    case 423:
+      return "LOCKED";
+    case 429:
+      return "RATE_LIMITED";
+    default:
+      return status >= 500 ? "SERVER_ERROR" : `HTTP_${status}`;
+  }
+}
+
+// The backend reports field errors either as `{ field: message }` or as a
+// list of `{ field | path | param, message | msg }` entries.
+function parseFieldErrors(errors: unknown): FieldErrors {
+  const out: FieldErrors = {};
+  if (Array.isArray(errors)) {
+    for (const e of errors) {
+      if (!e || typeof e !== "object") continue;
+      const key = e.field ?? e.path ?? e.param;
+      const message = e.message ?? e.msg;
+      if (key && message) out[String(key)] = String(message);
+    }
+  } else if (errors && typeof errors === "object") {
+    for (const [key, value] of Object.entries(errors)) {
+      const message = Array.isArray(value) ? value[0] : value;
+      if (message) out[key] = String(message);
+    }
+  }
+  return out;
+}
+
+// `Retry-After` is either delta-seconds or an HTTP date; some endpoints put
+// the value in the body instead.
+function parseRetryAfter(header: string | null, body: any) {
+  const fromBody = Number(body?.retry_after ?? body?.data?.retry_after);
+  if (Number.isFinite(fromBody) && fromBody > 0) return fromBody;
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+const REFRESH_PATH = "/api/auth/refresh";
+
+// Requests that must never trigger the refresh/redirect dance themselves.
+const AUTH_PATHS = [
+  "/api/auth/login",
+  "/api/auth/logout",
+  "/api/auth/mfa/verify",
+  REFRESH_PATH,
+];
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Concurrent 401s share a single refresh call.
+function refreshSession() {
+  if (!refreshInFlight) {
+    refreshInFlight = fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}${REFRESH_PATH}`,
+      {
+        method: "POST",
+        credentials: "include",
+      }
+    )
+      .then((res) => res.ok)
+      .catch(() => false)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+}
+
+function redirectToLogin() {
+  const { pathname, search } = window.location;
+  if (pathname === LOGIN_PATH) return;
+  window.location.assign(
+    buildLoginUrl(`${pathname}${search}`, { expired: true })
+  );
+}
+
+function abortedError(path: string) {
+  return new ApiError("Request aborted", {
+    status: 0,
+    code: "ABORTED",
+    path,
+    retryable: false,
   });
+}
+
+function sendXhr(path: string, body: FormData, config: UploadConfig) {
+  return new Promise<{ status: number; data: any; retryAfter: string | null }>(
+    (resolve, reject) => {
+      if (config.signal?.aborted) {
+        reject(abortedError(path));
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      xhr.open("POST", `${process.env.NEXT_PUBLIC_API_URL}${path}`);
+      xhr.withCredentials = true;
+
+      const onAbort = () => xhr.abort();
+      config.signal?.addEventListener("abort", onAbort);
+      const done = () => config.signal?.removeEventListener("abort", onAbort);
+
+      xhr.upload.onprogress = (e) => {
+        if (e.lengthComputable) config.onProgress?.(e.loaded / e.total);
+      };
+      xhr.onload = () => {
+        done();
+        let data;
+        try {
+          data = JSON.parse(xhr.responseText);
+        } catch {
+          data = null;
+        }
+        resolve({
+          status: xhr.status,
+          data,
+          retryAfter: xhr.getResponseHeader("Retry-After"),
+        });
+      };
+      xhr.onerror = () => {
+        done();
+        reject(
+          new ApiError("Network error", {
+            status: 0,
+            code: "NETWORK_ERROR",
+            path,
+          })
+        );
+      };
+      xhr.onabort = () => {
+        done();
+        reject(abortedError(path));
+      };
+
+      xhr.send(body);
+    }
+  );
+}
+
+async function upload(
+  path: string,
+  body: FormData,
+  config: UploadConfig,
+  retried = false
+): Promise<any> {
+  const res = await sendXhr(path, body, config);
+
+  if ((res.status === 401 || res.status === 403) && !retried) {
+    if (await refreshSession()) return upload(path, body, config, true);
+
+    redirectToLogin();
+    throw new ApiError("Session expired", {
+      status: res.status,
+      code: "SESSION_EXPIRED",
+      path,
+      retryable: false,
+    });
+  }
+
+  if (res.status < 200 || res.status >= 300) {
+    const { data } = res;
+    throw new ApiError(data?.message || `API error: ${res.status}`, {
+      status: res.status,
+      code: data?.code || data?.error_code || defaultCode(res.status),
+      path,
+      fieldErrors: parseFieldErrors(data?.errors ?? data?.data?.errors),
+      retryAfter: parseRetryAfter(res.retryAfter, data),
+    });
+  }
+
+  return res.data;
+}
+
+async function request(
+  path: string,
+  config: RequestInit,
+  retried = false
+): Promise<any> {
+  let res: Response;
+  try {
+    res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${path}`, {
+      ...config,
+      credentials: "include", // baked in forever
+    });
+  } catch (err: any) {
+    const aborted = err?.name === "AbortError";
+    throw new ApiError(
+      aborted ? "Request aborted" : err?.message || "Network error",
+      {
+        status: 0,
+        code: aborted ? "ABORTED" : "NETWORK_ERROR",
+        path,
+        retryable: !aborted,
+      }
+    );
+  }
+
+  const sessionRejected = res.status === 401 || res.status === 403;
+  if (
+    sessionRejected &&
+    !retried &&
+    !AUTH_PATHS.includes(path) &&
+    typeof window !== "undefined"
+  ) {
+    if (await refreshSession()) return request(path, config, true);
+
+    redirectToLogin();
+    throw new ApiError("Session expired", {
+      status: res.status,
+      code: "SESSION_EXPIRED",
+      path,
+      retryable: false,
+    });
+  }
 
   let data;
   try {
@@ -58,7 +367,13 @@ async function request(path: string, config: RequestInit) {
   }
 
   if (!res.ok) {
-    throw new Error(data?.message || `API error: ${res.status}`);
+    throw new ApiError(data?.message || `API error: ${res.status}`, {
+      status: res.status,
+      code: data?.code || data?.error_code || defaultCode(res.status),
+      path,
+      fieldErrors: parseFieldErrors(data?.errors ?? data?.data?.errors),
+      retryAfter: parseRetryAfter(res.headers.get("Retry-After"), data),
+    });
   }
 
   return data;
@@ -0,0 +1,53 @@
+export const LOGIN_PATH = "/login";
+export const RETURN_TO_PARAM = "returnTo";
+// Set when the API rejected the session; the login page must render even if
+// stale session cookies are still around.
+export const SESSION_EXPIRED_PARAM = "expired";
+
+// Cookies set by the backend on login. Either one is enough for the
+// middleware to let a request through; the API still has the final say.
+export const SESSION_COOKIES = (
+  process.env.NEXT_PUBLIC_SESSION_COOKIES ?? "access_token,refresh_token"
+)
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+// Stand-in origin for resolving `returnTo`; anything that resolves elsewhere
+// left the app.
+const RETURN_TO_BASE = "http://return-to.invalid";
+
+// Only same-origin, absolute paths are accepted so `returnTo` can't be used
+// as an open redirect. Browsers and `URL` read `\` as `/`, and drop tabs and
+// newlines, so `/\evil.com` would otherwise leave the site; such values are
+// refused outright and the rest must resolve against our own origin.
+export function sanitizeReturnTo(value: string | null | undefined) {
+  if (
+    !value ||
+    !value.startsWith("/") ||
+    /[\\\u0000-\u001f\u007f]/.test(value)
+  ) {
+    return "/";
+  }
+  let url: URL;
+  try {
+    url = new URL(value, RETURN_TO_BASE);
+  } catch {
+    return "/";
+  }
+  if (url.origin !== RETURN_TO_BASE) return "/";
+  if (url.pathname === LOGIN_PATH) return "/";
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+export function buildLoginUrl(
+  returnTo?: string,
+  { expired = false }: { expired?: boolean } = {}
+) {
+  const target = sanitizeReturnTo(returnTo);
+  const params = new URLSearchParams();
+  if (target !== "/") params.set(RETURN_TO_PARAM, target);
+  if (expired) params.set(SESSION_EXPIRED_PARAM, "1");
+  const qs = params.toString();
+  return qs ? `${LOGIN_PATH}?${qs}` : LOGIN_PATH;
+}
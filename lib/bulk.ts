@@ -0,0 +1,57 @@
+import { batchInvalidations } from "@/lib/query-cache";
+
+export type BulkFailure<T> = { item: T; error: unknown };
+
+export type BulkResult<T> = {
+  succeeded: T[];
+  failed: BulkFailure<T>[];
+};
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` calls in flight and
+ * never throws: each item ends up in `succeeded` or `failed`. Cache
+ * invalidations triggered by the individual calls are coalesced into one
+ * refetch at the end.
+ */
+export function runBulk<T>(
+  items: readonly T[],
+  worker: (item: T, signal: AbortSignal) => Promise<unknown>,
+  {
+    concurrency = 4,
+    signal,
+    onProgress,
+  }: {
+    concurrency?: number;
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+  } = {}
+): Promise<BulkResult<T>> {
+  return batchInvalidations(async () => {
+    const result: BulkResult<T> = { succeeded: [], failed: [] };
+    const controller = new AbortController();
+    signal?.addEventListener("abort", () => controller.abort(), {
+      once: true,
+    });
+
+    let next = 0;
+    let done = 0;
+
+    const lane = async () => {
+      while (next < items.length && !controller.signal.aborted) {
+        const item = items[next++];
+        try {
+          await worker(item, controller.signal);
+          result.succeeded.push(item);
+        } catch (error) {
+          result.failed.push({ item, error });
+        }
+        onProgress?.(++done, items.length);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, items.length) }, lane)
+    );
+    return result;
+  });
+}
@@ -0,0 +1,118 @@
+import { mockCampaignAnalytics } from "@/data/campaign-analytics-mock";
+import { callApi, endpoints } from "@/lib/api";
+import type {
+  AnalyticsPoint,
+  Campaign,
+  CampaignAnalytics,
+} from "@/lib/schemas";
+
+export const DELIVERY_METRICS = [
+  "sent",
+  "delivered",
+  "failed",
+  "opened",
+  "clicked",
+] as const;
+
+export type DeliveryMetric = (typeof DELIVERY_METRICS)[number];
+
+export type DeliveryMetrics = Record<DeliveryMetric, number>;
+
+export const ANALYTICS_RANGES = [7, 30, 90] as const;
+
+export type AnalyticsRange = (typeof ANALYTICS_RANGES)[number];
+
+// Until the backend exposes delivery metrics the dashboard runs on generated
+// data; set NEXT_PUBLIC_CAMPAIGN_ANALYTICS_SOURCE=api to switch over.
+export const ANALYTICS_SOURCE =
+  process.env.NEXT_PUBLIC_CAMPAIGN_ANALYTICS_SOURCE === "api" ? "api" : "mock";
+
+export async function fetchCampaignAnalytics(
+  campaigns: Campaign[],
+  days: AnalyticsRange,
+  signal?: AbortSignal
+): Promise<CampaignAnalytics[]> {
+  if (campaigns.length === 0) return [];
+  if (ANALYTICS_SOURCE === "mock") {
+    return campaigns.map((campaign) => mockCampaignAnalytics(campaign, days));
+  }
+  const { analytics } = await callApi(
+    endpoints.campaigns.analytics,
+    { campaignIds: campaigns.map((c) => c._id).join(","), days },
+    { signal }
+  );
+  return analytics;
+}
+
+export function emptyMetrics(): DeliveryMetrics {
+  return { sent: 0, delivered: 0, failed: 0, opened: 0, clicked: 0 };
+}
+
+export function sumMetrics(points: DeliveryMetrics[]) {
+  const total = emptyMetrics();
+  for (const point of points) {
+    for (const metric of DELIVERY_METRICS) total[metric] += point[metric];
+  }
+  return total;
+}
+
+/** Every campaign's series summed per day, oldest first. */
+export function mergeSeries(analytics: CampaignAnalytics[]): AnalyticsPoint[] {
+  const byDate = new Map<string, AnalyticsPoint>();
+  for (const { series } of analytics) {
+    for (const point of series) {
+      const current = byDate.get(point.date) ?? {
+        date: point.date,
+        ...emptyMetrics(),
+      };
+      for (const metric of DELIVERY_METRICS) current[metric] += point[metric];
+      byDate.set(point.date, current);
+    }
+  }
+  return Array.from(byDate.values()).sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+}
+
+export type AnalyticsBreakdownRow = {
+  key: string;
+  campaigns: number;
+  metrics: DeliveryMetrics;
+};
+
+/** Totals grouped by channel type or workspace, busiest first. */
+export function breakdownBy(
+  analytics: CampaignAnalytics[],
+  field: "type" | "property_id"
+): AnalyticsBreakdownRow[] {
+  const groups = new Map<string, CampaignAnalytics[]>();
+  for (const entry of analytics) {
+    const group = groups.get(entry[field]) ?? [];
+    group.push(entry);
+    groups.set(entry[field], group);
+  }
+  return Array.from(groups, ([key, entries]) => ({
+    key,
+    campaigns: entries.length,
+    metrics: sumMetrics(entries.flatMap((e) => e.series)),
+  })).sort((a, b) => b.metrics.sent - a.metrics.sent);
+}
+
+/**
+ * Delivery rate is over sent; open and click rates are over delivered, so
+ * failures don't drag engagement down. Null when the base is zero.
+ */
+export function deliveryRates(metrics: DeliveryMetrics) {
+  const ratio = (part: number, whole: number) =>
+    whole > 0 ? part / whole : null;
+  return {
+    delivery: ratio(metrics.delivered, metrics.sent),
+    failure: ratio(metrics.failed, metrics.sent),
+    open: ratio(metrics.opened, metrics.delivered),
+    click: ratio(metrics.clicked, metrics.delivered),
+  };
+}
+
+export function formatRate(rate: number | null) {
+  return rate === null ? "—" : `${(rate * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,111 @@
+import type { CampaignAttachment } from "@/lib/schemas";
+
+export const ATTACHMENT_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+] as const;
+
+// What the file picker offers; browsers sometimes report an empty type for
+// these, so extensions are checked as well.
+export const ATTACHMENT_ACCEPT = [
+  ...ATTACHMENT_MIME_TYPES,
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".gif",
+  ".webp",
+  ".pdf",
+  ".txt",
+  ".csv",
+].join(",");
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  csv: "text/csv",
+};
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_TOTAL_SIZE = 25 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 10;
+
+export type AttachmentKind = "image" | "pdf" | "file";
+
+export function attachmentKind(mime: string): AttachmentKind {
+  if (mime.startsWith("image/")) return "image";
+  if (mime === "application/pdf") return "pdf";
+  return "file";
+}
+
+/**
+ * Whether `url` is an absolute http(s) address, the only kind shown as a
+ * link or preview. Older attachments may carry anything else.
+ */
+export function isHttpUrl(url: string) {
+  try {
+    return /^https?:$/.test(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/** The file's MIME type, falling back to its extension. */
+export function fileMime(file: File) {
+  if (file.type) return file.type;
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return MIME_BY_EXTENSION[extension] ?? "";
+}
+
+/**
+ * Why `file` can't be added next to `current` (attachments plus uploads
+ * still in flight), or null when it can.
+ */
+export function attachmentFileError(
+  file: File,
+  current: { size: number }[]
+): string | null {
+  const mime = fileMime(file);
+  if (!(ATTACHMENT_MIME_TYPES as readonly string[]).includes(mime)) {
+    return "UNSUPPORTED_FILE_TYPE";
+  }
+  if (file.size === 0) return "EMPTY_FILE";
+  if (file.size > MAX_ATTACHMENT_SIZE) return "FILE_TOO_LARGE";
+  if (current.length >= MAX_ATTACHMENTS) return "TOO_MANY_ATTACHMENTS";
+  const total = current.reduce((sum, a) => sum + a.size, file.size);
+  if (total > MAX_ATTACHMENTS_TOTAL_SIZE) return "ATTACHMENTS_TOO_LARGE";
+  return null;
+}
+
+export function attachmentsSize(attachments: CampaignAttachment[]) {
+  return attachments.reduce((sum, a) => sum + a.size, 0);
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+/** `items` with the entry at `from` moved to `to`. */
+export function moveItem<T>(items: T[], from: number, to: number) {
+  const next = items.slice();
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
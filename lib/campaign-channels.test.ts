@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { measurableText, smsStats } from "@/lib/campaign-channels";
+
+describe("smsStats", () => {
+  it("fits 160 GSM-7 characters in one segment", () => {
+    const stats = smsStats("a".repeat(160));
+    assert.equal(stats.encoding, "GSM-7");
+    assert.equal(stats.segments, 1);
+    assert.equal(stats.remaining, 0);
+  });
+
+  it("splits longer GSM-7 text into 153-septet segments", () => {
+    assert.equal(smsStats("a".repeat(161)).segments, 2);
+    assert.equal(smsStats("a".repeat(306)).segments, 2);
+    assert.equal(smsStats("a".repeat(307)).segments, 3);
+  });
+
+  it("counts extension characters twice", () => {
+    assert.equal(smsStats("€[]").units, 6);
+  });
+
+  it("switches to UCS-2 for characters outside the GSM alphabet", () => {
+    const stats = smsStats("héllo ✓");
+    assert.equal(stats.encoding, "UCS-2");
+    assert.deepEqual(stats.nonGsm, ["✓"]);
+    assert.equal(smsStats("✓".repeat(70)).segments, 1);
+    assert.equal(smsStats("✓".repeat(71)).segments, 2);
+  });
+
+  it("has no segments for an empty message", () => {
+    assert.equal(smsStats("").segments, 0);
+  });
+});
+
+describe("measurableText", () => {
+  it("measures variables by their bare name", () => {
+    assert.equal(measurableText("Hi {{name}}!"), "Hi name!");
+  });
+});
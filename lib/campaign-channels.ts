@@ -0,0 +1,119 @@
+import { renderTemplate } from "@/lib/campaign-template";
+
+// Per-channel limits and the SMS segment maths behind them.
+
+// GSM 03.38 default alphabet; each character costs one septet.
+const GSM_BASIC = new Set(
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?" +
+    "¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà"
+);
+// Extension table: sent as escape + character, so two septets each.
+const GSM_EXTENDED = new Set("^{}\\[~]|€\f");
+
+export type SmsEncoding = "GSM-7" | "UCS-2";
+
+const SMS_LIMITS: Record<SmsEncoding, { single: number; multipart: number }> = {
+  // A concatenated message loses room to the UDH that stitches it together.
+  "GSM-7": { single: 160, multipart: 153 },
+  "UCS-2": { single: 70, multipart: 67 },
+};
+
+/** Templates longer than this are rejected; most split by accident. */
+export const SMS_MAX_SEGMENTS = 3;
+
+// Carrier price per segment; deployments set their own rate.
+export const SMS_COST_PER_SEGMENT =
+  Number(process.env.NEXT_PUBLIC_SMS_COST_PER_SEGMENT) || 0.0075;
+
+export const SMS_CURRENCY = process.env.NEXT_PUBLIC_SMS_CURRENCY || "USD";
+
+export type SmsStats = {
+  encoding: SmsEncoding;
+  /** Septets for GSM-7, UTF-16 code units for UCS-2. */
+  units: number;
+  segments: number;
+  /** Units that fit in one segment at the current length. */
+  perSegment: number;
+  /** Units left before another segment is needed. */
+  remaining: number;
+  /** Characters that forced UCS-2, deduplicated. */
+  nonGsm: string[];
+  cost: number;
+};
+
+/**
+ * Segment count for `text` as carriers bill it: GSM-7 when every character
+ * is in the GSM alphabet, otherwise UCS-2 for the whole message.
+ */
+export function smsStats(text: string): SmsStats {
+  const nonGsm = new Set<string>();
+  let septets = 0;
+  for (const char of Array.from(text)) {
+    if (GSM_BASIC.has(char)) septets += 1;
+    else if (GSM_EXTENDED.has(char)) septets += 2;
+    else nonGsm.add(char);
+  }
+
+  const encoding: SmsEncoding = nonGsm.size > 0 ? "UCS-2" : "GSM-7";
+  const units = encoding === "GSM-7" ? septets : text.length;
+  const { single, multipart } = SMS_LIMITS[encoding];
+  const segments =
+    units === 0 ? 0 : units <= single ? 1 : Math.ceil(units / multipart);
+  const perSegment = segments > 1 ? multipart : single;
+  const capacity = segments > 1 ? segments * multipart : single;
+
+  return {
+    encoding,
+    units,
+    segments,
+    perSegment,
+    remaining: capacity - units,
+    nonGsm: Array.from(nonGsm),
+    cost: segments * SMS_COST_PER_SEGMENT,
+  };
+}
+
+/**
+ * The template with each `{{variable}}` replaced by its bare name, which is
+ * what templates are measured on before a recipient is known. Left as-is,
+ * the braces alone would count as four GSM extension characters.
+ */
+export function measurableText(message: string) {
+  return renderTemplate(message, {}, null)
+    .map((s) => (s.kind === "text" ? s.text : s.name))
+    .join("");
+}
+
+export function formatSmsCost(amount: number) {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: SMS_CURRENCY,
+    maximumFractionDigits: 4,
+  }).format(amount);
+}
+
+export const EMAIL_SUBJECT_MAX = 150;
+
+// Beyond these most devices truncate the notification.
+export const NOTIFICATION_TITLE_MAX = 65;
+export const NOTIFICATION_BODY_MAX = 240;
+
+export const EMAIL_CONTENT_TYPES = ["text", "html"] as const;
+
+export type EmailContentType = (typeof EMAIL_CONTENT_TYPES)[number];
+
+/** Readable text version of an HTML body, for the plain-text part. */
+export function htmlToText(html: string) {
+  if (typeof DOMParser === "undefined") return html.replace(/<[^>]*>/g, "");
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  doc.querySelectorAll("script, style").forEach((el) => el.remove());
+  doc.querySelectorAll("br").forEach((el) => el.replaceWith("\n"));
+  doc
+    .querySelectorAll("p, div, h1, h2, h3, h4, h5, h6, li, tr")
+    .forEach((el) => el.append("\n"));
+  doc.querySelectorAll("a[href]").forEach((el) => {
+    const href = el.getAttribute("href");
+    if (href && href !== el.textContent) el.append(` (${href})`);
+  });
+  return (doc.body.textContent ?? "").replace(/\n{3,}/g, "\n\n").trim();
+}
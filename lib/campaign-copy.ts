@@ -0,0 +1,188 @@
+import {
+  VARIABLE_NAME_PATTERN,
+  type CampaignType,
+} from "@/lib/campaign-template";
+import type { Campaign, CampaignPayload } from "@/lib/schemas";
+
+/**
+ * The client field each variable name points at across a workspace's
+ * templates, taking the most common one where they disagree. `exceptId`
+ * leaves out the template being copied.
+ */
+export function workspaceVariableSources(
+  campaigns: Campaign[],
+  propertyId: string,
+  exceptId?: string
+) {
+  const counts = new Map<string, Map<string, number>>();
+  for (const campaign of campaigns) {
+    if (campaign.property_id !== propertyId || campaign._id === exceptId) {
+      continue;
+    }
+    for (const [name, source] of Object.entries(
+      campaign.meta?.variable_map ?? {}
+    )) {
+      const bySource = counts.get(name) ?? new Map<string, number>();
+      bySource.set(source, (bySource.get(source) ?? 0) + 1);
+      counts.set(name, bySource);
+    }
+  }
+
+  const sources: Record<string, string> = {};
+  for (const [name, bySource] of Array.from(counts)) {
+    sources[name] = Array.from(bySource).sort((a, b) => b[1] - a[1])[0][0];
+  }
+  return sources;
+}
+
+export type VariableConflict = {
+  name: string;
+  /** What the template being copied maps it to. */
+  source: string;
+  /** What the target workspace's templates map it to. */
+  workspaceSource: string;
+};
+
+/** Variables the target workspace already uses for a different field. */
+export function variableConflicts(
+  variableMap: Record<string, string>,
+  workspaceSources: Record<string, string>
+): VariableConflict[] {
+  return Object.entries(variableMap)
+    .filter(([name, source]) => {
+      const existing = workspaceSources[name];
+      return existing !== undefined && existing !== source;
+    })
+    .map(([name, source]) => ({
+      name,
+      source,
+      workspaceSource: workspaceSources[name],
+    }));
+}
+
+export type ConflictResolution =
+  /** Keep the template's mapping; the workspace ends up with both. */
+  | { action: "keep" }
+  /** Point the variable at the field the workspace uses. */
+  | { action: "adopt" }
+  /** Rename the variable in the copy, message and subject included. */
+  | { action: "rename"; name: string };
+
+export function renameVariable(text: string, from: string, to: string) {
+  return text.replace(
+    new RegExp(`\\{\\{\\s*${from}\\s*\\}\\}`, "g"),
+    `{{${to}}}`
+  );
+}
+
+/**
+ * First `name_2`, `name_3`… that is neither in the template nor mapped to
+ * another field in the workspace.
+ */
+export function suggestVariableName(
+  name: string,
+  variableMap: Record<string, string>,
+  workspaceSources: Record<string, string>
+) {
+  for (let n = 2; ; n++) {
+    const candidate = `${name}_${n}`;
+    if (!(candidate in variableMap) && !(candidate in workspaceSources)) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Why each rename can't be used, keyed by the original variable name. A
+ * new name must be valid, unused in the template, not another rename's
+ * target, and not already mapped to a different field in the workspace.
+ */
+export function resolutionErrors(
+  conflicts: VariableConflict[],
+  resolutions: Record<string, ConflictResolution>,
+  variableMap: Record<string, string>,
+  workspaceSources: Record<string, string>
+) {
+  const errors: Record<string, string> = {};
+  const targets = new Set<string>();
+  for (const conflict of conflicts) {
+    const resolution = resolutions[conflict.name];
+    if (resolution?.action !== "rename") continue;
+    const name = resolution.name.trim();
+    const existing = workspaceSources[name];
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      errors[conflict.name] = "INVALID_VARIABLE_NAME";
+    } else if (name in variableMap || targets.has(name)) {
+      errors[conflict.name] = "DUPLICATE_VARIABLE";
+    } else if (existing !== undefined && existing !== conflict.source) {
+      errors[conflict.name] = "ALSO_TAKEN_IN_WORKSPACE";
+    }
+    targets.add(name);
+  }
+  return errors;
+}
+
+/** `title`, or `title (copy)`, `title (copy 2)`… when that is taken. */
+export function copyTitle(title: string, takenTitles: string[]) {
+  const taken = new Set(takenTitles.map((t) => t.trim().toLowerCase()));
+  if (!taken.has(title.trim().toLowerCase())) return title;
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? `${title} (copy)` : `${title} (copy ${n})`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+/**
+ * Create payload for a copy of `campaign` in `propertyId`, with the
+ * variable conflicts resolved. Library and activity flags aren't copied:
+ * the copy starts unstarred and as active as the original.
+ */
+export function copyPayload(
+  campaign: Campaign,
+  {
+    propertyId,
+    title,
+    conflicts = [],
+    resolutions = {},
+    note,
+  }: {
+    propertyId: string;
+    title: string;
+    conflicts?: VariableConflict[];
+    resolutions?: Record<string, ConflictResolution>;
+    note?: string;
+  }
+): CampaignPayload {
+  let message = campaign.message;
+  let subject = campaign.meta?.subject;
+  const variableMap = { ...campaign.meta?.variable_map };
+
+  for (const conflict of conflicts) {
+    const resolution = resolutions[conflict.name];
+    if (resolution?.action === "adopt") {
+      variableMap[conflict.name] = conflict.workspaceSource;
+    } else if (resolution?.action === "rename") {
+      const name = resolution.name.trim();
+      delete variableMap[conflict.name];
+      variableMap[name] = conflict.source;
+      message = renameVariable(message, conflict.name, name);
+      subject = subject && renameVariable(subject, conflict.name, name);
+    }
+  }
+
+  return {
+    title,
+    // Copied as stored; the server validates the channel.
+    type: campaign.type as CampaignType,
+    property_id: propertyId,
+    message,
+    attachments: campaign.attachments,
+    meta: {
+      variable_map: variableMap,
+      is_active: campaign.meta?.is_active ?? true,
+      subject,
+      content_type: campaign.meta?.content_type,
+    },
+    change_note: note,
+  };
+}
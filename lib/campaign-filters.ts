@@ -0,0 +1,115 @@
+import { CAMPAIGN_TYPES, type CampaignType } from "@/lib/campaign-template";
+import type { Campaign } from "@/lib/schemas";
+
+// Filters for the campaign list. Like the client filters they round-trip
+// through the URL and go out unchanged, here as the query string of
+// `GET /api/campaign/master-panel/fetch` next to `page`/`limit`.
+
+export type CampaignFilters = {
+  /** Matched against title and message. */
+  search?: string;
+  /** Channels to include, comma-separated; absent means every channel. */
+  type?: string;
+  is_active?: boolean;
+  property_id?: string;
+  /**
+   * Archived templates only, or none of them. Omitted lists both, but the
+   * list page always sends it so the archive stays out of the way unless
+   * the URL asks for it.
+   */
+  is_archived?: boolean;
+};
+
+export function parseCampaignFilters(params: URLSearchParams): CampaignFilters {
+  const filters: CampaignFilters = {
+    is_archived: params.get("is_archived") === "true",
+  };
+
+  const search = params.get("search")?.trim();
+  if (search) filters.search = search;
+
+  const type = joinTypes(params.get("type")?.split(",") ?? []);
+  if (type) filters.type = type;
+
+  const isActive = params.get("is_active");
+  if (isActive === "true" || isActive === "false") {
+    filters.is_active = isActive === "true";
+  }
+
+  const propertyId = params.get("property_id")?.trim();
+  if (propertyId) filters.property_id = propertyId;
+
+  return filters;
+}
+
+/**
+ * Known channels in their canonical order, comma-joined. Undefined when
+ * none or all are picked, since either way nothing is filtered out.
+ */
+function joinTypes(types: string[]) {
+  const picked = CAMPAIGN_TYPES.filter((t) => types.includes(t));
+  return picked.length === 0 || picked.length === CAMPAIGN_TYPES.length
+    ? undefined
+    : picked.join(",");
+}
+
+export function selectedCampaignTypes(filters: CampaignFilters) {
+  return (filters.type?.split(",") ?? []) as CampaignType[];
+}
+
+/** The `type` filter with `type` switched on or off. */
+export function toggleCampaignType(
+  filters: CampaignFilters,
+  type: CampaignType
+) {
+  const current = selectedCampaignTypes(filters);
+  return joinTypes(
+    current.includes(type)
+      ? current.filter((t) => t !== type)
+      : [...current, type]
+  );
+}
+
+/**
+ * Query string with `patch` applied on top of `current`. Empty values drop
+ * the param, and any filter change goes back to the first page.
+ */
+export function withCampaignFilters(
+  current: URLSearchParams | string,
+  patch: Partial<CampaignFilters>
+) {
+  const params = new URLSearchParams(current);
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined || value === "") params.delete(key);
+    else params.set(key, String(value));
+  }
+  params.delete("page");
+  const qs = params.toString();
+  return qs ? `?${qs}` : "";
+}
+
+export function hasActiveCampaignFilters(filters: CampaignFilters) {
+  return (
+    !!filters.search ||
+    !!filters.type ||
+    filters.is_active !== undefined ||
+    !!filters.property_id ||
+    !!filters.is_archived
+  );
+}
+
+/**
+ * Whether a cached template still belongs in the filtered list, so flag
+ * changes made optimistically take it out before the list refetches.
+ */
+export function matchesCampaignFlags(
+  campaign: Campaign,
+  filters: CampaignFilters
+) {
+  const isActive = campaign.meta?.is_active !== false;
+  const isArchived = campaign.meta?.is_archived === true;
+  return (
+    (filters.is_archived === undefined || isArchived === filters.is_archived) &&
+    (filters.is_active === undefined || isActive === filters.is_active)
+  );
+}
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { zonedTimeToUtc } from "@/lib/campaign-send";
+
+const iso = (date: string, time: string, zone: string) =>
+  zonedTimeToUtc(date, time, zone).toISOString();
+
+describe("zonedTimeToUtc", () => {
+  it("converts fixed-offset zones", () => {
+    assert.equal(iso("2025-06-01", "09:30", "UTC"), "2025-06-01T09:30:00.000Z");
+    assert.equal(
+      iso("2025-06-01", "09:30", "Asia/Kolkata"),
+      "2025-06-01T04:00:00.000Z"
+    );
+  });
+
+  it("follows daylight saving time", () => {
+    assert.equal(
+      iso("2025-01-15", "12:00", "America/New_York"),
+      "2025-01-15T17:00:00.000Z"
+    );
+    assert.equal(
+      iso("2025-07-15", "12:00", "America/New_York"),
+      "2025-07-15T16:00:00.000Z"
+    );
+  });
+
+  it("moves times skipped by a DST jump forward", () => {
+    // 02:30 doesn't exist on 2025-03-09 in New York; it reads as 03:30 EDT.
+    assert.equal(
+      iso("2025-03-09", "02:30", "America/New_York"),
+      "2025-03-09T07:30:00.000Z"
+    );
+  });
+
+  it("resolves repeated times to their first occurrence", () => {
+    // 01:30 happens twice on 2025-11-02 in New York; the first is EDT.
+    assert.equal(
+      iso("2025-11-02", "01:30", "America/New_York"),
+      "2025-11-02T05:30:00.000Z"
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import type { ClientFilters } from "@/lib/client-filters";
+
+// Recipients are picked with the same filters as the clients table, minus
+// the sort, which has no meaning for a send.
+export type AudienceFilters = Omit<ClientFilters, "sort_by" | "sort_order">;
+
+export const DRY_RUN_SIZES = [3, 5, 10, 25] as const;
+
+export function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/** IANA zones the browser knows, with `current` kept in the list. */
+export function timeZones(current: string) {
+  const zones =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Milliseconds `timeZone` is ahead of UTC at the instant `utc`.
+function zoneOffset(utc: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(utc));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return wallClock - Math.floor(utc / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock `date` (`yyyy-MM-dd`) and `time` (`HH:mm`) in
+ * `timeZone` refers to. Times skipped by a DST jump are moved forward by
+ * the jump; repeated times resolve to their first occurrence.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Every instant showing this wall-clock time is within a day of it, and
+  // zones change offset at most once in that window, so the offsets a day
+  // either side are the only candidates.
+  const offsets = Array.from(
+    new Set([
+      zoneOffset(wallClock - DAY_MS, timeZone),
+      zoneOffset(wallClock + DAY_MS, timeZone),
+    ])
+  );
+  const valid = offsets
+    .map((offset) => wallClock - offset)
+    .filter((utc) => wallClock - zoneOffset(utc, timeZone) === utc)
+    .sort((a, b) => a - b);
+  // No candidate reads back as this wall-clock time: it falls in the gap,
+  // and the offset from before the jump moves it forward.
+  return new Date(valid[0] ?? wallClock - Math.min(...offsets));
+}
+
+export function formatInTimeZone(date: Date, timeZone: string) {
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZoneName: "short",
+  }).format(date);
+}
+
+// Sends scheduled closer than this would race the dispatcher.
+export const MIN_SCHEDULE_LEAD_MS = 5 * 60 * 1000;
+
+/** Why a schedule can't be used, or null when it can. */
+export function scheduleError(
+  date: string | undefined,
+  time: string,
+  timeZone: string,
+  now = Date.now()
+) {
+  if (!date) return "PICK_A_DATE";
+  if (!/^\d{2}:\d{2}$/.test(time)) return "PICK_A_TIME";
+  const at = zonedTimeToUtc(date, time, timeZone);
+  if (Number.isNaN(at.getTime())) return "INVALID_SCHEDULE";
+  if (at.getTime() < now + MIN_SCHEDULE_LEAD_MS) {
+    return "SCHEDULE_AT_LEAST_5_MINUTES_AHEAD";
+  }
+  return null;
+}
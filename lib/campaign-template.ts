@@ -0,0 +1,181 @@
+import type { Client } from "@/lib/schemas";
+
+export const CAMPAIGN_TYPES = ["email", "sms", "notification"] as const;
+
+export type CampaignType = (typeof CAMPAIGN_TYPES)[number];
+
+// `{{ name }}`; names are identifiers, whitespace inside the braces is allowed.
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_]\w*$/;
+
+/**
+ * Client fields a variable can point at. `variable_map` maps each variable
+ * name to one of these paths (or any other dot path into the client).
+ */
+export const CLIENT_VARIABLE_SOURCES = [
+  "name",
+  "email",
+  "mobile_number",
+  "status",
+  "message",
+  "meta.login_session.from_route",
+  "meta.login_session.location.country",
+  "meta.login_session.location.region",
+  "meta.login_session.location.city",
+] as const;
+
+/** Records the editor preview can render against. */
+export const SAMPLE_CLIENTS: Client[] = [
+  {
+    _id: "sample-1",
+    name: "Jane Doe",
+    email: "jane.doe@example.com",
+    mobile_number: "+919876543210",
+    status: "new",
+    message: "Interested in the premium plan",
+    meta: {
+      login_session: {
+        from_route: "/pricing",
+        location: { country: "India", region: "Karnataka", city: "Bengaluru" },
+      },
+    },
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  },
+  {
+    _id: "sample-2",
+    name: "Marco Rossi",
+    email: "marco@example.it",
+    mobile_number: "+393331234567",
+    status: "active",
+    meta: {
+      login_session: {
+        from_route: "/contact",
+        location: { country: "Italy", region: "Lazio", city: "Rome" },
+      },
+    },
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  },
+];
+
+/** Distinct variable names used in `message`, in order of first use. */
+export function extractVariables(message: string) {
+  const names = new Set<string>();
+  for (const match of Array.from(message.matchAll(VARIABLE_PATTERN))) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+/**
+ * `undefined`: used in the message but missing from `variable_map`, so they
+ * would be sent literally. `unused`: mapped but never referenced.
+ */
+export function lintTemplate(
+  message: string,
+  variableMap: Record<string, string>
+) {
+  const used = extractVariables(message);
+  const mapped = Object.keys(variableMap);
+  return {
+    undefined: used.filter((name) => !(name in variableMap)),
+    unused: mapped.filter((name) => !used.includes(name)),
+  };
+}
+
+export type TemplateSegment =
+  | { kind: "text"; text: string }
+  | { kind: "variable"; name: string; value: string | null };
+
+function resolvePath(record: unknown, path: string) {
+  const value = path
+    .split(".")
+    .reduce<unknown>(
+      (current, key) =>
+        current && typeof current === "object"
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      record
+    );
+  return value === undefined || value === null || value === ""
+    ? null
+    : String(value);
+}
+
+/**
+ * Splits `message` into literal text and variables resolved against
+ * `record`. `value` is null for unmapped variables and for paths the record
+ * has no value at.
+ */
+export function renderTemplate(
+  message: string,
+  variableMap: Record<string, string>,
+  record: unknown
+): TemplateSegment[] {
+  const segments: TemplateSegment[] = [];
+  let last = 0;
+  for (const match of Array.from(message.matchAll(VARIABLE_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      segments.push({ kind: "text", text: message.slice(last, index) });
+    }
+    const name = match[1];
+    const source = variableMap[name];
+    segments.push({
+      kind: "variable",
+      name,
+      value: source ? resolvePath(record, source) : null,
+    });
+    last = index + match[0].length;
+  }
+  if (last < message.length) {
+    segments.push({ kind: "text", text: message.slice(last) });
+  }
+  return segments;
+}
+
+/** `renderTemplate` flattened; unresolved variables stay as `{{name}}`. */
+export function renderTemplateText(
+  message: string,
+  variableMap: Record<string, string>,
+  record: unknown
+) {
+  return renderTemplate(message, variableMap, record)
+    .map((s) => (s.kind === "text" ? s.text : s.value ?? `{{${s.name}}}`))
+    .join("");
+}
+
+/**
+ * The partially typed variable name when the caret sits right after an
+ * unclosed `{{`, e.g. `Hi {{fir|` → `{ start: 3, query: "fir" }`.
+ */
+export function variableQueryAt(text: string, caret: number) {
+  const before = text.slice(0, caret);
+  const match = /\{\{\s*(\w*)$/.exec(before);
+  if (!match) return null;
+  return { start: match.index, query: match[1] };
+}
+
+/**
+ * Replaces `text[start..caret]` with `{{name}}`. When that range is a
+ * `{{partial` being completed, a closing `}}` already after the caret is
+ * consumed; with `start === caret` this is a plain insert.
+ */
+export function insertVariable(
+  text: string,
+  start: number,
+  caret: number,
+  name: string
+) {
+  const completing = text.slice(start, caret).startsWith("{{");
+  const rest = completing
+    ? text.slice(caret).replace(/^\w*\s*\}\}/, "")
+    : text.slice(caret);
+  const token = `{{${name}}}`;
+  return {
+    text: text.slice(0, start) + token + rest,
+    caret: start + token.length,
+  };
+}
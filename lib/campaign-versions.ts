@@ -0,0 +1,60 @@
+import type { CampaignVersion } from "@/lib/schemas";
+
+/** Newest first. */
+export function sortVersions(versions: CampaignVersion[]) {
+  return [...versions].sort((a, b) => b.version - a.version);
+}
+
+export type LiveWindow = {
+  version: CampaignVersion;
+  from: Date;
+  /** When the next version replaced it; null for the live one. */
+  until: Date | null;
+};
+
+/** How long each version was live, newest first. */
+export function liveWindows(versions: CampaignVersion[]): LiveWindow[] {
+  const sorted = sortVersions(versions);
+  return sorted.map((version, i) => ({
+    version,
+    from: new Date(version.changed_at),
+    until: i === 0 ? null : new Date(sorted[i - 1].changed_at),
+  }));
+}
+
+/**
+ * Versions that were live at any point between `from` and `to`, newest
+ * first. More than one means the template was edited within the range.
+ */
+export function versionsLiveBetween(
+  versions: CampaignVersion[],
+  from: Date,
+  to: Date
+) {
+  return liveWindows(versions).filter(
+    (window) =>
+      window.from.getTime() <= to.getTime() &&
+      (window.until === null || window.until.getTime() > from.getTime())
+  );
+}
+
+/**
+ * The single-line fields of a version worth comparing, labelled the way
+ * the detail page labels them. Message and variable map are diffed apart.
+ */
+export function versionFields(version: CampaignVersion) {
+  const meta = version.meta ?? {};
+  return {
+    TITLE: version.title,
+    CHANNEL: version.type.toUpperCase(),
+    SUBJECT: version.type === "sms" ? "" : meta.subject ?? "",
+    FORMAT:
+      version.type === "email"
+        ? meta.content_type === "html"
+          ? "HTML"
+          : "PLAIN_TEXT"
+        : "",
+    ACTIVE: meta.is_active === false ? "NO" : "YES",
+    ATTACHMENTS: version.attachments.map((a) => a.name).join(", "),
+  };
+}
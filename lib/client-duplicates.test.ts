@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  findDuplicateGroups,
+  nameSimilarity,
+  normalizeEmail,
+  normalizeMobile,
+} from "@/lib/client-duplicates";
+import type { Client } from "@/lib/schemas";
+
+function client(_id: string, fields: Partial<Client>): Client {
+  return {
+    _id,
+    name: "",
+    email: "",
+    mobile_number: "",
+    status: "new",
+    createdAt: "2025-01-01T00:00:00Z",
+    updatedAt: "2025-01-01T00:00:00Z",
+    ...fields,
+  };
+}
+
+const ids = (clients: Client[]) => clients.map((c) => c._id).sort();
+
+describe("normalizeEmail", () => {
+  it("folds case, plus tags and gmail dots", () => {
+    assert.equal(normalizeEmail(" J.Doe+x@GoogleMail.com"), "jdoe@gmail.com");
+    assert.equal(normalizeEmail("a.b+c@example.com"), "a.b@example.com");
+  });
+});
+
+describe("normalizeMobile", () => {
+  it("keeps the last ten digits", () => {
+    assert.equal(normalizeMobile("+91 98765-43210"), "9876543210");
+  });
+
+  it("treats short numbers as missing", () => {
+    assert.equal(normalizeMobile("12-34"), "");
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("ignores case, accents and word order", () => {
+    assert.equal(nameSimilarity("José Álvarez", "alvarez jose"), 1);
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("groups by email, mobile and near-identical names", () => {
+    const groups = findDuplicateGroups([
+      client("1", { name: "Ann Lee", email: "ann@x.com" }),
+      client("2", { name: "Someone", email: "ANN@x.com" }),
+      client("3", { name: "Bob Roy", mobile_number: "+1 555 010 9999" }),
+      client("4", { name: "Carl", mobile_number: "5550109999" }),
+      client("5", { name: "Dana Smith" }),
+      client("6", { name: "Dana Smyth" }),
+    ]);
+    assert.deepEqual(groups.map((g) => ids(g.clients)).sort(), [
+      ["1", "2"],
+      ["3", "4"],
+      ["5", "6"],
+    ]);
+  });
+
+  it("doesn't group records that only share blank contact details", () => {
+    const groups = findDuplicateGroups(
+      [
+        client("1", { name: "Ann", email: "", mobile_number: "" }),
+        client("2", { name: "Bob", email: "", mobile_number: "123" }),
+        client("3", { name: "Cy", email: "", mobile_number: "45" }),
+      ],
+      { matchNames: false }
+    );
+    assert.deepEqual(groups, []);
+  });
+});
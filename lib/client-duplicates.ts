@@ -0,0 +1,272 @@
+import {
+  clientFormSchema,
+  type Client,
+  type ClientFormValues,
+  type MergedLoginSession,
+} from "@/lib/schemas";
+
+// Jaro-Winkler score above which two names count as the same person.
+export const NAME_MATCH_THRESHOLD = 0.92;
+
+export type DuplicateReason = "email" | "mobile" | "name";
+
+export type DuplicateGroup = {
+  /** Stable across refetches as long as the oldest record stays. */
+  id: string;
+  /** Oldest first; the first record is the suggested survivor. */
+  clients: Client[];
+  reasons: DuplicateReason[];
+};
+
+/**
+ * Lowercased, without a `+tag`; for Gmail also without dots, since Gmail
+ * ignores them and leads type the same address both ways.
+ */
+export function normalizeEmail(email: string) {
+  const [local, domain] = email.trim().toLowerCase().split("@");
+  if (!domain) return local;
+  const host = domain === "googlemail.com" ? "gmail.com" : domain;
+  let user = local.split("+")[0];
+  if (host === "gmail.com") user = user.replace(/\./g, "");
+  return `${user}@${host}`;
+}
+
+/**
+ * The last 10 digits, so the same number with and without a country code or
+ * trunk prefix ("+44 7700 900123" / "07700 900123") compares equal. Empty
+ * when there are too few digits to be meaningful.
+ */
+export function normalizeMobile(mobile: string) {
+  const digits = mobile.replace(/\D/g, "");
+  return digits.length >= 7 ? digits.slice(-10) : "";
+}
+
+/** Lowercased, accents and punctuation dropped, tokens sorted. */
+export function normalizeName(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+function jaroWinkler(a: string, b: string) {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const from = Math.max(0, i - window);
+    const to = Math.min(b.length - 1, i + window);
+    for (let j = from; j <= to; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j++]) transpositions++;
+  }
+
+  const m = matches;
+  const jaro = (m / a.length + m / b.length + (m - transpositions / 2) / m) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+export function nameSimilarity(a: string, b: string) {
+  return jaroWinkler(normalizeName(a), normalizeName(b));
+}
+
+/**
+ * Groups records sharing a normalized email or mobile number and, when
+ * `matchNames` is on, records whose names are near-identical. Only groups
+ * with more than one record are returned, largest first.
+ */
+export function findDuplicateGroups(
+  clients: Client[],
+  { matchNames = true }: { matchNames?: boolean } = {}
+): DuplicateGroup[] {
+  const parent = clients.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  const byKey = new Map<string, number>();
+  // Keys are namespaced by field, so blank values are skipped by the caller
+  // before the prefix is added.
+  const link = (key: string, index: number) => {
+    const first = byKey.get(key);
+    if (first === undefined) byKey.set(key, index);
+    else union(index, first);
+  };
+
+  const names = clients.map((c) => normalizeName(c.name));
+  clients.forEach((client, i) => {
+    const email = normalizeEmail(client.email);
+    if (email) link(`email:${email}`, i);
+    const mobile = normalizeMobile(client.mobile_number);
+    if (mobile) link(`mobile:${mobile}`, i);
+  });
+
+  if (matchNames) {
+    // Only names sharing a first letter are compared, which keeps this far
+    // from quadratic over the whole list.
+    const blocks = new Map<string, number[]>();
+    names.forEach((name, i) => {
+      if (!name) return;
+      const block = blocks.get(name[0]) ?? [];
+      block.push(i);
+      blocks.set(name[0], block);
+    });
+    for (const block of Array.from(blocks.values())) {
+      for (let x = 0; x < block.length; x++) {
+        for (let y = x + 1; y < block.length; y++) {
+          const [i, j] = [block[x], block[y]];
+          if (find(i) === find(j)) continue;
+          if (jaroWinkler(names[i], names[j]) >= NAME_MATCH_THRESHOLD) {
+            union(i, j);
+          }
+        }
+      }
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  clients.forEach((_, i) => {
+    const root = find(i);
+    members.set(root, [...(members.get(root) ?? []), i]);
+  });
+
+  return Array.from(members.values())
+    .filter((indexes) => indexes.length > 1)
+    .map((indexes) => {
+      const group = indexes
+        .map((i) => clients[i])
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      return {
+        id: group[0]._id,
+        clients: group,
+        reasons: groupReasons(group),
+      };
+    })
+    .sort((a, b) => b.clients.length - a.clients.length);
+}
+
+function groupReasons(group: Client[]): DuplicateReason[] {
+  const shares = (key: (c: Client) => string) => {
+    const keys = group.map(key).filter(Boolean);
+    return new Set(keys).size < keys.length;
+  };
+  const reasons: DuplicateReason[] = [];
+  if (shares((c) => normalizeEmail(c.email))) reasons.push("email");
+  if (shares((c) => normalizeMobile(c.mobile_number))) reasons.push("mobile");
+  if (
+    group.some((a, i) =>
+      group
+        .slice(i + 1)
+        .some((b) => nameSimilarity(a.name, b.name) >= NAME_MATCH_THRESHOLD)
+    )
+  ) {
+    reasons.push("name");
+  }
+  return reasons;
+}
+
+export const MERGE_FIELDS = [
+  "name",
+  "email",
+  "mobile_number",
+  "message",
+  "status",
+] as const;
+
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+/** Id of the record whose value wins, per field. */
+export type MergeSelection = Record<MergeField, string>;
+
+/**
+ * Every field from `survivor`, except that an empty value falls back to the
+ * first record in the group that has one.
+ */
+export function defaultMergeSelection(
+  survivor: Client,
+  group: Client[]
+): MergeSelection {
+  const selection = {} as MergeSelection;
+  for (const field of MERGE_FIELDS) {
+    const source = survivor[field]
+      ? survivor
+      : group.find((c) => c[field]) ?? survivor;
+    selection[field] = source._id;
+  }
+  return selection;
+}
+
+/**
+ * Builds the `clients.merge` request. Every merged record's current session
+ * and any history it already carried are appended to the survivor's history.
+ * Throws when the picked values don't pass the client form validation.
+ */
+export function buildMergeInput(
+  survivor: Client,
+  group: Client[],
+  selection: MergeSelection
+) {
+  const byId = new Map(group.map((c) => [c._id, c]));
+  const pick = (field: MergeField) =>
+    (byId.get(selection[field]) ?? survivor)[field];
+
+  const parsed = clientFormSchema.safeParse({
+    name: pick("name"),
+    email: pick("email"),
+    mobile_number: pick("mobile_number"),
+    message: pick("message") || undefined,
+    status: pick("status"),
+  });
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`INVALID_MERGED_VALUE: ${issue.path[0]} ${issue.message}`);
+  }
+
+  const merged = group.filter((c) => c._id !== survivor._id);
+  const login_session_history: MergedLoginSession[] = merged.flatMap((c) => [
+    ...(c.meta?.login_session_history ?? []),
+    ...(c.meta?.login_session
+      ? [
+          {
+            ...c.meta.login_session,
+            ray_id: c.meta.ray_id,
+            source_client_id: c._id,
+          },
+        ]
+      : []),
+  ]);
+
+  const values: ClientFormValues = parsed.data;
+  return {
+    clientId: survivor._id,
+    mergedClientIds: merged.map((c) => c._id),
+    values,
+    login_session_history,
+  };
+}
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  hasActiveClientFilters,
+  nextClientSort,
+  parseClientFilters,
+  withClientFilters,
+} from "@/lib/client-filters";
+
+const parse = (qs: string) => parseClientFilters(new URLSearchParams(qs));
+
+describe("parseClientFilters", () => {
+  it("keeps known values and trims text", () => {
+    assert.deepEqual(parse("search=%20ann%20&status=active&country=IN"), {
+      search: "ann",
+      status: "active",
+      country: "IN",
+    });
+  });
+
+  it("drops unknown statuses and sort fields", () => {
+    assert.deepEqual(parse("status=archived&sort_by=password"), {});
+  });
+
+  it("defaults the sort order to desc", () => {
+    assert.deepEqual(parse("sort_by=name"), {
+      sort_by: "name",
+      sort_order: "desc",
+    });
+    assert.equal(parse("sort_by=name&sort_order=asc").sort_order, "asc");
+  });
+
+  it("keeps real dates", () => {
+    assert.deepEqual(
+      parse("submitted_from=2024-02-29&submitted_to=2025-01-31"),
+      { submitted_from: "2024-02-29", submitted_to: "2025-01-31" }
+    );
+  });
+
+  it("drops malformed and impossible dates", () => {
+    assert.deepEqual(
+      parse("submitted_from=2025-02-31&submitted_to=2025-13-01"),
+      {}
+    );
+    assert.deepEqual(parse("submitted_from=2025-2-1"), {});
+  });
+});
+
+describe("withClientFilters", () => {
+  it("sets, clears and resets the page", () => {
+    assert.equal(
+      withClientFilters("page=3&status=new", {
+        status: undefined,
+        search: "x",
+      }),
+      "?search=x"
+    );
+  });
+
+  it("returns an empty string when nothing is left", () => {
+    assert.equal(withClientFilters("page=2", {}), "");
+  });
+});
+
+describe("hasActiveClientFilters", () => {
+  it("ignores sorting", () => {
+    assert.equal(hasActiveClientFilters({ sort_by: "name" }), false);
+    assert.equal(hasActiveClientFilters({ status: "new" }), true);
+  });
+});
+
+describe("nextClientSort", () => {
+  it("cycles desc, asc, off", () => {
+    assert.deepEqual(nextClientSort({}, "name"), {
+      sort_by: "name",
+      sort_order: "desc",
+    });
+    assert.deepEqual(
+      nextClientSort({ sort_by: "name", sort_order: "desc" }, "name"),
+      { sort_by: "name", sort_order: "asc" }
+    );
+    assert.deepEqual(
+      nextClientSort({ sort_by: "name", sort_order: "asc" }, "name"),
+      { sort_by: undefined, sort_order: undefined }
+    );
+  });
+});
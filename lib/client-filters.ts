@@ -0,0 +1,113 @@
+import { isValid, parseISO } from "date-fns";
+
+// Filters and sorting for the clients table. They round-trip through the URL
+// (so a filtered view can be shared or reloaded) and are sent as-is in the
+// `POST /api/client/all` body next to `page`/`limit`.
+
+export const CLIENT_STATUSES = ["new", "active", "closed"] as const;
+
+export type ClientStatus = (typeof CLIENT_STATUSES)[number];
+
+export const CLIENT_SORT_FIELDS = [
+  "name",
+  "email",
+  "status",
+  "from_route",
+  "submitted_at",
+] as const;
+
+export type ClientSortField = (typeof CLIENT_SORT_FIELDS)[number];
+
+export type SortOrder = "asc" | "desc";
+
+export type ClientFilters = {
+  search?: string;
+  status?: ClientStatus;
+  country?: string;
+  from_route?: string;
+  /** Inclusive `yyyy-MM-dd` bounds on `meta.login_session.submitted_at`. */
+  submitted_from?: string;
+  submitted_to?: string;
+  sort_by?: ClientSortField;
+  sort_order?: SortOrder;
+};
+
+const TEXT_KEYS = [
+  "search",
+  "country",
+  "from_route",
+  "submitted_from",
+  "submitted_to",
+] as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Shape alone lets `2025-02-31` through, which the date picker can't format.
+function isDateParam(value: string) {
+  return DATE_PATTERN.test(value) && isValid(parseISO(value));
+}
+
+function isOneOf<T extends string>(
+  values: readonly T[],
+  value: string | null
+): value is T {
+  return value !== null && (values as readonly string[]).includes(value);
+}
+
+export function parseClientFilters(params: URLSearchParams): ClientFilters {
+  const filters: ClientFilters = {};
+
+  for (const key of TEXT_KEYS) {
+    const value = params.get(key)?.trim();
+    if (!value) continue;
+    if (key.startsWith("submitted_") && !isDateParam(value)) continue;
+    filters[key] = value;
+  }
+
+  const status = params.get("status");
+  if (isOneOf(CLIENT_STATUSES, status)) filters.status = status;
+
+  const sortBy = params.get("sort_by");
+  if (isOneOf(CLIENT_SORT_FIELDS, sortBy)) {
+    filters.sort_by = sortBy;
+    filters.sort_order = params.get("sort_order") === "asc" ? "asc" : "desc";
+  }
+
+  return filters;
+}
+
+/**
+ * Query string with `patch` applied on top of `current`. Empty values drop
+ * the param, and any filter change goes back to the first page.
+ */
+export function withClientFilters(
+  current: URLSearchParams | string,
+  patch: Partial<ClientFilters>
+) {
+  const params = new URLSearchParams(current);
+  for (const [key, value] of Object.entries(patch)) {
+    if (value) params.set(key, value);
+    else params.delete(key);
+  }
+  params.delete("page");
+  const qs = params.toString();
+  return qs ? `?${qs}` : "";
+}
+
+export function hasActiveClientFilters(filters: ClientFilters) {
+  return TEXT_KEYS.some((key) => filters[key]) || !!filters.status;
+}
+
+/** Next sort state when a column header is clicked: desc → asc → off. */
+export function nextClientSort(
+  filters: ClientFilters,
+  field: ClientSortField
+): Pick<ClientFilters, "sort_by" | "sort_order"> {
+  if (filters.sort_by !== field) {
+    return { sort_by: field, sort_order: "desc" };
+  }
+  if (filters.sort_order === "desc") {
+    return { sort_by: field, sort_order: "asc" };
+  }
+  return { sort_by: undefined, sort_order: undefined };
+}
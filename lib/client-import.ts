@@ -0,0 +1,193 @@
+import { isApiError } from "@/lib/apiClient";
+import type { BulkResult } from "@/lib/bulk";
+import type { ClientStatus } from "@/lib/client-filters";
+import type { ExportColumn } from "@/lib/export";
+import { clientFormSchema, type ClientFormValues } from "@/lib/schemas";
+
+// Larger files should go through the backend; parsing and validating in the
+// browser stays responsive up to about this size.
+export const MAX_IMPORT_ROWS = 5000;
+
+export const CLIENT_IMPORT_FIELDS = [
+  {
+    key: "name",
+    label: "NAME",
+    required: true,
+    aliases: ["name", "full name", "client", "client name", "contact"],
+  },
+  {
+    key: "email",
+    label: "EMAIL",
+    required: true,
+    aliases: ["email", "e mail", "email address", "mail"],
+  },
+  {
+    key: "mobile_number",
+    label: "MOBILE_NUMBER",
+    required: true,
+    aliases: ["mobile", "mobile number", "phone", "phone number", "tel"],
+  },
+  {
+    key: "status",
+    label: "STATUS",
+    required: false,
+    aliases: ["status", "stage"],
+  },
+  {
+    key: "message",
+    label: "MESSAGE",
+    required: false,
+    aliases: ["message", "note", "notes", "comment", "comments"],
+  },
+] as const;
+
+export type ClientImportField = (typeof CLIENT_IMPORT_FIELDS)[number]["key"];
+
+/** Column index in the file for each field, or null when not mapped. */
+export type ColumnMapping = Record<ClientImportField, number | null>;
+
+export type ImportRow = {
+  /** Row number in the file, counting the header as row 1. */
+  line: number;
+  raw: Record<ClientImportField, string>;
+  /** Set only when every field passed validation. */
+  values?: ClientFormValues;
+  errors: Partial<Record<ClientImportField, string>>;
+};
+
+const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/[_\-.]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/** Maps each field to the first header matching one of its aliases. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const taken = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const field of CLIENT_IMPORT_FIELDS) {
+    const index = normalized.findIndex(
+      (h, i) =>
+        !taken.has(i) && (field.aliases as readonly string[]).includes(h)
+    );
+    mapping[field.key] = index === -1 ? null : index;
+    if (index !== -1) taken.add(index);
+  }
+  return mapping;
+}
+
+export function missingRequiredFields(mapping: ColumnMapping) {
+  return CLIENT_IMPORT_FIELDS.filter(
+    (f) => f.required && mapping[f.key] === null
+  ).map((f) => f.key);
+}
+
+/**
+ * Validates data rows (header excluded) against the same schema as the create
+ * form. An empty status cell falls back to `defaultStatus`. Rows repeating an
+ * earlier row's email or mobile number are flagged so each client is only
+ * submitted once.
+ */
+export function validateImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  defaultStatus: ClientStatus
+): ImportRow[] {
+  const seenEmails = new Map<string, number>();
+  const seenMobiles = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const line = index + 2;
+    const raw = {} as Record<ClientImportField, string>;
+    for (const { key } of CLIENT_IMPORT_FIELDS) {
+      const column = mapping[key];
+      raw[key] = column === null ? "" : (cells[column] ?? "").trim();
+    }
+
+    const parsed = clientFormSchema.safeParse({
+      name: raw.name,
+      email: raw.email,
+      mobile_number: raw.mobile_number,
+      status: raw.status.toLowerCase() || defaultStatus,
+      message: raw.message || undefined,
+    });
+
+    if (!parsed.success) {
+      const errors: ImportRow["errors"] = {};
+      for (const issue of parsed.error.issues) {
+        const field = issue.path[0] as ClientImportField;
+        errors[field] ??= field === "status" ? "UNKNOWN_STATUS" : issue.message;
+      }
+      return { line, raw, errors };
+    }
+
+    const values = parsed.data;
+    const errors: ImportRow["errors"] = {};
+    const emailLine = seenEmails.get(values.email);
+    const mobileLine = seenMobiles.get(values.mobile_number);
+    if (emailLine) errors.email = `DUPLICATE_OF_LINE_${emailLine}`;
+    if (mobileLine) errors.mobile_number = `DUPLICATE_OF_LINE_${mobileLine}`;
+    if (emailLine || mobileLine) return { line, raw, errors };
+
+    seenEmails.set(values.email, line);
+    seenMobiles.set(values.mobile_number, line);
+    return { line, raw, values, errors };
+  });
+}
+
+export type ImportOutcome = "created" | "skipped" | "failed";
+
+export type ImportSummaryRow = Record<ClientImportField, string> & {
+  line: number;
+  outcome: ImportOutcome;
+  reason: string;
+};
+
+export const IMPORT_SUMMARY_COLUMNS: ExportColumn[] = [
+  { key: "line", label: "LINE" },
+  { key: "outcome", label: "OUTCOME" },
+  { key: "reason", label: "REASON" },
+  ...CLIENT_IMPORT_FIELDS.map(({ key, label }) => ({ key, label })),
+];
+
+/**
+ * One summary row per file line, in file order. Invalid rows are "skipped",
+ * as are rows the backend rejected as already registered (409); any other
+ * submission error is "failed".
+ */
+export function summarizeImport(
+  rows: ImportRow[],
+  result: BulkResult<ImportRow>
+): ImportSummaryRow[] {
+  const created = new Set(result.succeeded);
+  const failures = new Map(result.failed.map((f) => [f.item, f.error]));
+
+  return rows.map((row) => {
+    const base = { ...row.raw, line: row.line };
+    if (!row.values) {
+      const reason = Object.entries(row.errors)
+        .map(([field, message]) => `${field}: ${message}`)
+        .join("; ");
+      return { ...base, outcome: "skipped", reason };
+    }
+    if (created.has(row)) return { ...base, outcome: "created", reason: "" };
+
+    const error = failures.get(row);
+    if (
+      isApiError(error) &&
+      (error.status === 409 || error.code === "CONFLICT")
+    ) {
+      return { ...base, outcome: "skipped", reason: "ALREADY_REGISTERED" };
+    }
+    return {
+      ...base,
+      outcome: "failed",
+      reason: failures.has(row)
+        ? (error as Error)?.message || String(error)
+        : "NOT_SUBMITTED",
+    };
+  });
+}
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { allowedStatusTransitions, isReopen } from "@/lib/client-status";
+import { can, type Role } from "@/lib/permissions";
+
+const as = (role: Role) => (permission: Parameters<typeof can>[1]) =>
+  can({ role }, permission);
+
+describe("allowedStatusTransitions", () => {
+  it("follows new → active → closed", () => {
+    assert.deepEqual(allowedStatusTransitions("new", as("user")), ["active"]);
+    assert.deepEqual(allowedStatusTransitions("active", as("user")), [
+      "closed",
+    ]);
+  });
+
+  it("reserves reopening for admins", () => {
+    assert.deepEqual(allowedStatusTransitions("closed", as("manager")), []);
+    assert.deepEqual(allowedStatusTransitions("closed", as("admin")), [
+      "active",
+    ]);
+  });
+
+  it("allows nothing without clients:write or for unknown statuses", () => {
+    assert.deepEqual(allowedStatusTransitions("new", as("viewer")), []);
+    assert.deepEqual(allowedStatusTransitions("lost", as("admin")), []);
+  });
+});
+
+describe("isReopen", () => {
+  it("is only closed → active", () => {
+    assert.equal(isReopen("closed", "active"), true);
+    assert.equal(isReopen("new", "active"), false);
+  });
+});
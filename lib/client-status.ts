@@ -0,0 +1,26 @@
+import type { ClientStatus } from "@/lib/client-filters";
+import type { Permission } from "@/lib/permissions";
+
+// Lifecycle of a lead: new → active → closed. Reopening a closed client puts
+// it back to active and is reserved for `clients:reopen` (admins).
+const TRANSITIONS: Record<ClientStatus, readonly ClientStatus[]> = {
+  new: ["active"],
+  active: ["closed"],
+  closed: ["active"],
+};
+
+type PermissionCheck = (permission: Permission) => boolean;
+
+export function isReopen(from: string, to: string) {
+  return from === "closed" && to === "active";
+}
+
+/** Statuses the current user may move a client to from `from`. */
+export function allowedStatusTransitions(
+  from: string,
+  can: PermissionCheck
+): ClientStatus[] {
+  if (!can("clients:write")) return [];
+  const targets = TRANSITIONS[from as ClientStatus] ?? [];
+  return targets.filter((to) => !isReopen(from, to) || can("clients:reopen"));
+}
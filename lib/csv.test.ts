@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseCsv } from "@/lib/csv";
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    assert.deepEqual(parseCsv("a,b\n1,2"), [
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("handles quotes, doubled quotes, commas and line breaks", () => {
+    assert.deepEqual(parseCsv('"x, y","say ""hi""","two\nlines"'), [
+      ["x, y", 'say "hi"', "two\nlines"],
+    ]);
+  });
+
+  it("accepts CRLF and drops a BOM and blank lines", () => {
+    assert.deepEqual(parseCsv("\uFEFFa,b\r\n\r\n1,2\r\n"), [
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("keeps empty fields", () => {
+    assert.deepEqual(parseCsv("a,,c"), [["a", "", "c"]]);
+  });
+});
@@ -0,0 +1,95 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from "react";
+import { callApi, endpoints } from "@/lib/api";
+import { isAbortError } from "@/lib/apiClient";
+import type { CurrentUser } from "@/lib/schemas";
+import {
+  normalizeRole,
+  permissionsFor,
+  type Permission,
+  type Role,
+} from "@/lib/permissions";
+
+type CurrentUserContextType = {
+  user: CurrentUser | null;
+  role: Role | null;
+  permissions: Set<Permission>;
+  loading: boolean;
+  error: string | null;
+  can: (permission: Permission) => boolean;
+  refresh: () => Promise<void>;
+};
+
+const CurrentUserContext = createContext<CurrentUserContextType | undefined>(
+  undefined
+);
+
+type CurrentUserProviderProps = {
+  children: ReactNode;
+};
+
+export const CurrentUserProvider = ({ children }: CurrentUserProviderProps) => {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (signal?: AbortSignal) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await callApi(endpoints.auth.me, undefined, { signal });
+      setUser(data.user);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      setUser(null);
+      setError(err?.message || "Failed to load current user");
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    load(controller.signal);
+    return () => controller.abort();
+  }, [load]);
+
+  const value = useMemo<CurrentUserContextType>(() => {
+    const permissions = permissionsFor(user);
+    return {
+      user,
+      role: normalizeRole(user?.role),
+      permissions,
+      loading,
+      error,
+      can: (permission) => permissions.has(permission),
+      refresh: () => load(),
+    };
+  }, [user, loading, error, load]);
+
+  return (
+    <CurrentUserContext.Provider value={value}>
+      {children}
+    </CurrentUserContext.Provider>
+  );
+};
+
+export const useCurrentUser = (): CurrentUserContextType => {
+  const context = useContext(CurrentUserContext);
+  if (context === undefined) {
+    throw new Error("useCurrentUser must be used within a CurrentUserProvider");
+  }
+  return context;
+};
+
+export const usePermission = (permission: Permission): boolean =>
+  useCurrentUser().can(permission);
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffRecords, diffSequences, diffWords, sideBySide } from "@/lib/diff";
+
+describe("diffSequences", () => {
+  it("keeps the common subsequence and marks the rest", () => {
+    assert.deepEqual(diffSequences(["a", "b", "c"], ["a", "x", "c"]), [
+      { op: "equal", value: "a" },
+      { op: "removed", value: "b" },
+      { op: "added", value: "x" },
+      { op: "equal", value: "c" },
+    ]);
+  });
+
+  it("handles empty sides", () => {
+    assert.deepEqual(diffSequences([], ["a"]), [{ op: "added", value: "a" }]);
+    assert.deepEqual(diffSequences(["a"], []), [{ op: "removed", value: "a" }]);
+  });
+});
+
+describe("diffWords", () => {
+  it("diffs word by word", () => {
+    const changed = diffWords("hello old world", "hello new world").filter(
+      (p) => p.op !== "equal"
+    );
+    assert.deepEqual(changed, [
+      { op: "removed", value: "old" },
+      { op: "added", value: "new" },
+    ]);
+  });
+});
+
+describe("sideBySide", () => {
+  it("pairs replaced lines and numbers each side", () => {
+    assert.deepEqual(sideBySide("a\nb\nc", "a\nB\nc\nd"), [
+      {
+        op: "equal",
+        left: { number: 1, text: "a" },
+        right: { number: 1, text: "a" },
+      },
+      {
+        op: "changed",
+        left: { number: 2, text: "b" },
+        right: { number: 2, text: "B" },
+      },
+      {
+        op: "equal",
+        left: { number: 3, text: "c" },
+        right: { number: 3, text: "c" },
+      },
+      { op: "added", left: undefined, right: { number: 4, text: "d" } },
+    ]);
+  });
+});
+
+describe("diffRecords", () => {
+  it("reports every key sorted", () => {
+    assert.deepEqual(
+      diffRecords({ a: "1", b: "2", c: "3" }, { b: "2", c: "4", d: "5" }).map(
+        (c) => [c.key, c.op]
+      ),
+      [
+        ["a", "removed"],
+        ["b", "equal"],
+        ["c", "changed"],
+        ["d", "added"],
+      ]
+    );
+  });
+});
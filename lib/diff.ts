@@ -0,0 +1,163 @@
+export type DiffOp = "equal" | "removed" | "added";
+
+export type DiffPart<T> = { op: DiffOp; value: T };
+
+/**
+ * Longest-common-subsequence diff of two sequences, in order. Quadratic in
+ * the part between the common prefix and suffix, which is plenty for
+ * template-sized text.
+ */
+export function diffSequences<T>(before: T[], after: T[]): DiffPart<T>[] {
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start++;
+  }
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (
+    endBefore > start &&
+    endAfter > start &&
+    before[endBefore - 1] === after[endAfter - 1]
+  ) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  // lcs[i][j]: length of the common subsequence of a[i..] and b[j..].
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart<T>[] = before
+    .slice(0, start)
+    .map((value) => ({ op: "equal", value }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ op: "equal", value: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      parts.push({ op: "removed", value: a[i++] });
+    } else {
+      parts.push({ op: "added", value: b[j++] });
+    }
+  }
+  while (i < a.length) parts.push({ op: "removed", value: a[i++] });
+  while (j < b.length) parts.push({ op: "added", value: b[j++] });
+  for (const value of before.slice(endBefore)) {
+    parts.push({ op: "equal", value });
+  }
+  return parts;
+}
+
+/** Word-level diff; whitespace runs are tokens of their own. */
+export function diffWords(before: string, after: string) {
+  const tokens = (text: string) => text.split(/(\s+)/).filter(Boolean);
+  return diffSequences(tokens(before), tokens(after));
+}
+
+export type DiffLine = {
+  /** 1-based, in its own side of the diff. */
+  number: number;
+  text: string;
+};
+
+export type SideBySideRow = {
+  /** "changed" pairs a removed line with the added line that replaced it. */
+  op: DiffOp | "changed";
+  left?: DiffLine;
+  right?: DiffLine;
+};
+
+/**
+ * Line diff laid out for two columns. Within each run of edits, removed
+ * and added lines are paired up row by row; the rest stand alone.
+ */
+export function sideBySide(before: string, after: string): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  let left = 0;
+  let right = 0;
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const l = removed[k];
+      const r = added[k];
+      rows.push({
+        op: l && r ? "changed" : l ? "removed" : "added",
+        left: l,
+        right: r,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const part of diffSequences(before.split("\n"), after.split("\n"))) {
+    if (part.op === "removed") {
+      removed.push({ number: ++left, text: part.value });
+    } else if (part.op === "added") {
+      added.push({ number: ++right, text: part.value });
+    } else {
+      flush();
+      rows.push({
+        op: "equal",
+        left: { number: ++left, text: part.value },
+        right: { number: ++right, text: part.value },
+      });
+    }
+  }
+  flush();
+  return rows;
+}
+
+export type RecordChange = {
+  key: string;
+  op: DiffOp | "changed";
+  before?: string;
+  after?: string;
+};
+
+/** Every key of either record, sorted, with how its value changed. */
+export function diffRecords(
+  before: Record<string, string>,
+  after: Record<string, string>
+): RecordChange[] {
+  const keys = Array.from(
+    new Set([...Object.keys(before), ...Object.keys(after)])
+  ).sort();
+  return keys.map((key) => {
+    const had = Object.prototype.hasOwnProperty.call(before, key);
+    const has = Object.prototype.hasOwnProperty.call(after, key);
+    const op = !had
+      ? "added"
+      : !has
+      ? "removed"
+      : before[key] === after[key]
+      ? "equal"
+      : "changed";
+    return {
+      key,
+      op,
+      before: had ? before[key] : undefined,
+      after: has ? after[key] : undefined,
+    };
+  });
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseCsv } from "@/lib/csv";
+import { flattenRecord, toCsv } from "@/lib/export";
+
+const csvCell = (value: unknown) =>
+  toCsv([{ value }], [{ key: "value", label: "V" }]).split("\r\n")[1];
+
+describe("toCsv", () => {
+  it("escapes formula starts", () => {
+    assert.equal(csvCell("=SUM(A1)"), "'=SUM(A1)");
+    assert.equal(csvCell("@cmd"), "'@cmd");
+    assert.equal(csvCell("+1+cmd|x"), "'+1+cmd|x");
+  });
+
+  it("leaves phone numbers and negative numbers alone", () => {
+    assert.equal(csvCell("+919876543210"), "+919876543210");
+    assert.equal(csvCell("+1 (555) 010-9999"), "+1 (555) 010-9999");
+    assert.equal(csvCell(-5), "-5");
+  });
+
+  it("quotes commas, quotes and line breaks", () => {
+    assert.equal(csvCell('a,"b"'), '"a,""b"""');
+    assert.equal(csvCell("x\ny"), '"x\ny"');
+  });
+
+  it("expands object columns into one column per path", () => {
+    const csv = toCsv(
+      [{ meta: { b: 2, a: 1 } }, { meta: { c: 3 } }],
+      [{ key: "meta", label: "META" }]
+    );
+    assert.deepEqual(parseCsv(csv), [
+      ["META.a", "META.b", "META.c"],
+      ["1", "2", ""],
+      ["", "", "3"],
+    ]);
+  });
+});
+
+describe("flattenRecord", () => {
+  it("joins nested keys with dots and keeps arrays whole", () => {
+    assert.deepEqual(flattenRecord({ a: { b: 1 }, c: [1, 2] }), {
+      "a.b": 1,
+      c: [1, 2],
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import type { Workspace, WorkspaceUser } from "@/lib/schemas";
+import { buildXlsx } from "@/lib/xlsx";
+
+export type ExportFormat = "csv" | "xlsx";
+
+/**
+ * A pickable column. `key` is a dot path into the record; when it points at
+ * an object (e.g. `meta.variable_map`) the column expands into one column per
+ * nested key, named by its full path.
+ */
+export type ExportColumn = {
+  key: string;
+  label: string;
+  /** Picked by default in the export dialog. */
+  default?: boolean;
+};
+
+type FlatColumn = { key: string; label: string };
+
+export const CLIENT_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "_id", label: "ID" },
+  { key: "name", label: "NAME", default: true },
+  { key: "email", label: "EMAIL", default: true },
+  { key: "mobile_number", label: "MOBILE", default: true },
+  { key: "status", label: "STATUS", default: true },
+  { key: "message", label: "MESSAGE" },
+  { key: "meta.login_session.from_route", label: "FROM_ROUTE", default: true },
+  {
+    key: "meta.login_session.location.country",
+    label: "COUNTRY",
+    default: true,
+  },
+  { key: "meta.login_session.location.region", label: "REGION" },
+  { key: "meta.login_session.location.city", label: "CITY" },
+  { key: "meta.login_session.location.ip", label: "IP" },
+  { key: "meta.login_session.submitted_at", label: "SUBMITTED_AT" },
+  { key: "meta.ray_id", label: "RAY_ID" },
+  { key: "createdAt", label: "CREATED_AT", default: true },
+  { key: "updatedAt", label: "UPDATED_AT" },
+];
+
+export const CAMPAIGN_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "_id", label: "ID" },
+  { key: "title", label: "TITLE", default: true },
+  { key: "type", label: "TYPE", default: true },
+  { key: "message", label: "MESSAGE", default: true },
+  { key: "meta.is_active", label: "ACTIVE", default: true },
+  { key: "meta.variable_map", label: "VARIABLES" },
+  { key: "attachments", label: "ATTACHMENTS" },
+  { key: "property_id", label: "WORKSPACE_ID" },
+  { key: "meta.ray_id", label: "RAY_ID" },
+  { key: "createdAt", label: "CREATED_AT", default: true },
+  { key: "updatedAt", label: "UPDATED_AT" },
+];
+
+export const ADDON_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "_id", label: "ID" },
+  { key: "title", label: "TITLE", default: true },
+  { key: "description", label: "DESCRIPTION", default: true },
+  { key: "value", label: "VALUE", default: true },
+  { key: "status", label: "STATUS", default: true },
+  { key: "property_id", label: "WORKSPACE_ID" },
+  { key: "createdAt", label: "CREATED_AT", default: true },
+  { key: "updatedAt", label: "UPDATED_AT" },
+];
+
+/** One row per user, with the workspace it belongs to. */
+export type UserExportRow = WorkspaceUser & {
+  workspace: Pick<Workspace, "property_id" | "property_name">;
+};
+
+export const USER_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "user_id", label: "USER_ID" },
+  { key: "name", label: "NAME", default: true },
+  { key: "email", label: "EMAIL", default: true },
+  { key: "phone_number", label: "PHONE", default: true },
+  { key: "role", label: "ROLE", default: true },
+  { key: "workspace.property_name", label: "WORKSPACE", default: true },
+  { key: "workspace.property_id", label: "WORKSPACE_ID" },
+];
+
+export function workspaceUserRows(workspaces: Workspace[]): UserExportRow[] {
+  return workspaces.flatMap(({ property_id, property_name, users }) =>
+    users.map((user) => ({
+      ...user,
+      workspace: { property_id, property_name },
+    }))
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function getPath(record: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) => (isPlainObject(value) ? value[key] : undefined),
+      record
+    );
+}
+
+/** `{ a: { b: 1 } }` → `{ "a.b": 1 }`; arrays and scalars are leaves. */
+export function flattenRecord(
+  value: unknown,
+  prefix = ""
+): Record<string, unknown> {
+  if (!isPlainObject(value)) return prefix ? { [prefix]: value } : {};
+  const flat: Record<string, unknown> = {};
+  for (const [key, inner] of Object.entries(value)) {
+    Object.assign(
+      flat,
+      flattenRecord(inner, prefix ? `${prefix}.${key}` : key)
+    );
+  }
+  return flat;
+}
+
+// Picked columns whose values are objects become one column per nested path
+// seen in any row, so e.g. every `meta.variable_map.*` key gets a column.
+function expandColumns(
+  rows: readonly object[],
+  columns: ExportColumn[]
+): FlatColumn[] {
+  return columns.flatMap((column) => {
+    const paths = new Set<string>();
+    for (const row of rows) {
+      const value = getPath(row, column.key);
+      if (!isPlainObject(value)) continue;
+      Object.keys(flattenRecord(value, column.key)).forEach((p) =>
+        paths.add(p)
+      );
+    }
+    if (paths.size === 0) return [column];
+    return Array.from(paths)
+      .sort()
+      .map((key) => ({
+        key,
+        label: `${column.label}.${key.slice(column.key.length + 1)}`,
+      }));
+  });
+}
+
+function cellValue(value: unknown) {
+  if (Array.isArray(value)) {
+    return value
+      .map((v) => (typeof v === "object" && v !== null ? JSON.stringify(v) : v))
+      .join("; ");
+  }
+  if (isPlainObject(value)) return JSON.stringify(value);
+  return value;
+}
+
+function toTable(rows: readonly object[], columns: ExportColumn[]) {
+  const flat = expandColumns(rows, columns);
+  return [
+    flat.map((c) => c.label),
+    ...rows.map((row) => flat.map((c) => cellValue(getPath(row, c.key)))),
+  ];
+}
+
+// Numbers and phone numbers (`+91 98...`, `-5`) start like formulas but
+// can't run anything, and a `'` would stick to them in Excel and fail the
+// import's phone check.
+const NUMERIC_CELL = /^[+-]?[\d\s().-]+$/;
+
+function formatCsvCell(value: unknown) {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  // Spreadsheet apps execute cells starting with these as formulas.
+  const safe =
+    /^[=+\-@\t\r]/.test(text) && !NUMERIC_CELL.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(rows: readonly object[], columns: ExportColumn[]) {
+  return toTable(rows, columns)
+    .map((row) => row.map(formatCsvCell).join(","))
+    .join("\r\n");
+}
+
+export function downloadFile(filename: string, content: Blob) {
+  const url = URL.createObjectURL(content);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function exportFilename(resource: string, extension: string) {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return `${resource}-${stamp}.${extension}`;
+}
+
+export function downloadExport(
+  resource: string,
+  rows: readonly object[],
+  columns: ExportColumn[],
+  format: ExportFormat = "csv"
+) {
+  if (format === "xlsx") {
+    downloadFile(
+      exportFilename(resource, "xlsx"),
+      buildXlsx(resource, toTable(rows, columns))
+    );
+    return;
+  }
+  // BOM so Excel opens UTF-8 names correctly.
+  downloadFile(
+    exportFilename(resource, "csv"),
+    new Blob([`\uFEFF${toCsv(rows, columns)}`], {
+      type: "text/csv;charset=utf-8",
+    })
+  );
+}
+
+export type ExportPage<T> = {
+  items: T[];
+  totalPages: number;
+  totalItems?: number;
+};
+
+/**
+ * Walks a paginated endpoint from page 1, yielding each page as it arrives,
+ * until `totalPages` is reached or a page comes back empty.
+ */
+export async function* walkPages<T>(
+  fetchPage: (page: number, signal?: AbortSignal) => Promise<ExportPage<T>>,
+  signal?: AbortSignal
+): AsyncGenerator<ExportPage<T> & { page: number }> {
+  for (let page = 1; ; page++) {
+    const result = await fetchPage(page, signal);
+    yield { ...result, page };
+    if (result.items.length === 0 || page >= result.totalPages) return;
+  }
+}
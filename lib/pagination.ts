@@ -0,0 +1,43 @@
+export const MAX_LIMIT = 100;
+
+export function parsePageParam(value: string | null | undefined) {
+  const n = Number(value ?? 1);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 1;
+}
+
+export function parseLimitParam(
+  value: string | null | undefined,
+  fallback: number
+) {
+  const n = Number(value ?? fallback);
+  return Number.isFinite(n) && n > 0 && n <= MAX_LIMIT
+    ? Math.floor(n)
+    : fallback;
+}
+
+/**
+ * Page numbers to render around `currentPage`, always `size` wide when there
+ * are enough pages so the control doesn't jump around near the edges.
+ */
+export function getPageWindow(
+  currentPage: number,
+  totalPages: number,
+  size = 5
+) {
+  const half = Math.floor(size / 2);
+  let start = Math.max(1, currentPage - half);
+  const end = Math.min(totalPages, start + size - 1);
+  start = Math.max(1, Math.min(start, end - size + 1));
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+}
+
+export function withPageParams(
+  current: URLSearchParams | string,
+  page: number,
+  limit: number
+) {
+  const params = new URLSearchParams(current);
+  params.set("page", String(page));
+  params.set("limit", String(limit));
+  return `?${params.toString()}`;
+}
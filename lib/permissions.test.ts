@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  PERMISSIONS,
+  can,
+  normalizeRole,
+  permissionsFor,
+} from "@/lib/permissions";
+
+describe("normalizeRole", () => {
+  it("accepts known roles regardless of case and padding", () => {
+    assert.equal(normalizeRole("admin"), "admin");
+    assert.equal(normalizeRole("  Manager "), "manager");
+  });
+
+  it("rejects unknown or missing roles", () => {
+    assert.equal(normalizeRole("owner"), null);
+    assert.equal(normalizeRole(""), null);
+    assert.equal(normalizeRole(null), null);
+    assert.equal(normalizeRole(undefined), null);
+  });
+});
+
+describe("permissionsFor", () => {
+  it("gives admins every permission", () => {
+    assert.deepEqual(permissionsFor({ role: "admin" }), new Set(PERMISSIONS));
+  });
+
+  it("keeps user management, reopening and merging away from managers", () => {
+    const granted = permissionsFor({ role: "manager" });
+    assert.equal(granted.has("users:manage"), false);
+    assert.equal(granted.has("clients:reopen"), false);
+    assert.equal(granted.has("clients:merge"), false);
+    assert.equal(granted.has("campaigns:delete"), true);
+  });
+
+  it("limits viewers to read permissions", () => {
+    for (const permission of permissionsFor({ role: "viewer" })) {
+      assert.match(permission, /:read$/);
+    }
+  });
+
+  it("gives unknown roles and missing subjects nothing", () => {
+    assert.equal(permissionsFor({ role: "owner" }).size, 0);
+    assert.equal(permissionsFor(null).size, 0);
+    assert.equal(permissionsFor(undefined).size, 0);
+  });
+
+  it("prefers an explicit list over the role and drops unknown entries", () => {
+    assert.deepEqual(
+      permissionsFor({
+        role: "admin",
+        permissions: ["clients:read", "clients:explode"],
+      }),
+      new Set(["clients:read"])
+    );
+  });
+
+  it("treats an empty explicit list as no permissions", () => {
+    assert.equal(permissionsFor({ role: "admin", permissions: [] }).size, 0);
+  });
+});
+
+describe("can", () => {
+  it("checks a single permission for a role", () => {
+    assert.equal(can({ role: "user" }, "campaigns:write"), true);
+    assert.equal(can({ role: "user" }, "campaigns:send"), false);
+    assert.equal(can({ role: "user" }, "users:read"), false);
+  });
+
+  it("denies everything without a subject", () => {
+    assert.equal(can(null, "clients:read"), false);
+  });
+});
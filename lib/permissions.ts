@@ -0,0 +1,75 @@
+export const ROLES = ["admin", "manager", "user", "viewer"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  "workspaces:read",
+  "clients:read",
+  "clients:write",
+  "clients:delete",
+  "clients:reopen",
+  // Merging deletes every record but the survivor; admins only.
+  "clients:merge",
+  "addons:read",
+  "addons:write",
+  "campaigns:read",
+  "campaigns:write",
+  "campaigns:delete",
+  "campaigns:send",
+  "users:read",
+  "users:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const READ_ONLY: Permission[] = PERMISSIONS.filter((p) => p.endsWith(":read"));
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  manager: PERMISSIONS.filter(
+    (p) =>
+      p !== "users:manage" && p !== "clients:reopen" && p !== "clients:merge"
+  ),
+  user: [
+    ...READ_ONLY.filter((p) => p !== "users:read"),
+    "clients:write",
+    "campaigns:write",
+  ],
+  viewer: READ_ONLY,
+};
+
+export type PermissionSubject = {
+  role: string;
+  permissions?: readonly string[];
+};
+
+// Unknown roles get no permissions rather than falling back to something
+// more generous.
+export function normalizeRole(role: string | null | undefined): Role | null {
+  const value = role?.trim().toLowerCase();
+  return ROLES.find((r) => r === value) ?? null;
+}
+
+/**
+ * Effective permissions for a user. An explicit `permissions` list from the
+ * backend wins over the role defaults.
+ */
+export function permissionsFor(subject: PermissionSubject | null | undefined) {
+  if (!subject) return new Set<Permission>();
+  if (subject.permissions) {
+    return new Set(
+      subject.permissions.filter((p): p is Permission =>
+        (PERMISSIONS as readonly string[]).includes(p)
+      )
+    );
+  }
+  const role = normalizeRole(subject.role);
+  return new Set(role ? ROLE_PERMISSIONS[role] : []);
+}
+
+export function can(
+  subject: PermissionSubject | null | undefined,
+  permission: Permission
+) {
+  return permissionsFor(subject).has(permission);
+}
@@ -0,0 +1,235 @@
+import { isAbortError } from "@/lib/apiClient";
+
+// Minimal client-side query cache: one entry per key, shared in-flight
+// requests, stale-while-revalidate reads and prefix-based invalidation.
+// Keys look like `/api/addons/fetch?{"limit":12,"page":1}` so invalidating
+// `/api/addons/fetch` hits every cached page of that list.
+
+export type QueryState<T = unknown> = {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+  isStale: boolean;
+};
+
+type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+type CacheEntry = {
+  state: QueryState;
+  fetcher?: Fetcher<unknown>;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+};
+
+// Entries nobody is subscribed to are dropped after this long.
+const GC_TIME = 5 * 60_000;
+
+const EMPTY_STATE: QueryState = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  isStale: true,
+};
+
+const cache = new Map<string, CacheEntry>();
+
+// Prefixes invalidated while a `batchInvalidations` call is running.
+let batchDepth = 0;
+const pendingInvalidations = new Set<string>();
+
+function stableStringify(value: unknown): string {
+  if (value === undefined) return "";
+  return JSON.stringify(value, (_, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v)
+            .filter(([, inner]) => inner !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b))
+        )
+      : v
+  );
+}
+
+export function buildQueryKey(base: string, input?: unknown) {
+  const params = stableStringify(input);
+  return params ? `${base}?${params}` : base;
+}
+
+function getEntry(key: string) {
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = { state: EMPTY_STATE, listeners: new Set() };
+    cache.set(key, entry);
+  }
+  return entry;
+}
+
+function setState(entry: CacheEntry, patch: Partial<QueryState>) {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+}
+
+function scheduleGc(key: string, entry: CacheEntry) {
+  clearTimeout(entry.gcTimer);
+  entry.gcTimer = setTimeout(() => {
+    if (entry.listeners.size === 0 && !entry.promise) cache.delete(key);
+  }, GC_TIME);
+}
+
+export function getQueryState<T>(key: string): QueryState<T> {
+  return (cache.get(key)?.state ?? EMPTY_STATE) as QueryState<T>;
+}
+
+export function getQueryData<T>(key: string): T | undefined {
+  return getQueryState<T>(key).data;
+}
+
+export function subscribeQuery(key: string, listener: () => void) {
+  const entry = getEntry(key);
+  clearTimeout(entry.gcTimer);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) scheduleGc(key, entry);
+  };
+}
+
+/**
+ * Starts a request for `key` unless one is already in flight, in which case
+ * that promise is shared. Results land in the cache and notify subscribers.
+ */
+export function fetchQuery<T>(key: string, fetcher: Fetcher<T>): Promise<T> {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher as Fetcher<unknown>;
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  const controller = new AbortController();
+  const promise: Promise<T> = fetcher(controller.signal).then(
+    (data) => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+        setState(entry, {
+          data,
+          error: null,
+          updatedAt: Date.now(),
+          isFetching: false,
+          isStale: false,
+        });
+      }
+      return data;
+    },
+    (error) => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+        setState(entry, {
+          error: isAbortError(error) ? entry.state.error : error,
+          isFetching: false,
+        });
+      }
+      throw error;
+    }
+  );
+
+  entry.promise = promise;
+  entry.controller = controller;
+  if (!cache.has(key)) cache.set(key, entry);
+  setState(entry, { isFetching: true });
+  if (entry.listeners.size === 0) scheduleGc(key, entry);
+  return promise;
+}
+
+export function setQueryData<T>(
+  key: string,
+  updater: T | ((previous: T | undefined) => T)
+) {
+  const entry = getEntry(key);
+  const data =
+    typeof updater === "function"
+      ? (updater as (previous: T | undefined) => T)(entry.state.data as T)
+      : updater;
+  setState(entry, { data, updatedAt: Date.now() });
+  if (entry.listeners.size === 0) scheduleGc(key, entry);
+}
+
+/**
+ * Applies `updater` to the cached data right away and runs `mutation`; if the
+ * mutation throws, the previous data is put back before rethrowing.
+ */
+export async function mutateOptimistic<T, R>(
+  key: string,
+  updater: (previous: T | undefined) => T,
+  mutation: () => Promise<R>
+): Promise<R> {
+  const previous = getQueryData<T>(key);
+  setQueryData(key, updater);
+  try {
+    return await mutation();
+  } catch (err) {
+    setQueryData(key, previous);
+    throw err;
+  }
+}
+
+/**
+ * Marks every entry under `prefix` stale. Entries something is subscribed to
+ * are refetched right away; the rest are left for `useApiQuery` to
+ * revalidate when they mount again, so a mutation doesn't re-download every
+ * page seen in the last few minutes. Requests already in flight are
+ * superseded.
+ */
+export function invalidateQueries(prefix: string) {
+  if (batchDepth > 0) {
+    pendingInvalidations.add(prefix);
+    return;
+  }
+
+  for (const [key, entry] of Array.from(cache.entries())) {
+    if (key !== prefix && !key.startsWith(`${prefix}?`)) continue;
+
+    abortEntry(entry);
+    setState(entry, { isStale: true, isFetching: false });
+
+    if (entry.fetcher && entry.listeners.size > 0) {
+      fetchQuery(key, entry.fetcher).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Aborts the request in flight for `key` once nothing is subscribed to it
+ * anymore, e.g. after moving to another page or unmounting. The entry is
+ * left stale so the next subscriber fetches it again.
+ */
+export function cancelQuery(key: string) {
+  const entry = cache.get(key);
+  if (!entry?.promise || entry.listeners.size > 0) return;
+  abortEntry(entry);
+  setState(entry, { isStale: true, isFetching: false });
+}
+
+function abortEntry(entry: CacheEntry) {
+  if (!entry.promise) return;
+  entry.controller?.abort();
+  entry.promise = undefined;
+}
+
+/**
+ * Holds back invalidations until `run` settles and then applies each prefix
+ * once, so a burst of mutations refetches the affected lists a single time.
+ */
+export async function batchInvalidations<T>(run: () => Promise<T>) {
+  batchDepth++;
+  try {
+    return await run();
+  } finally {
+    if (--batchDepth === 0) {
+      const prefixes = Array.from(pendingInvalidations);
+      pendingInvalidations.clear();
+      prefixes.forEach(invalidateQueries);
+    }
+  }
+}
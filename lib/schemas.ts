@@ -0,0 +1,408 @@
+import { z } from "zod";
+import { MAX_ATTACHMENTS, isHttpUrl } from "@/lib/campaign-attachments";
+import {
+  EMAIL_CONTENT_TYPES,
+  EMAIL_SUBJECT_MAX,
+  NOTIFICATION_BODY_MAX,
+  NOTIFICATION_TITLE_MAX,
+  SMS_MAX_SEGMENTS,
+  measurableText,
+  smsStats,
+} from "@/lib/campaign-channels";
+import { CAMPAIGN_TYPES, VARIABLE_NAME_PATTERN } from "@/lib/campaign-template";
+import { CLIENT_STATUSES } from "@/lib/client-filters";
+
+// Shapes returned by the backend. Every response is wrapped in the same
+// `{ message, status, data }` envelope; only `data` differs per endpoint.
+
+export const paginationSchema = z.object({
+  totalItems: z.number(),
+  totalPages: z.number(),
+  currentPage: z.number(),
+  limit: z.number(),
+  hasNextPage: z.boolean(),
+  hasPrevPage: z.boolean(),
+});
+
+export type Pagination = z.infer<typeof paginationSchema>;
+
+export const clientStatusChangeSchema = z.object({
+  from: z.string().nullish(),
+  to: z.string(),
+  changed_at: z.string(),
+  changed_by: z.string().optional(),
+  note: z.string().optional(),
+});
+
+export type ClientStatusChange = z.infer<typeof clientStatusChangeSchema>;
+
+export const loginSessionSchema = z.object({
+  from_route: z.string().optional(),
+  submitted_at: z.string().optional(),
+  location: z
+    .object({
+      country: z.string().optional(),
+      region: z.string().optional(),
+      city: z.string().optional(),
+      ip: z.string().optional(),
+    })
+    .optional(),
+});
+
+export type LoginSession = z.infer<typeof loginSessionSchema>;
+
+// Sessions carried over from records merged into this one, with the record
+// they came from so the trail survives the source being deleted.
+export const mergedLoginSessionSchema = loginSessionSchema.extend({
+  ray_id: z.string().optional(),
+  source_client_id: z.string(),
+});
+
+export type MergedLoginSession = z.infer<typeof mergedLoginSessionSchema>;
+
+export const clientSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  mobile_number: z.string(),
+  email: z.string(),
+  message: z.string().optional(),
+  status: z.string(),
+  meta: z
+    .object({
+      ray_id: z.string().optional(),
+      login_session: loginSessionSchema.optional(),
+      login_session_history: z.array(mergedLoginSessionSchema).optional(),
+    })
+    .optional(),
+  status_history: z.array(clientStatusChangeSchema).optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Client = z.infer<typeof clientSchema>;
+
+// What may be typed: digits with an optional leading "+", plus spaces, "-",
+// "(", ")" and "." as separators. Those are stripped below, and what's left
+// must be 7 to 15 digits (E.164 allows at most 15).
+const PHONE_PATTERN = /^\+?[\d\s\-().]+$/;
+
+// What the create/edit forms send. Formatting characters are stripped from
+// the mobile number so the backend's duplicate check sees one canonical form.
+export const clientFormSchema = z.object({
+  name: z.string().trim().min(2, "NAME_TOO_SHORT").max(120, "NAME_TOO_LONG"),
+  mobile_number: z
+    .string()
+    .trim()
+    .regex(PHONE_PATTERN, "INVALID_PHONE_NUMBER")
+    .transform((value) => value.replace(/[^\d+]/g, ""))
+    .refine(
+      (value) => /^\+?\d{7,15}$/.test(value),
+      "PHONE_NUMBER_MUST_HAVE_7_TO_15_DIGITS"
+    ),
+  email: z.string().trim().toLowerCase().email("INVALID_EMAIL_ADDRESS"),
+  message: z.string().trim().max(1000, "MESSAGE_TOO_LONG").optional(),
+  status: z.enum(CLIENT_STATUSES),
+});
+
+export type ClientFormInput = z.input<typeof clientFormSchema>;
+export type ClientFormValues = z.output<typeof clientFormSchema>;
+
+export const campaignAttachmentSchema = z.object({
+  name: z.string(),
+  mime: z.string(),
+  /** Bytes. */
+  size: z.number(),
+  // Left loose so one legacy URL can't fail a whole campaign response;
+  // rendering checks it, and uploads and saves only accept http(s).
+  url: z.string(),
+});
+
+export type CampaignAttachment = z.infer<typeof campaignAttachmentSchema>;
+
+// What the upload endpoint returns: only http(s) URLs are accepted.
+export const uploadedAttachmentSchema = campaignAttachmentSchema.extend({
+  url: z.string().refine(isHttpUrl, "INVALID_ATTACHMENT_URL"),
+});
+
+export const campaignSchema = z.object({
+  _id: z.string(),
+  type: z.string(),
+  title: z.string(),
+  message: z.string(),
+  attachments: z.array(campaignAttachmentSchema).default([]),
+  property_id: z.string(),
+  meta: z
+    .object({
+      ray_id: z.string().optional(),
+      variable_map: z.record(z.string()).optional(),
+      is_active: z.boolean().optional(),
+      /** Email subject, or the title of a notification. */
+      subject: z.string().optional(),
+      content_type: z.enum(EMAIL_CONTENT_TYPES).optional(),
+      /** Listed in the shared template library for every workspace. */
+      is_starred: z.boolean().optional(),
+      /** Hidden from the list unless asked for; can't be sent. */
+      is_archived: z.boolean().optional(),
+    })
+    .optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export type Campaign = z.infer<typeof campaignSchema>;
+
+export const campaignDispatchSchema = z.object({
+  _id: z.string(),
+  campaign_id: z.string(),
+  /** e.g. "queued", "scheduled", "sending", "sent". */
+  status: z.string(),
+  recipient_count: z.number(),
+  scheduled_at: z.string().nullish(),
+  timezone: z.string().nullish(),
+  createdAt: z.string().optional(),
+});
+
+export type CampaignDispatch = z.infer<typeof campaignDispatchSchema>;
+
+// A snapshot of the template as saved. The server records one on every
+// create, edit and restore, so the newest version is what is live now.
+export const campaignVersionSchema = z.object({
+  _id: z.string(),
+  campaign_id: z.string(),
+  /** 1 for the first save, counting up. */
+  version: z.number(),
+  type: z.string(),
+  title: z.string(),
+  message: z.string(),
+  attachments: z.array(campaignAttachmentSchema).default([]),
+  meta: campaignSchema.shape.meta,
+  /** When this version went live. */
+  changed_at: z.string(),
+  changed_by: z.string().optional(),
+  note: z.string().optional(),
+  /** The version this one copied, when it was created by a restore. */
+  restored_from: z.number().nullish(),
+});
+
+export type CampaignVersion = z.infer<typeof campaignVersionSchema>;
+
+export const analyticsPointSchema = z.object({
+  /** `yyyy-MM-dd`. */
+  date: z.string(),
+  sent: z.number(),
+  delivered: z.number(),
+  failed: z.number(),
+  opened: z.number(),
+  clicked: z.number(),
+});
+
+export type AnalyticsPoint = z.infer<typeof analyticsPointSchema>;
+
+export const campaignAnalyticsSchema = z.object({
+  campaign_id: z.string(),
+  type: z.string(),
+  property_id: z.string(),
+  /** One point per day, oldest first. */
+  series: z.array(analyticsPointSchema),
+});
+
+export type CampaignAnalytics = z.infer<typeof campaignAnalyticsSchema>;
+
+// The editor works on `variables` as rows and top-level `is_active`,
+// `subject` and `content_type`; `toCampaignPayload` folds them back into
+// `meta` for the API.
+export const campaignFormSchema = z
+  .object({
+    title: z
+      .string()
+      .trim()
+      .min(2, "TITLE_TOO_SHORT")
+      .max(120, "TITLE_TOO_LONG"),
+    type: z.enum(CAMPAIGN_TYPES),
+    property_id: z.string().min(1, "WORKSPACE_REQUIRED"),
+    message: z
+      .string()
+      .trim()
+      .min(1, "MESSAGE_REQUIRED")
+      .max(5000, "MESSAGE_TOO_LONG"),
+    variables: z
+      .array(
+        z.object({
+          name: z
+            .string()
+            .trim()
+            .regex(VARIABLE_NAME_PATTERN, "INVALID_VARIABLE_NAME"),
+          source: z.string().trim().min(1, "SOURCE_REQUIRED"),
+        })
+      )
+      .superRefine((rows, ctx) => {
+        const seen = new Set<string>();
+        rows.forEach((row, i) => {
+          if (seen.has(row.name)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [i, "name"],
+              message: "DUPLICATE_VARIABLE",
+            });
+          }
+          seen.add(row.name);
+        });
+      }),
+    is_active: z.boolean(),
+    subject: z.string().trim().max(EMAIL_SUBJECT_MAX, "SUBJECT_TOO_LONG"),
+    content_type: z.enum(EMAIL_CONTENT_TYPES),
+    attachments: z
+      .array(campaignAttachmentSchema)
+      .max(MAX_ATTACHMENTS, "TOO_MANY_ATTACHMENTS")
+      // Checked on the list so the message shows under the field; a legacy
+      // attachment has to be removed or re-uploaded before saving.
+      .refine(
+        (attachments) => attachments.every((a) => isHttpUrl(a.url)),
+        "INVALID_ATTACHMENT_URL"
+      ),
+    /** Kept on the version this save creates, not on the template. */
+    change_note: z.string().trim().max(280, "NOTE_TOO_LONG"),
+  })
+  .superRefine((values, ctx) => {
+    const issue = (path: string, message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+    switch (values.type) {
+      case "email":
+        if (!values.subject) issue("subject", "SUBJECT_REQUIRED");
+        break;
+      case "notification": {
+        const title = measurableText(values.subject);
+        if (!title) issue("subject", "NOTIFICATION_TITLE_REQUIRED");
+        if (title.length > NOTIFICATION_TITLE_MAX) {
+          issue("subject", "NOTIFICATION_TITLE_TOO_LONG");
+        }
+        if (measurableText(values.message).length > NOTIFICATION_BODY_MAX) {
+          issue("message", "NOTIFICATION_BODY_TOO_LONG");
+        }
+        break;
+      }
+      case "sms": {
+        const { segments } = smsStats(measurableText(values.message));
+        if (segments > SMS_MAX_SEGMENTS) {
+          issue("message", "SMS_TOO_MANY_SEGMENTS");
+        }
+        break;
+      }
+    }
+  });
+
+export type CampaignFormInput = z.input<typeof campaignFormSchema>;
+export type CampaignFormValues = z.output<typeof campaignFormSchema>;
+
+export function toCampaignPayload({
+  variables,
+  is_active,
+  subject,
+  content_type,
+  change_note,
+  ...campaign
+}: CampaignFormValues) {
+  return {
+    ...campaign,
+    meta: {
+      variable_map: Object.fromEntries(
+        variables.map(({ name, source }) => [name, source])
+      ),
+      is_active,
+      // SMS has no subject line; only email bodies can be HTML.
+      subject: campaign.type === "sms" ? undefined : subject,
+      content_type: campaign.type === "email" ? content_type : undefined,
+    },
+    change_note: change_note || undefined,
+  };
+}
+
+export type CampaignPayload = ReturnType<typeof toCampaignPayload>;
+
+export function campaignFormDefaults(campaign: Campaign): CampaignFormInput {
+  return {
+    title: campaign.title,
+    type: (CAMPAIGN_TYPES as readonly string[]).includes(campaign.type)
+      ? (campaign.type as CampaignFormInput["type"])
+      : "email",
+    property_id: campaign.property_id,
+    message: campaign.message,
+    variables: Object.entries(campaign.meta?.variable_map ?? {}).map(
+      ([name, source]) => ({ name, source })
+    ),
+    is_active: campaign.meta?.is_active ?? true,
+    subject: campaign.meta?.subject ?? "",
+    content_type: campaign.meta?.content_type ?? "text",
+    attachments: campaign.attachments,
+    change_note: "",
+  };
+}
+
+export const propertySchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  status: z.string().optional(),
+});
+
+export type Property = z.infer<typeof propertySchema>;
+
+export const addonSchema = z.object({
+  _id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  value: z.number(),
+  status: z.string(),
+  property_id: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Addon = z.infer<typeof addonSchema>;
+
+export const workspaceUserSchema = z.object({
+  name: z.string(),
+  email: z.string(),
+  phone_number: z.string(),
+  user_id: z.string(),
+  role: z.string(),
+});
+
+export type WorkspaceUser = z.infer<typeof workspaceUserSchema>;
+
+export const workspaceSchema = z.object({
+  property_id: z.string(),
+  property_name: z.string(),
+  totalUsers: z.number(),
+  users: z.array(workspaceUserSchema),
+});
+
+export type Workspace = z.infer<typeof workspaceSchema>;
+
+export const currentUserSchema = z.object({
+  _id: z.string().optional(),
+  name: z.string(),
+  email: z.string(),
+  role: z.string(),
+  avatar: z.string().optional(),
+  permissions: z.array(z.string()).optional(),
+});
+
+export type CurrentUser = z.infer<typeof currentUserSchema>;
+
+// Admins with a second factor get `mfa_required` plus a short-lived token to
+// exchange together with the OTP code instead of a session.
+export const loginResultSchema = z
+  .object({
+    mfa_required: z.boolean().optional(),
+    mfa_token: z.string().optional(),
+  })
+  .passthrough()
+  .nullish();
+
+export const envelopeSchema = z.object({
+  message: z.string().optional(),
+  status: z.string(),
+  data: z.unknown(),
+});
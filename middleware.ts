@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  LOGIN_PATH,
+  RETURN_TO_PARAM,
+  SESSION_COOKIES,
+  SESSION_EXPIRED_PARAM,
+  buildLoginUrl,
+  sanitizeReturnTo,
+} from "@/lib/auth";
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const authenticated = SESSION_COOKIES.some((name) =>
+    request.cookies.has(name)
+  );
+
+  if (pathname === LOGIN_PATH) {
+    const expired = request.nextUrl.searchParams.has(SESSION_EXPIRED_PARAM);
+    if (!authenticated || expired) return NextResponse.next();
+    const returnTo = sanitizeReturnTo(
+      request.nextUrl.searchParams.get(RETURN_TO_PARAM)
+    );
+    return NextResponse.redirect(new URL(returnTo, request.url));
+  }
+
+  if (!authenticated) {
+    return NextResponse.redirect(
+      new URL(buildLoginUrl(`${pathname}${search}`), request.url)
+    );
+  }
+
+  return NextResponse.next();
+}
+
+// Everything except Next internals and files served from /public.
+export const config = {
+  matcher: [
+    "/((?!_next/static|_next/image|favicon.ico|opengraph-image|assets/|avatars/|fonts/|.*\\.(?:png|jpg|jpeg|gif|svg|ico|woff2?)$).*)",
+  ],
+};